@@ -1,55 +1,265 @@
-import type { FITSBITPIX, FITSNumericTypedArray } from "./data.js"
-import { FITSData } from "./data.js"
+import type { FITSASCIITableColumnInput } from "./ascii-table.js"
+import type { FITSBinaryTableColumnInput } from "./binary-table.js"
+import type { FITSBufferOptions } from "./checksum.js"
+import type { FITSCompressionOptions } from "./compression.js"
+import type { FITSBigIntTypedArray, FITSBITPIX, FITSDataScaling, FITSDataSliceRange, FITSDataUnit, FITSNumericTypedArray, FITSPointValue } from "./data.js"
+import type { FITSParseOptions } from "./header.js"
+import type { FITSRandomGroupsInput } from "./random-groups.js"
+import { FITSASCIITable } from "./ascii-table.js"
+import { FITSBinaryTable } from "./binary-table.js"
+import { compressImage, decompressImage, isCompressedImage } from "./compression.js"
+import { FITSData, getDataByteLength, normalizeSliceRanges } from "./data.js"
+import { isGzip } from "./gzip.js"
 import { FITSHeader } from "./header.js"
+import { FITSRandomGroups } from "./random-groups.js"
+import { FITSWCS } from "./wcs.js"
 
 export const BLOCK_SIZE = 2880
 
+interface FITSParsedResult {
+  fits: FITS<FITSDataUnit>
+  bytesRead: number
+}
+
+/**
+ * Rounds a byte length up to the next multiple of {@link BLOCK_SIZE}.
+ *
+ * @param {number} length The length to align.
+ * @returns {number} The aligned length.
+ */
+export function alignToBlock(length: number): number {
+  return Math.ceil(length / BLOCK_SIZE) * BLOCK_SIZE
+}
+
+/**
+ * Concatenates the given buffers, padding each one with nulls to the next multiple of {@link BLOCK_SIZE}.
+ *
+ * @param {ArrayBuffer[]} buffers The buffers to concatenate.
+ * @returns {ArrayBuffer} The concatenated buffer.
+ */
+export function concatBlocks(buffers: ArrayBuffer[]): ArrayBuffer {
+  const totalLength = buffers.reduce((accum, buffer) => accum + alignToBlock(buffer.byteLength), 0)
+  const output = new Uint8Array(totalLength) // Already filled with nulls
+
+  let offset = 0
+  for (const buffer of buffers) {
+    output.set(new Uint8Array(buffer), offset)
+    offset += alignToBlock(buffer.byteLength)
+  }
+
+  return output.buffer
+}
+
+/**
+ * Returns the size in bytes (without padding) of the data unit described by a header.
+ *
+ * @param {FITSHeader} header The header of the HDU.
+ * @returns {number} The size of the data unit in bytes.
+ */
+export function getHeaderDataByteLength(header: FITSHeader): number {
+  const BITPIX = header.getValue("BITPIX") as FITSBITPIX
+  const NAXIS = header.getValue("NAXIS")!
+  const NAXISn = Array.from({ length: NAXIS }, (_, i) => header.getValue(`NAXIS${i + 1}`)!)
+  const PCOUNT = header.getValue("PCOUNT") ?? 0
+  const GCOUNT = header.getValue("GCOUNT") ?? 1
+
+  // In random groups, NAXIS1 = 0 is just a marker: the groups are made of the rest of the axes
+  return getDataByteLength(BITPIX, header.isRandomGroups ? NAXISn.slice(1) : NAXISn, PCOUNT, GCOUNT)
+}
+
+/**
+ * Writes the BSCALE and BZERO cards of an image, or removes them if the data is not scaled.
+ *
+ * @param {FITSHeader} header The header to update.
+ * @param {FITSData} data The image data.
+ */
+function setScalingCards(header: FITSHeader, data: FITSData): void {
+  const scaled = data.BSCALE !== 1 || data.BZERO !== 0
+  header.set("BSCALE", scaled ? data.BSCALE : undefined, { comment: "Physical = BZERO + BSCALE * stored" })
+  header.set("BZERO", scaled ? data.BZERO : undefined, { comment: "Physical value of stored zero" })
+}
+
+/**
+ * Writes the BLANK card of an image, or removes it if the data has no undefined points.
+ *
+ * @param {FITSHeader} header The header to update.
+ * @param {FITSData} data The image data.
+ */
+function setBlankCard(header: FITSHeader, data: FITSData): void {
+  const BLANK = data.BLANK === null ? undefined : Number(data.BLANK)
+  header.set("BLANK", BLANK, { comment: "Stored value of undefined pixels" })
+}
+
 // Standard FITS header keywords
 
-export class FITS {
+/**
+ * A header and data unit (HDU). The type of the data unit depends on the kind of HDU: images (primary HDUs and IMAGE
+ * extensions) use {@link FITSData}, random-groups primary HDUs use {@link FITSRandomGroups}, ASCII tables use
+ * {@link FITSASCIITable} and binary tables use {@link FITSBinaryTable}.
+ */
+export class FITS<D extends FITSDataUnit = FITSData> {
   private constructor(
     readonly header: FITSHeader,
-    readonly data: FITSData,
+    readonly data: D,
   ) {}
 
   /**
-   * Returns the FITS file as a JSON-serializable object.
+   * Returns whether the data unit of the HDU is an image.
    */
-  public toJSON(): unknown {
-    return {
-      header: this.header.toJSON(),
-      data: this.data.toJSON(),
-    }
+  public isImage(): this is FITS<FITSData> {
+    return this.data instanceof FITSData
   }
 
   /**
-   * Returns the FITS file as a binary buffer.
+   * Returns whether the HDU is a binary table extension.
    */
-  public toBuffer(): ArrayBuffer {
-    const headerBuffer = this.header.toBuffer()
-    const dataBuffer = this.data.toBuffer()
+  public isBinaryTable(): this is FITS<FITSBinaryTable> {
+    return this.data instanceof FITSBinaryTable
+  }
 
-    const headerLength = headerBuffer.byteLength // Already padded to BLOCK_SIZE
-    const dataLength = Math.ceil(dataBuffer.byteLength / BLOCK_SIZE) * BLOCK_SIZE
-    const totalLength = headerLength + dataLength
+  /**
+   * Returns whether the HDU is an ASCII table extension.
+   */
+  public isASCIITable(): this is FITS<FITSASCIITable> {
+    return this.data instanceof FITSASCIITable
+  }
 
-    const buffer = new ArrayBuffer(totalLength)
-    const view = new DataView(buffer)
+  /**
+   * Returns whether the HDU is a random-groups primary HDU.
+   */
+  public isRandomGroups(): this is FITS<FITSRandomGroups> {
+    return this.data instanceof FITSRandomGroups
+  }
 
-    const headerView = new DataView(headerBuffer)
-    for (let i = 0; i < headerBuffer.byteLength; i++) {
-      view.setUint8(i, headerView.getUint8(i))
+  /**
+   * Returns a copy of this HDU as an IMAGE extension (`XTENSION = 'IMAGE'`). The data unit is shared.
+   *
+   * @returns {FITS} The IMAGE extension HDU.
+   * @throws {TypeError} If the data unit is not an image (i.e. PCOUNT is not 0 or GCOUNT is not 1).
+   */
+  public toImageExtension(this: FITS<FITSData>): FITS {
+    if (this.data.PCOUNT !== 0 || this.data.GCOUNT !== 1) {
+      throw new TypeError(`Cannot convert to an IMAGE extension: expected PCOUNT = 0 and GCOUNT = 1, but got ${this.data.PCOUNT} and ${this.data.GCOUNT}`)
     }
 
-    const dataView = new DataView(dataBuffer)
-    for (let i = 0; i < dataBuffer.byteLength; i++) {
-      view.setUint8(headerLength + i, dataView.getUint8(i))
+    return new FITS(this.header.toExtension("IMAGE"), this.data)
+  }
+
+  /**
+   * Returns a copy of this HDU as a primary HDU. The data unit is shared.
+   *
+   * @returns {FITS} The primary HDU.
+   * @throws {TypeError} If the data unit is not an image, or its PCOUNT is not 0 or its GCOUNT is not 1.
+   */
+  public toPrimary(this: FITS<FITSData>): FITS {
+    if (!this.isImage()) {
+      throw new TypeError("Cannot convert to a primary HDU: the data unit is not an image")
+    }
+    if (this.data.PCOUNT !== 0 || this.data.GCOUNT !== 1) {
+      throw new TypeError(`Cannot convert to a primary HDU: expected PCOUNT = 0 and GCOUNT = 1, but got ${this.data.PCOUNT} and ${this.data.GCOUNT}`)
     }
-    for (let i = dataBuffer.byteLength; i < dataLength; i++) {
-      view.setUint8(headerLength + i, 0) // Pad with nulls
+
+    return new FITS(this.header.toPrimary(), this.data)
+  }
+
+  /**
+   * Returns a new HDU with a subset of the image (e.g. a postage stamp or a single plane of a cube). Its header is a
+   * copy of this one, with the WCS updated so that world coordinates stay the same (see
+   * {@link FITSHeader.copyWithSlice}).
+   *
+   * @param {FITSDataSliceRange[]} ranges The 1-based, inclusive ranges along each axis. Missing ranges select the
+   *                                      whole axis.
+   * @returns {FITS} The cutout HDU.
+   * @throws {RangeError} If there are more ranges than axes, or a range is empty or out of bounds.
+   */
+  public cutout(this: FITS<FITSData>, ranges: FITSDataSliceRange[]): FITS {
+    const normalized = normalizeSliceRanges(ranges, this.data.NAXISn)
+    const data = this.data.slice(normalized)
+
+    return new FITS(this.header.copyWithSlice(data, normalized), data)
+  }
+
+  /**
+   * Returns a new HDU with the image tile-compressed: a binary table extension with one compressed tile per row (see
+   * Section "10.1. Tiled image compression" of the FITS standard 4.0). Integer images are compressed without loss,
+   * while floating-point images are quantized according to their noise unless `ZQUANTIZ` is `null`. The header keeps
+   * the cards of this one, and the HDU is decompressed back to an image when it's read.
+   *
+   * @param {FITSCompressionOptions} [options] How to compress the image.
+   * @returns {FITS<FITSBinaryTable>} The compressed HDU.
+   * @throws {TypeError} If the image has no axes, or the options can't compress it.
+   * @throws {RangeError} If the tile sizes or the quantization options are not valid.
+   */
+  public compress(this: FITS<FITSData>, options?: FITSCompressionOptions): FITS<FITSBinaryTable> {
+    const { columns, keywords } = compressImage(this.data, options)
+    const data = FITSBinaryTable.fromColumns(columns)
+    const header = this.header.copyWithCompression(data, [...data.getTableKeywords(), ...keywords], data.columns.length)
+
+    return new FITS(header, data)
+  }
+
+  /**
+   * Returns the linear world coordinate system of the HDU, read from its header (see {@link FITSWCS.fromHeader}).
+   *
+   * @param {string} [alternative] The letter of an alternative WCS (`A` to `Z`), or an empty string for the primary
+   *                               one.
+   * @returns {FITSWCS} The WCS.
+   * @throws {RangeError} If the alternative is not valid.
+   * @throws {TypeError} If a card of the WCS is not a number.
+   */
+  public getWCS(alternative: string = ""): FITSWCS {
+    return FITSWCS.fromHeader(this.header, alternative)
+  }
+
+  /**
+   * Returns the world coordinates of one of the data points in HDU (see {@link FITSWCS.pixelToWorld}). The
+   * coordinates are 1-based and are specified in the order of the axes `(n1, n2, ..., nNAXIS)`.
+   *
+   * @param {...number} coords The coordinates of the data point.
+   * @returns {number[]} The world coordinates of the center of the data point.
+   * @throws {RangeError} If the number of coordinates doesn't match the number of axes of the WCS.
+   */
+  public getWorldCoordinates(this: FITS<FITSData>, ...coords: number[]): number[] {
+    return this.getWCS().pixelToWorld(coords)
+  }
+
+  /**
+   * Returns the data point whose pixel contains the given world coordinates, as stored in the file (see
+   * {@link FITSData.getPoint}).
+   *
+   * @param {...number} world The world coordinates, in the order of the axes of the WCS.
+   * @returns {FITSPointValue} The value of the data point.
+   * @throws {RangeError} If the world coordinates are outside the image, or don't match the number of axes.
+   */
+  public getPointAtWorld(this: FITS<FITSData>, ...world: number[]): FITSPointValue {
+    // Pixel n covers the coordinates from n - 0.5 to n + 0.5
+    const coords = this.getWCS().worldToPixel(world).map(p => Math.floor(p + 0.5))
+    return this.data.getPoint(...coords)
+  }
+
+  /**
+   * Returns the FITS file as a JSON-serializable object.
+   */
+  public toJSON(): unknown {
+    return {
+      header: this.header.toJSON(),
+      data: this.data.toJSON(),
     }
+  }
+
+  /**
+   * Returns the FITS file as a binary buffer.
+   *
+   * @param {FITSBufferOptions} [options] How to write the HDU. With `checksum`, its CHECKSUM and DATASUM cards are
+   *                                      computed (see {@link FITSHeader.copyWithChecksums}).
+   * @returns {ArrayBuffer} The HDU, padded to whole blocks.
+   */
+  public toBuffer(options: FITSBufferOptions = {}): ArrayBuffer {
+    const data = this.data.toBuffer()
+    const header = options.checksum ? this.header.copyWithChecksums(data) : this.header
 
-    return buffer
+    // The header buffer is already padded to BLOCK_SIZE
+    return concatBlocks([header.toBuffer(), data])
   }
 
   /**
@@ -58,34 +268,82 @@ export class FITS {
    * @param {ArrayBuffer} file The FITS file to parse.
    * @param {number | null} forceNaxis The expected value of NAXIS. If specified, the parser will throw an error if the
    *                                   actual value does not match the expected value.
+   * @param {FITSParseOptions} [options] How to parse the header (e.g. leniently).
    * @returns {FITS} The header and data of the FITS file.
+   * @throws {TypeError} If the primary HDU contains random groups, which are read with `FITSFile.fromBuffer`.
+   * @throws {TypeError} If the file is gzip-compressed (see `FITSFile.decompress`).
    * @throws {Error} If the file is not a valid FITS file.
    */
-  static fromBuffer(file: ArrayBuffer, forceNaxis: number | null): FITS {
-    const { header, bytesRead } = FITSHeader.fromBuffer(file)
+  static fromBuffer(file: ArrayBuffer, forceNaxis: number | null, options: FITSParseOptions = {}): FITS {
+    const { fits } = FITS.fromBufferAt(file, 0, options)
+    if (fits.isRandomGroups()) {
+      throw new TypeError("The primary HDU contains random groups: read it with FITSFile.fromBuffer and check isRandomGroups()")
+    }
+    if (!fits.isImage()) {
+      throw new TypeError("The primary HDU must contain an image")
+    }
 
-    const BITPIX = header.getValue("BITPIX") as FITSBITPIX
-    const NAXIS = header.getValue("NAXIS")!
-    const NAXISn = Array.from({ length: NAXIS }, (_, i) => header.getValue(`NAXIS${i + 1}`)!)
+    if (typeof forceNaxis === "number" && fits.data.NAXIS !== forceNaxis) {
+      throw new Error(`Mismatched NAXIS value: expected ${forceNaxis}, but got ${fits.data.NAXIS}`)
+    }
+
+    return fits
+  }
 
-    if (typeof forceNaxis === "number" && NAXIS !== forceNaxis) {
-      throw new Error(`Mismatched NAXIS value: expected ${forceNaxis}, but got ${NAXIS}`)
+  /**
+   * Parses a single HDU of a FITS file, starting at the given offset. The HDU can either be the primary HDU or an
+   * extension. Random-groups primary HDUs are parsed as {@link FITSRandomGroups}, BINTABLE extensions as
+   * {@link FITSBinaryTable}, TABLE extensions as {@link FITSASCIITable}, and the rest as {@link FITSData}.
+   *
+   * Tile-compressed images (BINTABLE extensions with `ZIMAGE = T`) are decompressed into a {@link FITSData}, and their
+   * header is replaced by the one of the image (see {@link FITSHeader.copyWithDecompression}).
+   *
+   * @param {ArrayBuffer} file The FITS file to parse.
+   * @param {number} offset The offset where the HDU starts (in bytes, 0-based). It should be aligned to a block.
+   * @param {FITSParseOptions} [options] How to parse the header (e.g. leniently).
+   * @returns {FITSParsedResult} The parsed HDU and the number of bytes read (including padding).
+   * @throws {TypeError} If the file is gzip-compressed, since it must be decompressed first with
+   *                     `FITSFile.decompress`.
+   * @throws {Error} If the HDU is not a valid FITS HDU.
+   */
+  static fromBufferAt(file: ArrayBuffer, offset: number, options: FITSParseOptions = {}): FITSParsedResult {
+    if (offset === 0 && isGzip(new Uint8Array(file, 0, Math.min(file.byteLength, 2)))) {
+      throw new TypeError("The file is gzip-compressed: decompress it first with FITSFile.decompress")
     }
 
-    const expectedBytes = NAXIS === 0
-      ? 0
-      : NAXISn.reduce((accum, len) => accum * len, Math.abs(BITPIX) / 8)
+    const { header, bytesRead } = FITSHeader.fromBuffer(file, offset, options)
+    const expectedBytes = getHeaderDataByteLength(header)
 
     // Align the offset to the next block
-    const offset = Math.ceil(bytesRead / BLOCK_SIZE) * BLOCK_SIZE
-    const dataBuffer = file.slice(offset, offset + expectedBytes)
+    const dataOffset = offset + alignToBlock(bytesRead)
+    const dataBuffer = file.slice(dataOffset, dataOffset + expectedBytes)
     if (dataBuffer.byteLength !== expectedBytes) {
       throw new RangeError(`Expected ${expectedBytes} bytes of data, but got ${dataBuffer.byteLength}`)
     }
 
-    const data = new FITSData({ BITPIX, NAXIS, NAXISn, dataBuffer })
+    const XTENSION = header.getValue("XTENSION")
+    let hduHeader = header
+    let data: FITSDataUnit
+    if (header.isRandomGroups) {
+      data = FITSRandomGroups.fromHeader(header, dataBuffer)
+    }
+    else if (isCompressedImage(header)) {
+      ({ header: hduHeader, data } = decompressImage(header, FITSBinaryTable.fromHeader(header, dataBuffer)))
+    }
+    else if (XTENSION === "BINTABLE") {
+      data = FITSBinaryTable.fromHeader(header, dataBuffer)
+    }
+    else if (XTENSION === "TABLE") {
+      data = FITSASCIITable.fromHeader(header, dataBuffer)
+    }
+    else {
+      data = FITSData.fromHeader(header, dataBuffer)
+    }
 
-    return new FITS(header, data)
+    return {
+      fits: new FITS<FITSDataUnit>(hduHeader, data),
+      bytesRead: alignToBlock(bytesRead) + alignToBlock(expectedBytes),
+    }
   }
 
   /**
@@ -103,15 +361,17 @@ export class FITS {
    * A(NAXIS1, NAXIS2, ..., NAXISm)
    *
    *
-   * @param {number[]} points The points of the FITS file.
+   * @param {(number | null)[]} points The points of the FITS file. `null` marks undefined points, which are written
+   *                                   as NaN for floating-point data and with a BLANK card for integer data.
    * @param {BITPIX | FITSBITPIXAlias} BITPIX The bits per point of the data.
    * @param {number[]} axes The axes of the data matrix.
    * @param {FITSHeader} [copyHeader] The header to copy from.
    * @returns {FITS} The header and data of the FITS file.
    */
-  static fromDataArray(points: number[], BITPIX: FITSBITPIX, axes: number[], copyHeader?: FITSHeader): FITS {
+  static fromDataArray(points: (number | null)[], BITPIX: FITSBITPIX, axes: number[], copyHeader?: FITSHeader): FITS {
     const header = copyHeader ? copyHeader.copyWith(BITPIX, axes) : FITSHeader.basic(BITPIX, axes)
     const data = FITSData.fromArray(points, BITPIX, axes)
+    setBlankCard(header, data)
 
     return new FITS(header, data)
   }
@@ -119,15 +379,99 @@ export class FITS {
   /**
    * Creates a new FITS file from a typed array.
    *
-   * @param {FITSNumericTypedArray} points The typed array points of the FITS file.
+   * Signed bytes and unsigned integers are stored with the standard offsets when BITPIX is their counterpart (e.g. a
+   * `Uint16Array` with BITPIX 16 is written with `BZERO = 32768`), and the BSCALE and BZERO cards are set accordingly.
+   * 64-bit integers are given as a `BigInt64Array`, or as a `BigUint64Array` to store them with `BZERO = 2^63`.
+   *
+   * @param {FITSNumericTypedArray | FITSBigIntTypedArray} points The typed array points of the FITS file.
    * @param {BITPIX | FITSBITPIXAlias} BITPIX The bits per point of the data.
    * @param {number[]} axes The axes of the data matrix.
    * @param {FITSHeader} [copyHeader] The header to copy from.
    * @returns {FITS} The header and data of the FITS file.
    */
-  static fromTypedArray(points: FITSNumericTypedArray, BITPIX: FITSBITPIX, axes: number[], copyHeader?: FITSHeader): FITS {
+  static fromTypedArray(points: FITSNumericTypedArray | FITSBigIntTypedArray, BITPIX: FITSBITPIX, axes: number[], copyHeader?: FITSHeader): FITS {
     const header = copyHeader ? copyHeader.copyWith(BITPIX, axes) : FITSHeader.basic(BITPIX, axes)
     const data = FITSData.fromTypedArray(points, BITPIX, axes)
+    setScalingCards(header, data)
+
+    return new FITS(header, data)
+  }
+
+  /**
+   * Creates a new FITS file from unsigned 16-bit integers, stored as BITPIX 16 with `BZERO = 32768`.
+   *
+   * @param {Uint16Array} points The points of the FITS file.
+   * @param {number[]} axes The axes of the data matrix.
+   * @param {FITSHeader} [copyHeader] The header to copy from.
+   * @returns {FITS} The header and data of the FITS file.
+   */
+  static fromUint16Array(points: Uint16Array, axes: number[], copyHeader?: FITSHeader): FITS {
+    return FITS.fromTypedArray(points, 16, axes, copyHeader)
+  }
+
+  /**
+   * Creates a new FITS file from physical values. The stored values are `(physical - BZERO) / BSCALE`, and the
+   * BSCALE and BZERO cards are written to the header when needed. `null` marks undefined points, as in
+   * {@link fromDataArray}.
+   *
+   * @param {ArrayLike<number | null>} values The physical values of the FITS file.
+   * @param {BITPIX | FITSBITPIXAlias} BITPIX The bits per point of the stored data.
+   * @param {number[]} axes The axes of the data matrix.
+   * @param {FITSDataScaling} [scaling] The scaling to use. If omitted, it's chosen to fit the values in the range of
+   *                                    BITPIX.
+   * @param {FITSHeader} [copyHeader] The header to copy from.
+   * @returns {FITS} The header and data of the FITS file.
+   */
+  static fromPhysicalArray(values: ArrayLike<number | null>, BITPIX: FITSBITPIX, axes: number[], scaling?: FITSDataScaling, copyHeader?: FITSHeader): FITS {
+    const header = copyHeader ? copyHeader.copyWith(BITPIX, axes) : FITSHeader.basic(BITPIX, axes)
+    const data = FITSData.fromPhysicalArray(values, BITPIX, axes, scaling)
+    setScalingCards(header, data)
+    setBlankCard(header, data)
+
+    return new FITS(header, data)
+  }
+
+  /**
+   * Creates a new binary table extension (`XTENSION = 'BINTABLE'`) from columnar data.
+   *
+   * @param {FITSBinaryTableColumnInput[]} columns The definitions and values of the columns.
+   * @param {FITSHeader} [copyHeader] The header to copy from. Its field definitions are replaced.
+   * @returns {FITS<FITSBinaryTable>} The header and data of the binary table.
+   */
+  static fromColumns(columns: FITSBinaryTableColumnInput[], copyHeader?: FITSHeader): FITS<FITSBinaryTable> {
+    const data = FITSBinaryTable.fromColumns(columns)
+    const header = (copyHeader ?? FITSHeader.basic(8, [], "BINTABLE"))
+      .copyWithTable("BINTABLE", data, data.getTableKeywords(), data.columns.length)
+
+    return new FITS(header, data)
+  }
+
+  /**
+   * Creates a new random-groups primary HDU (`GROUPS = T`).
+   *
+   * @param {FITSRandomGroupsInput} input The definitions of the parameters and the groups.
+   * @param {FITSHeader} [copyHeader] The header to copy from. Its parameter definitions are replaced.
+   * @returns {FITS<FITSRandomGroups>} The header and data of the random groups.
+   */
+  static fromRandomGroups(input: FITSRandomGroupsInput, copyHeader?: FITSHeader): FITS<FITSRandomGroups> {
+    const data = FITSRandomGroups.fromGroups(input)
+    const header = (copyHeader ?? FITSHeader.basic(input.BITPIX, []))
+      .copyWithRandomGroups(data, data.getParameterKeywords())
+
+    return new FITS(header, data)
+  }
+
+  /**
+   * Creates a new ASCII table extension (`XTENSION = 'TABLE'`) from columnar data.
+   *
+   * @param {FITSASCIITableColumnInput[]} columns The definitions and values of the columns.
+   * @param {FITSHeader} [copyHeader] The header to copy from. Its field definitions are replaced.
+   * @returns {FITS<FITSASCIITable>} The header and data of the ASCII table.
+   */
+  static fromASCIIColumns(columns: FITSASCIITableColumnInput[], copyHeader?: FITSHeader): FITS<FITSASCIITable> {
+    const data = FITSASCIITable.fromColumns(columns)
+    const header = (copyHeader ?? FITSHeader.basic(8, [], "TABLE"))
+      .copyWithTable("TABLE", data, data.getTableKeywords(), data.columns.length)
 
     return new FITS(header, data)
   }
@@ -0,0 +1,216 @@
+import type { FITSBufferOptions, FITSChecksumResult, FITSChecksumStatus } from "./checksum.js"
+import type { FITSDataUnit } from "./data.js"
+import type { FITSParseOptions } from "./header.js"
+import type { FITSStreamEvent, FITSStreamOptions, FITSStreamSource } from "./stream.js"
+import type { FITSDiagnostic } from "./validate.js"
+import { computeChecksum } from "./checksum.js"
+import { alignToBlock, concatBlocks, FITS, getHeaderDataByteLength } from "./FITS.js"
+import { gunzipAsync, isGzip } from "./gzip.js"
+import { FITSHeader, isExtensionStart } from "./header.js"
+import { parseStream } from "./stream.js"
+import { validateFile } from "./validate.js"
+
+/**
+ * A FITS file made of a primary HDU followed by any number of extensions, as defined in Section "3.1. Overall file
+ * structure" of the FITS standard 4.0.
+ */
+export class FITSFile {
+  private constructor(
+    /** The HDUs of the file, in order. The first one is always the primary HDU. */
+    readonly hdus: FITS<FITSDataUnit>[],
+  ) {}
+
+  /**
+   * Returns the primary HDU.
+   */
+  public get primary(): FITS<FITSDataUnit> {
+    return this.hdus[0]!
+  }
+
+  /**
+   * Returns the extensions (i.e. every HDU but the primary one).
+   */
+  public get extensions(): FITS<FITSDataUnit>[] {
+    return this.hdus.slice(1)
+  }
+
+  /**
+   * Returns the FITS file as a JSON-serializable object.
+   */
+  public toJSON(): unknown {
+    return this.hdus.map(hdu => hdu.toJSON())
+  }
+
+  /**
+   * Returns the FITS file as a binary buffer.
+   *
+   * The structural cards of every HDU are rewritten as needed: the primary header gets `EXTEND = T` when there are
+   * extensions (and GROUPS, PCOUNT and GCOUNT for random groups), and extension headers get XTENSION (`IMAGE` if
+   * missing), PCOUNT and GCOUNT.
+   *
+   * @param {FITSBufferOptions} [options] How to write the file. With `checksum`, the CHECKSUM and DATASUM cards of
+   *                                      every HDU are computed once its structural cards are rewritten.
+   * @returns {ArrayBuffer} The FITS file.
+   */
+  public toBuffer(options: FITSBufferOptions = {}): ArrayBuffer {
+    const buffers: ArrayBuffer[] = []
+
+    for (let i = 0; i < this.hdus.length; i++) {
+      const hdu = this.hdus[i]!
+      const { header, data } = hdu
+      const structure = i === 0
+        ? {
+            XTENSION: null,
+            GROUPS: hdu.isRandomGroups(),
+            PCOUNT: data.PCOUNT,
+            GCOUNT: data.GCOUNT,
+            EXTEND: this.hdus.length > 1 ? true : undefined,
+          }
+        : {
+            XTENSION: header.isPrimary ? "IMAGE" : header.getValue("XTENSION")!,
+            PCOUNT: data.PCOUNT,
+            GCOUNT: data.GCOUNT,
+          }
+
+      const dataBuffer = data.toBuffer()
+      const hduHeader = header.copyWith(data.BITPIX, data.NAXISn, structure)
+      buffers.push((options.checksum ? hduHeader.copyWithChecksums(dataBuffer) : hduHeader).toBuffer(), dataBuffer)
+    }
+
+    return concatBlocks(buffers)
+  }
+
+  /**
+   * Parses a FITS file with all of its HDUs.
+   *
+   * @param {ArrayBuffer} file The FITS file to parse.
+   * @param {FITSParseOptions} [options] How to parse the headers (e.g. leniently).
+   * @returns {FITSFile} The HDUs of the FITS file.
+   * @throws {TypeError} If the file is gzip-compressed (see {@link FITSFile.decompress}).
+   * @throws {Error} If the file is not a valid FITS file.
+   */
+  static fromBuffer(file: ArrayBuffer, options: FITSParseOptions = {}): FITSFile {
+    const hdus: FITS<FITSDataUnit>[] = []
+
+    let offset = 0
+    while (offset < file.byteLength) {
+      if (hdus.length > 0 && !isExtensionStart(new Uint8Array(file, offset))) {
+        break
+      }
+
+      const { fits, bytesRead } = FITS.fromBufferAt(file, offset, options)
+      if (hdus.length === 0 && !fits.header.isPrimary) {
+        throw new Error("The first HDU must be a primary HDU")
+      }
+
+      hdus.push(fits)
+      offset += bytesRead
+    }
+
+    if (hdus.length === 0) {
+      throw new Error("Unexpected end of file")
+    }
+
+    return new FITSFile(hdus)
+  }
+
+  /**
+   * Checks the CHECKSUM and DATASUM cards of every HDU of a file. The sums are computed over the bytes of the file as
+   * they are, so tile-compressed images are checked against the cards of their binary table.
+   *
+   * @param {ArrayBuffer} file The FITS file to check.
+   * @returns {FITSChecksumResult[]} The result of each HDU, in order. Cards that are not present are `missing`.
+   * @throws {Error} If the file is not a valid FITS file.
+   */
+  static verifyChecksums(file: ArrayBuffer): FITSChecksumResult[] {
+    const results: FITSChecksumResult[] = []
+
+    let offset = 0
+    while (offset < file.byteLength) {
+      if (results.length > 0 && !isExtensionStart(new Uint8Array(file, offset))) {
+        break
+      }
+
+      const { header, bytesRead } = FITSHeader.fromBuffer(file, offset)
+      const dataOffset = offset + alignToBlock(bytesRead)
+      const end = dataOffset + alignToBlock(getHeaderDataByteLength(header))
+      const dataSum = computeChecksum(new Uint8Array(file.slice(dataOffset, end)))
+
+      const DATASUM = header.getValue("DATASUM")
+      const status = (valid: boolean): FITSChecksumStatus => valid ? "valid" : "invalid"
+      results.push({
+        index: results.length,
+        CHECKSUM: header.getValue("CHECKSUM") === undefined
+          ? "missing"
+          : status(computeChecksum(new Uint8Array(file.slice(offset, dataOffset)), dataSum) === 0xFFFFFFFF),
+        DATASUM: DATASUM === undefined ? "missing" : status(Number(DATASUM) === dataSum),
+      })
+      offset = end
+    }
+
+    if (results.length === 0) {
+      throw new Error("Unexpected end of file")
+    }
+
+    return results
+  }
+
+  /**
+   * Checks a file against the FITS standard 4.0 and returns every problem found, instead of stopping at the first one
+   * like {@link FITSFile.fromBuffer}. The checks cover the characters, keywords and values of every header record,
+   * the types of the reserved keywords, the order and values of the mandatory keywords (and their fixed format),
+   * duplicate keywords, the END card and the padding of headers and data units.
+   *
+   * @param {ArrayBuffer} file The FITS file to check.
+   * @returns {FITSDiagnostic[]} The problems, in the order of the file. An empty array means the file is valid.
+   */
+  static validate(file: ArrayBuffer): FITSDiagnostic[] {
+    return validateFile(file)
+  }
+
+  /**
+   * Decompresses a gzip-compressed FITS file (e.g. `.fits.gz`) with the platform's `DecompressionStream`. Files that
+   * don't start with the gzip magic bytes (`1F 8B`) are returned as is, so any file can go through this method before
+   * {@link FITSFile.fromBuffer} or {@link FITS.fromBuffer}.
+   *
+   * @param {ArrayBuffer} file The file, compressed or not.
+   * @returns {Promise<ArrayBuffer>} The uncompressed file.
+   * @throws {TypeError} If the file starts like gzip but is not valid gzip.
+   */
+  static async decompress(file: ArrayBuffer): Promise<ArrayBuffer> {
+    return isGzip(new Uint8Array(file, 0, Math.min(file.byteLength, 2))) ? gunzipAsync(file) : file
+  }
+
+  /**
+   * Parses a FITS file incrementally from a stream of bytes, without keeping the whole file in memory. Each header is
+   * emitted as soon as its END card arrives, followed by the chunks of its data unit (in blocks or rows).
+   *
+   * @param {FITSStreamSource} source The source of bytes: a `ReadableStream<Uint8Array>` or an async iterable of chunks.
+   * @param {FITSStreamOptions} [options] The options.
+   * @returns An async generator that yields the headers and the chunks of data of each HDU, in order.
+   * @throws {Error} If the file ends before a header or data unit is complete, or a header is not valid.
+   */
+  static parseStream(source: FITSStreamSource, options?: FITSStreamOptions): AsyncGenerator<FITSStreamEvent, void, unknown> {
+    return parseStream(source, options)
+  }
+
+  /**
+   * Creates a new FITS file from a primary HDU and its extensions.
+   *
+   * @param {FITS} primary The primary HDU.
+   * @param {FITS[]} [extensions] The extensions that follow the primary HDU.
+   * @returns {FITSFile} The FITS file.
+   * @throws {TypeError} If the primary HDU is not an image or random groups, or an extension contains random groups.
+   */
+  static fromHDUs(primary: FITS<FITSDataUnit>, extensions: FITS<FITSDataUnit>[] = []): FITSFile {
+    if (!primary.isImage() && !primary.isRandomGroups()) {
+      throw new TypeError("The primary HDU must contain an image or random groups")
+    }
+    const index = extensions.findIndex(extension => extension.isRandomGroups())
+    if (index !== -1) {
+      throw new TypeError(`Random groups are only allowed in the primary HDU, but extension ${index + 1} contains them`)
+    }
+
+    return new FITSFile([primary, ...extensions])
+  }
+}
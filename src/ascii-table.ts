@@ -0,0 +1,524 @@
+/**
+ * @fileoverview
+ * ASCII tables (`XTENSION = 'TABLE'`) are defined in Section "7.2. ASCII-table extension" of the FITS standard 4.0.
+ * Each row is a line of NAXIS1 characters, and each field is found at the 1-based column TBCOLn, with a width and
+ * Fortran-style format given by TFORMn.
+ */
+
+import type { FITSBITPIX, FITSDataUnit } from "./data.js"
+import type { FITSHeader, FITSHeaderEntry } from "./header.js"
+
+/**
+ * Data type codes of an ASCII table field (TFORMn), as defined in Table 15 of the FITS standard 4.0.
+ */
+export type FITSASCIITableType = "A" | "I" | "F" | "E" | "D"
+
+/**
+ * An ASCII table column, as described by its TBCOLn, TFORMn, TTYPEn, TUNITn, TNULLn, TSCALn and TZEROn keywords.
+ */
+export interface FITSASCIITableColumn {
+  /** The name of the column (TTYPEn), or `null` if unnamed. */
+  name: string | null
+  /** The verbatim format of the column (TFORMn). */
+  TFORM: string
+  /** The data type of the column. */
+  type: FITSASCIITableType
+  /** The width of the field (in characters). */
+  width: number
+  /** The number of digits after the decimal point for `F`, `E` and `D` fields, or `null` for the rest. */
+  decimals: number | null
+  /** The 1-based column where the field starts (TBCOLn). */
+  TBCOL: number
+  /** The physical units of the column (TUNITn), or `null` if not specified. */
+  unit: string | null
+  /** The string that represents an undefined value (TNULLn), or `null` if not specified. */
+  TNULL: string | null
+  /** The scaling factor (TSCALn). */
+  TSCAL: number
+  /** The zero point (TZEROn). */
+  TZERO: number
+}
+
+/**
+ * The values of a whole column: one string per row for character fields, and the physical values for numeric fields.
+ * Undefined values (fields equal to TNULLn or entirely blank) are returned as `NaN`.
+ */
+export type FITSASCIITableColumnData = string[] | Float64Array
+
+/**
+ * The value of a single field.
+ */
+export type FITSASCIITableCell = string | number
+
+export type FITSASCIITableRow = Record<string, FITSASCIITableCell>
+
+/**
+ * The definition of a column to write. Numeric values are expected as physical values.
+ */
+export interface FITSASCIITableColumnInput {
+  /** The name of the column (TTYPEn). */
+  name?: string | null
+  /** The values of the column, one per row. */
+  data: string[] | ArrayLike<number>
+  /**
+   * The format of the column (TFORMn). If omitted, it's inferred from `data`: strings map to `Aw`, integers to `Iw`,
+   * `Float32Array`s to `E15.7` and other numbers to `D25.17`.
+   */
+  TFORM?: string
+  /** The physical units of the column (TUNITn). */
+  unit?: string | null
+  /** The string that represents an undefined value (TNULLn). `NaN` values are written as `TNULL`. */
+  TNULL?: string | null
+  /** The scaling factor (TSCALn). */
+  TSCAL?: number
+  /** The zero point (TZEROn). */
+  TZERO?: number
+}
+
+interface FITSASCIITableConstructorOptions {
+  NAXIS1: number
+  NAXIS2: number
+  columns: FITSASCIITableColumn[]
+  dataBuffer: ArrayBuffer
+}
+
+interface FITSASCIITFORM {
+  type: FITSASCIITableType
+  width: number
+  decimals: number | null
+}
+
+const tformRegex = /^(?<type>[AIFED])(?<width>\d+)(?:\.(?<decimals>\d+))?$/
+const integerRegex = /^[+-]?\d+$/
+const realRegex = /^(?<integer>[+-]?\d*)(?:\.(?<fraction>\d*))?(?:[DE](?<exponent>[+-]?\d+))?$/i
+
+/**
+ * Parses an ASCII table TFORMn value.
+ *
+ * @param {string} TFORM The value of the TFORMn keyword, like `A8`, `I6` or `E15.7`.
+ * @returns {FITSASCIITFORM} The data type, width and decimals of the field.
+ * @throws {TypeError} If the format is invalid.
+ */
+export function parseASCIITFORM(TFORM: string): FITSASCIITFORM {
+  const result = tformRegex.exec(TFORM.trim())?.groups
+  if (!result) {
+    throw new TypeError(`Invalid TFORM value \`${TFORM}\``)
+  }
+
+  const type = result.type as FITSASCIITableType
+  const width = Number.parseInt(result.width, 10)
+  const decimals = result.decimals === undefined ? null : Number.parseInt(result.decimals, 10)
+  if (width === 0) {
+    throw new TypeError(`Invalid TFORM value \`${TFORM}\`: the width must be positive`)
+  }
+  if ((type === "A" || type === "I") !== (decimals === null)) {
+    throw new TypeError(`Invalid TFORM value \`${TFORM}\`: ${type} fields ${decimals === null ? "require" : "don't take"} decimals`)
+  }
+
+  return { type, width, decimals }
+}
+
+/**
+ * Parses the contents of a numeric field, following the Fortran rules: the exponent may use `D` or `E`, and when
+ * there is no decimal point, the last `decimals` digits are the fractional part.
+ *
+ * @param {FITSASCIITableColumn} column The column of the field.
+ * @param {string} field The trimmed contents of the field.
+ * @returns {number} The stored value.
+ * @throws {TypeError} If the field is not a valid number.
+ */
+function parseNumber(column: FITSASCIITableColumn, field: string): number {
+  if (column.type === "I") {
+    if (!integerRegex.test(field)) {
+      throw new TypeError(`Invalid integer \`${field}\` in column \`${column.name}\``)
+    }
+    return Number.parseInt(field, 10)
+  }
+
+  const result = realRegex.exec(field)?.groups
+  if (!result || !/\d/.test(`${result.integer}${result.fraction ?? ""}`)) {
+    throw new TypeError(`Invalid real number \`${field}\` in column \`${column.name}\``)
+  }
+
+  const exponent = Number.parseInt(result.exponent ?? "0", 10)
+  return result.fraction === undefined
+    ? Number(`${result.integer}e${exponent - column.decimals!}`)
+    : Number(`${result.integer}.${result.fraction}e${exponent}`)
+}
+
+/**
+ * Formats a stored value to fit in a numeric field, right-justified.
+ *
+ * @param {FITSASCIITableColumn} column The column of the field.
+ * @param {number} value The stored value.
+ * @returns {string} The contents of the field.
+ * @throws {RangeError} If the value doesn't fit in the field.
+ */
+function formatNumber(column: FITSASCIITableColumn, value: number): string {
+  let text: string
+  switch (column.type) {
+    case "I":
+      text = Math.round(value).toString()
+      break
+    case "F":
+      text = value.toFixed(column.decimals!)
+      break
+    default:
+      // Exponents are written with at least two digits and an `E`, which every reader understands
+      text = value.toExponential(column.decimals!).replace(/e([+-])(\d)$/, "e$10$2").toUpperCase()
+      break
+  }
+
+  if (text.length > column.width) {
+    throw new RangeError(`Value ${value} doesn't fit in column \`${column.name}\` (${column.TFORM})`)
+  }
+  return text.padStart(column.width)
+}
+
+export class FITSASCIITable implements FITSDataUnit {
+  readonly #dataBuffer: ArrayBuffer
+  readonly #columnCache = new Map<number, FITSASCIITableColumnData>()
+
+  /** ASCII tables are always made of characters. */
+  public readonly BITPIX: FITSBITPIX = 8
+
+  /** ASCII tables always have two axes: the width of a row and the number of rows. */
+  public readonly NAXIS = 2
+
+  /**
+   * The first element is the number of characters in a row (NAXIS1), the second is the number of rows (NAXIS2).
+   */
+  public readonly NAXISn: number[]
+
+  /** ASCII tables never have supplemental data. */
+  public readonly PCOUNT = 0
+
+  /** ASCII tables always have one group. */
+  public readonly GCOUNT = 1
+
+  /**
+   * The columns of the table, in order. The n-th column is described by the TBCOLn, TFORMn, TTYPEn, etc. keywords.
+   */
+  public readonly columns: FITSASCIITableColumn[]
+
+  constructor(opts: FITSASCIITableConstructorOptions) {
+    this.NAXISn = [opts.NAXIS1, opts.NAXIS2]
+    this.columns = opts.columns
+    this.#dataBuffer = opts.dataBuffer
+  }
+
+  /** The number of characters in a row (NAXIS1). */
+  public get rowLength(): number {
+    return this.NAXISn[0]!
+  }
+
+  /** The number of rows (NAXIS2). */
+  public get rowCount(): number {
+    return this.NAXISn[1]!
+  }
+
+  /**
+   * Returns the 0-based index of a column.
+   *
+   * @param {string | number} column The name of the column (case-insensitive) or its 1-based number.
+   * @returns {number} The index of the column.
+   * @throws {ReferenceError} If the column does not exist.
+   */
+  #getColumnIndex(column: string | number): number {
+    if (typeof column === "number") {
+      if (!Number.isInteger(column) || column < 1 || column > this.columns.length) {
+        throw new ReferenceError(`Column ${column} out of bounds: the table has ${this.columns.length} columns`)
+      }
+      return column - 1
+    }
+
+    const name = column.trim().toUpperCase()
+    const index = this.columns.findIndex(c => c.name?.toUpperCase() === name)
+    if (index === -1) {
+      throw new ReferenceError(`No column named "${column}"`)
+    }
+    return index
+  }
+
+  /**
+   * Reads the values of a column.
+   *
+   * @param {FITSASCIITableColumn} column The column to read.
+   * @returns {FITSASCIITableColumnData} The physical values.
+   * @throws {TypeError} If a numeric field is not a valid number.
+   */
+  #readColumn(column: FITSASCIITableColumn): FITSASCIITableColumnData {
+    const ascii = new TextDecoder("ascii")
+    const fields = Array.from({ length: this.rowCount }, (_, row) => {
+      const start = row * this.rowLength + column.TBCOL - 1
+      return ascii.decode(new Uint8Array(this.#dataBuffer, start, column.width))
+    })
+
+    if (column.type === "A") {
+      return fields.map(field => field.trimEnd())
+    }
+
+    const { TSCAL, TZERO } = column
+    const TNULL = column.TNULL?.trim() ?? null
+    return Float64Array.from(fields, (field) => {
+      const text = field.trim()
+      // Blank numeric fields have no value
+      if (text === "" || text === TNULL) {
+        return Number.NaN
+      }
+      return TZERO + TSCAL * parseNumber(column, text)
+    })
+  }
+
+  /**
+   * Returns all the values of a column.
+   *
+   * @param {string | number} column The name of the column (case-insensitive) or its 1-based number.
+   * @returns {FITSASCIITableColumnData} The values of the column.
+   * @throws {ReferenceError} If the column does not exist.
+   */
+  public getColumn(column: string | number): FITSASCIITableColumnData {
+    const index = this.#getColumnIndex(column)
+
+    let data = this.#columnCache.get(index)
+    if (!data) {
+      data = this.#readColumn(this.columns[index]!)
+      this.#columnCache.set(index, data)
+    }
+
+    return data
+  }
+
+  /**
+   * Returns the value of a single field.
+   *
+   * @param {number} row The 1-based number of the row.
+   * @param {string | number} column The name of the column (case-insensitive) or its 1-based number.
+   * @returns {FITSASCIITableCell} The value of the field.
+   * @throws {RangeError} If the row is out of bounds.
+   * @throws {ReferenceError} If the column does not exist.
+   */
+  public getCell(row: number, column: string | number): FITSASCIITableCell {
+    if (!Number.isInteger(row) || row < 1 || row > this.rowCount) {
+      throw new RangeError(`Row ${row} out of bounds: the table has ${this.rowCount} rows`)
+    }
+    return this.getColumn(column)[row - 1]!
+  }
+
+  /**
+   * Returns a row of the table as an object, where the keys are the column names (or their 1-based numbers for
+   * unnamed columns).
+   *
+   * @param {number} row The 1-based number of the row.
+   * @returns {FITSASCIITableRow} The fields of the row.
+   * @throws {RangeError} If the row is out of bounds.
+   */
+  public getRow(row: number): FITSASCIITableRow {
+    const output: FITSASCIITableRow = {}
+    for (let i = 0; i < this.columns.length; i++) {
+      output[this.columns[i]!.name ?? `${i + 1}`] = this.getCell(row, i + 1)
+    }
+    return output
+  }
+
+  /**
+   * Returns all the rows of the table as a generator.
+   */
+  public* getRows(): Generator<FITSASCIITableRow, void, unknown> {
+    for (let row = 1; row <= this.rowCount; row++) {
+      yield this.getRow(row)
+    }
+  }
+
+  public toString(): string {
+    return `${this.rowCount} rows x ${this.columns.length} columns ASCII table`
+  }
+
+  public toJSON(): unknown {
+    return Array.from(this.getRows())
+  }
+
+  public toBuffer(): ArrayBuffer {
+    return structuredClone(this.#dataBuffer)
+  }
+
+  /**
+   * Returns the keywords that describe the fields of the table (TTYPEn, TBCOLn, TFORMn, etc.), grouped by column.
+   * TFIELDS is not included.
+   */
+  public getTableKeywords(): FITSHeaderEntry[] {
+    const keywords: FITSHeaderEntry[] = []
+    this.columns.forEach((column, i) => {
+      const n = i + 1
+      if (column.name !== null) keywords.push({ keyword: `TTYPE${n}`, value: column.name, comment: `Label for field ${n}` })
+      keywords.push({ keyword: `TBCOL${n}`, value: column.TBCOL, comment: `Beginning column of field ${n}` })
+      keywords.push({ keyword: `TFORM${n}`, value: column.TFORM, comment: `Fortran-77 format of field ${n}` })
+      if (column.unit !== null) keywords.push({ keyword: `TUNIT${n}`, value: column.unit, comment: `Physical unit of field ${n}` })
+      if (column.TNULL !== null) keywords.push({ keyword: `TNULL${n}`, value: column.TNULL, comment: `Null value of field ${n}` })
+      if (column.TSCAL !== 1) keywords.push({ keyword: `TSCAL${n}`, value: column.TSCAL, comment: `Scaling factor of field ${n}` })
+      if (column.TZERO !== 0) keywords.push({ keyword: `TZERO${n}`, value: column.TZERO, comment: `Zero point of field ${n}` })
+    })
+    return keywords
+  }
+
+  /**
+   * Creates an ASCII table data unit from the header of a TABLE extension and its data.
+   *
+   * @param {FITSHeader} header The header of the extension.
+   * @param {ArrayBuffer} dataBuffer The data of the extension.
+   * @returns {FITSASCIITable} The ASCII table.
+   * @throws {TypeError} If the column definitions are invalid.
+   * @throws {RangeError} If a field doesn't fit in a row.
+   */
+  public static fromHeader(header: FITSHeader, dataBuffer: ArrayBuffer): FITSASCIITable {
+    const NAXIS1 = header.getValue("NAXIS1")!
+    const NAXIS2 = header.getValue("NAXIS2")!
+    const TFIELDS = header.getValue("TFIELDS")
+    if (TFIELDS === undefined) {
+      throw new Error("Missing TFIELDS header")
+    }
+
+    const columns: FITSASCIITableColumn[] = []
+    for (let n = 1; n <= TFIELDS; n++) {
+      const TFORM = header.getValue(`TFORM${n}`)
+      if (TFORM === undefined) {
+        throw new Error(`Missing TFORM${n} header`)
+      }
+      const TBCOL = header.getValue(`TBCOL${n}`)
+      if (TBCOL === undefined) {
+        throw new Error(`Missing TBCOL${n} header`)
+      }
+
+      const { type, width, decimals } = parseASCIITFORM(TFORM)
+      if (TBCOL < 1 || TBCOL - 1 + width > NAXIS1) {
+        throw new RangeError(`Field ${n} (TBCOL${n} = ${TBCOL}, TFORM${n} = '${TFORM}') doesn't fit in NAXIS1 = ${NAXIS1}`)
+      }
+
+      const TNULL = header.getValue(`TNULL${n}`)
+      if (TNULL !== undefined && typeof TNULL !== "string") {
+        throw new TypeError(`Expected TNULL${n} to be a string, but got ${TNULL} [${typeof TNULL}]`)
+      }
+
+      columns.push({
+        name: header.getValue(`TTYPE${n}`) ?? null,
+        TFORM,
+        type,
+        width,
+        decimals,
+        TBCOL,
+        unit: header.getValue(`TUNIT${n}`) ?? null,
+        TNULL: TNULL ?? null,
+        TSCAL: header.getValue(`TSCAL${n}`) ?? 1,
+        TZERO: header.getValue(`TZERO${n}`) ?? 0,
+      })
+    }
+
+    return new FITSASCIITable({ NAXIS1, NAXIS2, columns, dataBuffer })
+  }
+
+  /**
+   * Creates a new ASCII table from columnar data. All the columns must have the same number of rows. Fields are
+   * separated by a single space.
+   *
+   * **Warning**: This method does not create the header of the extension.
+   * It's intended to be called by {@link FITS}.
+   *
+   * @param {FITSASCIITableColumnInput[]} inputs The definitions and values of the columns.
+   * @returns {FITSASCIITable} The ASCII table.
+   * @throws {TypeError} If a column type doesn't match its values.
+   * @throws {RangeError} If the columns have different numbers of rows or a value doesn't fit in its field.
+   */
+  public static fromColumns(inputs: FITSASCIITableColumnInput[]): FITSASCIITable {
+    const columns: FITSASCIITableColumn[] = []
+    let NAXIS2: number | null = null
+    let TBCOL = 1
+
+    for (let i = 0; i < inputs.length; i++) {
+      const input = inputs[i]!
+      const TSCAL = input.TSCAL ?? 1
+      const TZERO = input.TZERO ?? 0
+      const TNULL = input.TNULL ?? null
+
+      if (NAXIS2 !== null && input.data.length !== NAXIS2) {
+        throw new RangeError(`Column ${i + 1} has ${input.data.length} rows, but the previous columns have ${NAXIS2}`)
+      }
+      NAXIS2 = input.data.length
+
+      let TFORM = input.TFORM?.trim()
+      if (TFORM === undefined) {
+        const values = Array.from(input.data as ArrayLike<string | number>)
+        if (values.every(value => typeof value === "string")) {
+          TFORM = `A${Math.max(1, ...values.map(value => value.length))}`
+        }
+        else if (input.data instanceof Float32Array) {
+          TFORM = "E15.7"
+        }
+        else if (values.every(value => Number.isNaN(value) || Number.isInteger(((value as number) - TZERO) / TSCAL))) {
+          const lengths = values.map(value => Number.isNaN(value) ? TNULL?.length ?? 1 : `${((value as number) - TZERO) / TSCAL}`.length)
+          TFORM = `I${Math.max(1, ...lengths)}`
+        }
+        else {
+          TFORM = "D25.17"
+        }
+      }
+
+      const { type, width, decimals } = parseASCIITFORM(TFORM)
+      columns.push({
+        name: input.name ?? null,
+        TFORM,
+        type,
+        width,
+        decimals,
+        TBCOL,
+        unit: input.unit ?? null,
+        TNULL,
+        TSCAL,
+        TZERO,
+      })
+      TBCOL += width + 1
+    }
+
+    const NAXIS1 = Math.max(0, TBCOL - 2)
+    const rows = NAXIS2 ?? 0
+    const bytes = new Uint8Array(NAXIS1 * rows).fill(0x20) // Fill with spaces
+    const encoder = new TextEncoder()
+
+    for (let i = 0; i < columns.length; i++) {
+      const column = columns[i]!
+      const data = inputs[i]!.data as ArrayLike<string | number>
+
+      for (let row = 0; row < rows; row++) {
+        const value = data[row]!
+        let text: string
+        if (column.type === "A") {
+          if (typeof value !== "string") {
+            throw new TypeError(`Expected a string in column \`${column.name}\`, but got ${value} [${typeof value}]`)
+          }
+          if (value.length > column.width) {
+            throw new RangeError(`String \`${value}\` doesn't fit in column \`${column.name}\` (${column.width} characters)`)
+          }
+          text = value.padEnd(column.width)
+        }
+        else if (typeof value !== "number") {
+          throw new TypeError(`Expected a number in column \`${column.name}\`, but got ${value} [${typeof value}]`)
+        }
+        else if (Number.isNaN(value)) {
+          if (column.TNULL === null) {
+            throw new TypeError(`Cannot write NaN to column \`${column.name}\` without TNULL`)
+          }
+          if (column.TNULL.length > column.width) {
+            throw new RangeError(`TNULL \`${column.TNULL}\` doesn't fit in column \`${column.name}\` (${column.TFORM})`)
+          }
+          text = column.TNULL.padStart(column.width)
+        }
+        else {
+          text = formatNumber(column, (value - column.TZERO) / column.TSCAL)
+        }
+
+        bytes.set(encoder.encode(text), row * NAXIS1 + column.TBCOL - 1)
+      }
+    }
+
+    return new FITSASCIITable({ NAXIS1, NAXIS2: rows, columns, dataBuffer: bytes.buffer })
+  }
+}
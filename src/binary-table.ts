@@ -0,0 +1,980 @@
+/**
+ * @fileoverview
+ * Binary tables (`XTENSION = 'BINTABLE'`) are defined in Section "7.3. Binary table extension" of the FITS standard
+ * 4.0. Each row is made of a fixed number of fields, whose layout is described by the TFORMn keywords. Fields with
+ * variable-length arrays (`P` and `Q` descriptors) point to the heap, which follows the main table.
+ */
+
+import type { FITSBITPIX, FITSDataUnit } from "./data.js"
+import type { FITSHeader, FITSHeaderEntry } from "./header.js"
+
+/**
+ * Data type codes of a binary table field (TFORMn), as defined in Table 18 of the FITS standard 4.0.
+ */
+export type FITSBinaryTableType = "L" | "X" | "B" | "I" | "J" | "K" | "A" | "E" | "D" | "C" | "M"
+
+/**
+ * Array descriptor codes: `P` uses 32-bit descriptors and `Q` uses 64-bit descriptors.
+ */
+export type FITSBinaryTableDescriptor = "P" | "Q"
+
+/**
+ * A binary table column, as described by its TFORMn, TTYPEn, TUNITn, TDIMn, TNULLn, TSCALn and TZEROn keywords.
+ */
+export interface FITSBinaryTableColumn {
+  /** The name of the column (TTYPEn), or `null` if unnamed. */
+  name: string | null
+  /** The verbatim format of the column (TFORMn). */
+  TFORM: string
+  /** The data type of the column. For variable-length arrays, it's the type of the elements in the heap. */
+  type: FITSBinaryTableType
+  /** The number of elements of the field. For variable-length arrays, it's the number of descriptors (0 or 1). */
+  repeat: number
+  /** The array descriptor type for variable-length arrays, or `null` for fixed-length fields. */
+  descriptor: FITSBinaryTableDescriptor | null
+  /** The maximum number of elements of a variable-length array, or `null` if not specified. */
+  maxLength: number | null
+  /** The physical units of the column (TUNITn), or `null` if not specified. */
+  unit: string | null
+  /** The dimensions of the field (TDIMn), or `null` if not specified. */
+  TDIM: number[] | null
+  /** The value that represents an undefined integer (TNULLn), or `null` if not specified. */
+  TNULL: number | null
+  /** The scaling factor (TSCALn). */
+  TSCAL: number
+  /** The zero point (TZEROn). */
+  TZERO: number
+  /** The offset of the field from the start of the row (in bytes). */
+  offset: number
+  /** The width of the field (in bytes). */
+  width: number
+}
+
+/**
+ * A run of elements of a field. Complex values take two consecutive elements: real and imaginary parts.
+ */
+export type FITSBinaryTableArray
+  = | (boolean | null)[]
+    | Int8Array
+    | Uint8Array
+    | Int16Array
+    | Uint16Array
+    | Int32Array
+    | Uint32Array
+    | BigInt64Array
+    | BigUint64Array
+    | Float32Array
+    | Float64Array
+
+/**
+ * The values of a whole column.
+ *
+ * Fixed-length fields are flattened, so the `i`-th element of the `j`-th row is at index `j * repeat + i` (complex
+ * values take two consecutive elements: real and imaginary parts). Character fields are returned as one string per row.
+ * Variable-length arrays are returned as one array (or string) per row.
+ *
+ * Columns with a TSCALn or TZEROn are returned as physical values, except for the unsigned integer conventions, which
+ * are returned as unsigned typed arrays.
+ */
+export type FITSBinaryTableColumnData
+  = | string[]
+    | FITSBinaryTableArray
+    | (FITSBinaryTableArray | string)[]
+
+/**
+ * The value of a single field. Fields with a repeat count of 1 are returned as scalars (complex numbers as
+ * `[real, imaginary]` tuples), the rest as arrays.
+ */
+export type FITSBinaryTableCell
+  = | boolean
+    | null
+    | string
+    | number
+    | bigint
+    | [real: number, imaginary: number]
+    | FITSBinaryTableArray
+
+export type FITSBinaryTableRow = Record<string, FITSBinaryTableCell>
+
+/**
+ * The definition of a column to write. The values are expected in the same layout returned by
+ * {@link FITSBinaryTable.getColumn}, i.e. as physical values.
+ */
+export interface FITSBinaryTableColumnInput {
+  /** The name of the column (TTYPEn). */
+  name?: string | null
+  /** The values of the column. */
+  data: FITSBinaryTableColumnData
+  /**
+   * The format of the column (TFORMn). If omitted, it's inferred from `data`: typed arrays map to their matching
+   * type (using TZEROn for unsigned and signed-byte integers), strings to `A`, booleans to `L`, and arrays of arrays to
+   * variable-length arrays with `P` descriptors.
+   */
+  TFORM?: string
+  /** The physical units of the column (TUNITn). */
+  unit?: string | null
+  /** The dimensions of the field (TDIMn). If `TFORM` is omitted, the repeat count is the product of dimensions. */
+  TDIM?: number[] | null
+  /** The value that represents an undefined integer (TNULLn). `NaN` values are written as `TNULL`. */
+  TNULL?: number | null
+  /** The scaling factor (TSCALn). */
+  TSCAL?: number
+  /** The zero point (TZEROn). */
+  TZERO?: number
+}
+
+interface FITSBinaryTableConstructorOptions {
+  NAXIS1: number
+  NAXIS2: number
+  PCOUNT: number
+  THEAP?: number
+  columns: FITSBinaryTableColumn[]
+  dataBuffer: ArrayBuffer
+}
+
+interface FITSBinaryTFORM {
+  repeat: number
+  type: FITSBinaryTableType
+  descriptor: FITSBinaryTableDescriptor | null
+  maxLength: number | null
+}
+
+const TYPE_SIZES: Record<FITSBinaryTableType, number> = {
+  L: 1,
+  X: 1,
+  B: 1,
+  I: 2,
+  J: 4,
+  K: 8,
+  A: 1,
+  E: 4,
+  D: 8,
+  C: 8,
+  M: 16,
+}
+
+const DESCRIPTOR_SIZES: Record<FITSBinaryTableDescriptor, number> = {
+  P: 8,
+  Q: 16,
+}
+
+// TZEROn values that turn a signed integer column into an unsigned one (and vice versa for bytes)
+const UNSIGNED_TZERO: Partial<Record<FITSBinaryTableType, number>> = {
+  B: -128,
+  I: 32768,
+  J: 2147483648,
+  K: 9223372036854775808,
+}
+
+const tformRegex = /^(?<repeat>\d*)(?<type>[LXBIJKAEDCM])/
+const tformVariableRegex = /^(?<repeat>\d*)(?<descriptor>[PQ])(?<type>[LXBIJKAEDCM])(?:\((?<max>\d+)\))?/
+
+/**
+ * Parses a binary table TFORMn value.
+ *
+ * @param {string} TFORM The value of the TFORMn keyword, like `1J`, `20A` or `1PE(100)`.
+ * @returns {FITSBinaryTFORM} The repeat count, data type and descriptor of the field.
+ * @throws {TypeError} If the format is invalid.
+ */
+export function parseBinaryTFORM(TFORM: string): FITSBinaryTFORM {
+  const variable = tformVariableRegex.exec(TFORM.trim())?.groups
+  if (variable) {
+    const repeat = variable.repeat === "" ? 1 : Number.parseInt(variable.repeat, 10)
+    if (repeat > 1) {
+      throw new TypeError(`Invalid TFORM value \`${TFORM}\`: variable-length arrays must have a repeat count of 0 or 1`)
+    }
+    return {
+      repeat,
+      type: variable.type as FITSBinaryTableType,
+      descriptor: variable.descriptor as FITSBinaryTableDescriptor,
+      maxLength: variable.max === undefined ? null : Number.parseInt(variable.max, 10),
+    }
+  }
+
+  const result = tformRegex.exec(TFORM.trim())?.groups
+  if (!result) {
+    throw new TypeError(`Invalid TFORM value \`${TFORM}\``)
+  }
+
+  return {
+    repeat: result.repeat === "" ? 1 : Number.parseInt(result.repeat, 10),
+    type: result.type as FITSBinaryTableType,
+    descriptor: null,
+    maxLength: null,
+  }
+}
+
+/**
+ * Returns the width (in bytes) of a binary table field, or of a run of elements in the heap.
+ *
+ * @param {FITSBinaryTableType} type The data type of the field.
+ * @param {number} repeat The repeat count of the field.
+ * @param {FITSBinaryTableDescriptor | null} [descriptor] The array descriptor of the field, if any.
+ * @returns {number} The width of the field.
+ */
+export function getBinaryFieldWidth(type: FITSBinaryTableType, repeat: number, descriptor: FITSBinaryTableDescriptor | null = null): number {
+  if (descriptor !== null) return DESCRIPTOR_SIZES[descriptor] * repeat
+  return type === "X" ? Math.ceil(repeat / 8) : TYPE_SIZES[type] * repeat
+}
+
+/**
+ * Infers the data type and zero point of a column from its values.
+ *
+ * @param {FITSBinaryTableColumnData} data The values of the column.
+ * @returns The data type and zero point of the column.
+ * @throws {TypeError} If the type cannot be inferred.
+ */
+function inferBinaryType(data: FITSBinaryTableColumnData | string): { type: FITSBinaryTableType, TZERO: number } {
+  if (typeof data === "string") return { type: "A", TZERO: 0 }
+  if (data instanceof Int8Array) return { type: "B", TZERO: UNSIGNED_TZERO.B! }
+  if (data instanceof Uint8Array) return { type: "B", TZERO: 0 }
+  if (data instanceof Int16Array) return { type: "I", TZERO: 0 }
+  if (data instanceof Uint16Array) return { type: "I", TZERO: UNSIGNED_TZERO.I! }
+  if (data instanceof Int32Array) return { type: "J", TZERO: 0 }
+  if (data instanceof Uint32Array) return { type: "J", TZERO: UNSIGNED_TZERO.J! }
+  if (data instanceof BigInt64Array) return { type: "K", TZERO: 0 }
+  if (data instanceof BigUint64Array) return { type: "K", TZERO: UNSIGNED_TZERO.K! }
+  if (data instanceof Float32Array) return { type: "E", TZERO: 0 }
+  if (data instanceof Float64Array) return { type: "D", TZERO: 0 }
+
+  const values = data as unknown[]
+  if (values.every(value => typeof value === "string")) return { type: "A", TZERO: 0 }
+  if (values.every(value => typeof value === "boolean" || value === null)) return { type: "L", TZERO: 0 }
+  throw new TypeError("Cannot infer the column type: expected a typed array, strings or booleans")
+}
+
+/**
+ * Returns whether the values of a column are one array per row (i.e. a variable-length array column).
+ *
+ * @param {FITSBinaryTableColumnData} data The values of the column.
+ * @returns {boolean} Whether the values are one array per row.
+ */
+function isVariableColumnData(data: FITSBinaryTableColumnData): data is (FITSBinaryTableArray | string)[] {
+  return Array.isArray(data) && data.length > 0 && data.every(value => ArrayBuffer.isView(value) || Array.isArray(value))
+}
+
+/**
+ * Returns the number of values of a run of `count` elements in the layout of {@link FITSBinaryTableArray}.
+ *
+ * @param {FITSBinaryTableType} type The data type of the elements.
+ * @param {number} count The number of elements.
+ * @returns {number} The number of values.
+ */
+function getValuesLength(type: FITSBinaryTableType, count: number): number {
+  if (type === "A") return 1
+  if (type === "C" || type === "M") return count * 2
+  return count
+}
+
+/**
+ * Parses a TDIMn value, like `(2,3)`.
+ *
+ * @param {string} TDIM The value of the TDIMn keyword.
+ * @returns {number[]} The dimensions of the field.
+ * @throws {TypeError} If the value is invalid.
+ */
+function parseTDIM(TDIM: string): number[] {
+  const match = /^\(\s*(\d+(?:\s*,\s*\d+)*)\s*\)$/.exec(TDIM.trim())
+  if (!match) {
+    throw new TypeError(`Invalid TDIM value \`${TDIM}\``)
+  }
+  return match[1].split(",").map(dim => Number.parseInt(dim, 10))
+}
+
+/**
+ * Converts a cell to a JSON-serializable value.
+ */
+function cellToJSON(cell: FITSBinaryTableCell): unknown {
+  if (typeof cell === "bigint") {
+    return cell.toString()
+  }
+  if (ArrayBuffer.isView(cell) || Array.isArray(cell)) {
+    return Array.from(cell as ArrayLike<unknown>, value => typeof value === "bigint" ? value.toString() : value)
+  }
+  return cell
+}
+
+/**
+ * Creates an empty array to hold the stored values of a field.
+ *
+ * @param {FITSBinaryTableType} type The data type of the elements (other than `A`).
+ * @param {number} length The number of values.
+ * @returns {FITSBinaryTableArray} The array.
+ */
+function createElements(type: Exclude<FITSBinaryTableType, "A">, length: number): FITSBinaryTableArray {
+  switch (type) {
+    case "L":
+      return Array.from<boolean | null>({ length }).fill(null)
+    case "X":
+    case "B":
+      return new Uint8Array(length)
+    case "I":
+      return new Int16Array(length)
+    case "J":
+      return new Int32Array(length)
+    case "K":
+      return new BigInt64Array(length)
+    case "E":
+    case "C":
+      return new Float32Array(length)
+    case "D":
+    case "M":
+      return new Float64Array(length)
+  }
+}
+
+/**
+ * Reads a run of consecutive elements of a field (or of the heap), without applying any scaling.
+ *
+ * @param {DataView} view The view of the data unit.
+ * @param {FITSBinaryTableType} type The data type of the elements.
+ * @param {number} count The number of elements.
+ * @param {number} offset The offset of the first element (in bytes).
+ * @returns {FITSBinaryTableArray | string} The stored values.
+ */
+function readElements(view: DataView, type: FITSBinaryTableType, count: number, offset: number): FITSBinaryTableArray | string {
+  const read = <T extends { [i: number]: number | bigint }>(output: T, length: number, size: number, get: (offset: number) => T[number]): T => {
+    for (let i = 0; i < length; i++) {
+      output[i] = get(offset + i * size)
+    }
+    return output
+  }
+
+  switch (type) {
+    case "L":
+      return Array.from({ length: count }, (_, i) => {
+        const byte = view.getUint8(offset + i)
+        return byte === 0x54 ? true : byte === 0x46 ? false : null // T, F or null
+      })
+    case "X":
+      return Uint8Array.from({ length: count }, (_, i) => (view.getUint8(offset + (i >> 3)) >> (7 - (i & 7))) & 1)
+    case "A": {
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, count)
+      const nul = bytes.indexOf(0)
+      return new TextDecoder("ascii").decode(nul === -1 ? bytes : bytes.subarray(0, nul)).trimEnd()
+    }
+    case "B":
+      return read(new Uint8Array(count), count, 1, offset => view.getUint8(offset))
+    case "I":
+      return read(new Int16Array(count), count, 2, offset => view.getInt16(offset, false))
+    case "J":
+      return read(new Int32Array(count), count, 4, offset => view.getInt32(offset, false))
+    case "K":
+      return read(new BigInt64Array(count), count, 8, offset => view.getBigInt64(offset, false))
+    case "E":
+      return read(new Float32Array(count), count, 4, offset => view.getFloat32(offset, false))
+    case "D":
+      return read(new Float64Array(count), count, 8, offset => view.getFloat64(offset, false))
+    case "C":
+      return read(new Float32Array(count * 2), count * 2, 4, offset => view.getFloat32(offset, false))
+    case "M":
+      return read(new Float64Array(count * 2), count * 2, 8, offset => view.getFloat64(offset, false))
+    default:
+      throw new TypeError(`Unexpected column type ${type}`)
+  }
+}
+
+/**
+ * Applies TSCALn and TZEROn to a run of stored values.
+ *
+ * @param {FITSBinaryTableColumn} column The column of the values.
+ * @param {FITSBinaryTableArray} raw The stored values.
+ * @returns {FITSBinaryTableArray} The physical values.
+ */
+function scaleElements(column: FITSBinaryTableColumn, raw: FITSBinaryTableArray): FITSBinaryTableArray {
+  const { type, TSCAL, TZERO, TNULL } = column
+  if ((TSCAL === 1 && TZERO === 0) || Array.isArray(raw) || type === "X") {
+    return raw
+  }
+
+  // Unsigned (and signed-byte) integers conventions
+  if (TSCAL === 1 && UNSIGNED_TZERO[type] === TZERO) {
+    switch (type) {
+      case "B":
+        return Int8Array.from(raw as Uint8Array, value => value - 128)
+      case "I":
+        return Uint16Array.from(raw as Int16Array, value => value + 32768)
+      case "J":
+        return Uint32Array.from(raw as Int32Array, value => value + 2147483648)
+      case "K":
+        return BigUint64Array.from(raw as BigInt64Array, value => value + 9223372036854775808n)
+    }
+  }
+
+  const output = new Float64Array(raw.length)
+  for (let i = 0; i < raw.length; i++) {
+    const value = Number(raw[i]!)
+    output[i] = TNULL !== null && value === TNULL ? Number.NaN : TZERO + TSCAL * value
+  }
+  return output
+}
+
+/**
+ * Converts a physical value to the value stored in a field, applying TSCALn, TZEROn and TNULLn.
+ *
+ * @param {FITSBinaryTableColumn} column The column of the field.
+ * @param {number} value The physical value.
+ * @returns {number} The stored value.
+ * @throws {TypeError} If the value is `NaN` and the column has no TNULLn.
+ */
+function toStoredValue(column: FITSBinaryTableColumn, value: number): number {
+  const { type, TSCAL, TZERO, TNULL } = column
+  const isInteger = type === "B" || type === "I" || type === "J" || type === "K"
+
+  if (Number.isNaN(value) && isInteger) {
+    if (TNULL === null) {
+      throw new TypeError(`Cannot write NaN to column \`${column.name}\` without TNULL`)
+    }
+    return TNULL
+  }
+
+  const stored = (value - TZERO) / TSCAL
+  return isInteger ? Math.round(stored) : stored
+}
+
+/**
+ * Writes a run of consecutive elements of a field (or of the heap).
+ *
+ * @param {DataView} view The view of the data unit.
+ * @param {FITSBinaryTableColumn} column The column of the elements.
+ * @param {FITSBinaryTableArray | string} values The physical values.
+ * @param {number} count The number of elements of the field (the width for character fields).
+ * @param {number} offset The offset of the first element (in bytes).
+ * @throws {TypeError} If the values don't match the column type.
+ * @throws {RangeError} If a string doesn't fit in its field.
+ */
+function writeElements(view: DataView, column: FITSBinaryTableColumn, values: FITSBinaryTableArray | string, count: number, offset: number): void {
+  const { type } = column
+
+  if (type === "A") {
+    if (typeof values !== "string") {
+      throw new TypeError(`Expected a string in column \`${column.name}\`, but got ${values} [${typeof values}]`)
+    }
+    if (values.length > count) {
+      throw new RangeError(`String \`${values}\` doesn't fit in column \`${column.name}\` (${count} characters)`)
+    }
+    const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, count)
+    bytes.fill(0x20) // Pad with spaces
+    bytes.set(new TextEncoder().encode(values))
+    return
+  }
+  if (typeof values === "string") {
+    throw new TypeError(`Unexpected string \`${values}\` in column \`${column.name}\` of type ${type}`)
+  }
+
+  const size = type === "C" || type === "M" ? TYPE_SIZES[type] / 2 : TYPE_SIZES[type]
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i]
+
+    if (type === "L") {
+      if (typeof value !== "boolean" && value !== null) {
+        throw new TypeError(`Expected a boolean in column \`${column.name}\`, but got ${value} [${typeof value}]`)
+      }
+      view.setUint8(offset + i, value === true ? 0x54 : value === false ? 0x46 : 0)
+      continue
+    }
+    if (type === "X") {
+      if (value) {
+        const byte = offset + (i >> 3)
+        view.setUint8(byte, view.getUint8(byte) | (1 << (7 - (i & 7))))
+      }
+      continue
+    }
+    if (typeof value === "bigint") {
+      if (type !== "K") {
+        throw new TypeError(`Unexpected bigint value in column \`${column.name}\` of type ${type}`)
+      }
+      view.setBigInt64(offset + i * size, BigInt.asIntN(64, value - BigInt(column.TZERO)), false)
+      continue
+    }
+    if (typeof value !== "number") {
+      throw new TypeError(`Expected a number in column \`${column.name}\`, but got ${value} [${typeof value}]`)
+    }
+
+    const stored = toStoredValue(column, value)
+    switch (type) {
+      case "B":
+        view.setUint8(offset + i * size, stored)
+        break
+      case "I":
+        view.setInt16(offset + i * size, stored, false)
+        break
+      case "J":
+        view.setInt32(offset + i * size, stored, false)
+        break
+      case "K":
+        view.setBigInt64(offset + i * size, BigInt(stored), false)
+        break
+      case "E":
+      case "C":
+        view.setFloat32(offset + i * size, stored, false)
+        break
+      case "D":
+      case "M":
+        view.setFloat64(offset + i * size, stored, false)
+        break
+    }
+  }
+}
+
+/**
+ * Returns the number of elements of a run of physical values.
+ *
+ * @param {FITSBinaryTableType} type The data type of the elements.
+ * @param {FITSBinaryTableArray | string} values The values.
+ * @returns {number} The number of elements.
+ */
+function getElementCount(type: FITSBinaryTableType, values: FITSBinaryTableArray | string): number {
+  return type === "C" || type === "M" ? values.length / 2 : values.length
+}
+
+export class FITSBinaryTable implements FITSDataUnit {
+  readonly #dataBuffer: ArrayBuffer
+  readonly #dataView: DataView
+  readonly #columnCache = new Map<number, FITSBinaryTableColumnData>()
+
+  /** Binary tables are always made of bytes. */
+  public readonly BITPIX: FITSBITPIX = 8
+
+  /** Binary tables always have two axes: the width of a row and the number of rows. */
+  public readonly NAXIS = 2
+
+  /**
+   * The first element is the number of bytes in a row (NAXIS1), the second is the number of rows (NAXIS2).
+   */
+  public readonly NAXISn: number[]
+
+  /**
+   * The number of bytes that follow the main table (the supplemental data area, including the heap).
+   */
+  public readonly PCOUNT: number
+
+  /** Binary tables always have one group. */
+  public readonly GCOUNT = 1
+
+  /**
+   * The offset of the heap from the start of the data unit (in bytes). It defaults to the size of the main table.
+   */
+  public readonly THEAP: number
+
+  /**
+   * The columns of the table, in order. The n-th column is described by the TFORMn, TTYPEn, etc. keywords.
+   */
+  public readonly columns: FITSBinaryTableColumn[]
+
+  constructor(opts: FITSBinaryTableConstructorOptions) {
+    this.NAXISn = [opts.NAXIS1, opts.NAXIS2]
+    this.PCOUNT = opts.PCOUNT
+    this.THEAP = opts.THEAP ?? opts.NAXIS1 * opts.NAXIS2
+    this.columns = opts.columns
+    this.#dataBuffer = opts.dataBuffer
+    this.#dataView = new DataView(this.#dataBuffer)
+  }
+
+  /** The number of bytes in a row (NAXIS1). */
+  public get rowLength(): number {
+    return this.NAXISn[0]!
+  }
+
+  /** The number of rows (NAXIS2). */
+  public get rowCount(): number {
+    return this.NAXISn[1]!
+  }
+
+  /**
+   * Returns the 0-based index of a column.
+   *
+   * @param {string | number} column The name of the column (case-insensitive) or its 1-based number.
+   * @returns {number} The index of the column.
+   * @throws {ReferenceError} If the column does not exist.
+   */
+  #getColumnIndex(column: string | number): number {
+    if (typeof column === "number") {
+      if (!Number.isInteger(column) || column < 1 || column > this.columns.length) {
+        throw new ReferenceError(`Column ${column} out of bounds: the table has ${this.columns.length} columns`)
+      }
+      return column - 1
+    }
+
+    const name = column.trim().toUpperCase()
+    const index = this.columns.findIndex(c => c.name?.toUpperCase() === name)
+    if (index === -1) {
+      throw new ReferenceError(`No column named "${column}"`)
+    }
+    return index
+  }
+
+  /**
+   * Reads the array descriptor of a variable-length array field.
+   *
+   * @param {FITSBinaryTableColumn} column The column of the field.
+   * @param {number} row The 0-based index of the row.
+   * @returns The number of elements and their offset from the start of the heap (in bytes).
+   */
+  #readDescriptor(column: FITSBinaryTableColumn, row: number): { count: number, offset: number } {
+    if (column.repeat === 0) {
+      return { count: 0, offset: 0 }
+    }
+
+    const start = row * this.rowLength + column.offset
+    return column.descriptor === "P"
+      ? { count: this.#dataView.getInt32(start, false), offset: this.#dataView.getInt32(start + 4, false) }
+      : { count: Number(this.#dataView.getBigInt64(start, false)), offset: Number(this.#dataView.getBigInt64(start + 8, false)) }
+  }
+
+  /**
+   * Reads the physical values of a column.
+   *
+   * @param {FITSBinaryTableColumn} column The column to read.
+   * @returns {FITSBinaryTableColumnData} The physical values.
+   * @throws {RangeError} If a variable-length array points outside the heap.
+   */
+  #readColumn(column: FITSBinaryTableColumn): FITSBinaryTableColumnData {
+    const rows = this.rowCount
+    const { type, repeat } = column
+
+    if (column.descriptor !== null) {
+      const output: (FITSBinaryTableArray | string)[] = Array.from({ length: rows })
+      for (let row = 0; row < rows; row++) {
+        const { count, offset } = this.#readDescriptor(column, row)
+        const start = this.THEAP + offset
+        if (start + getBinaryFieldWidth(type, count) > this.#dataBuffer.byteLength) {
+          throw new RangeError(`Variable-length array of column \`${column.name}\` at row ${row + 1} points outside the heap`)
+        }
+        const values = readElements(this.#dataView, type, count, start)
+        output[row] = typeof values === "string" ? values : scaleElements(column, values)
+      }
+      return output
+    }
+
+    if (type === "A") {
+      return Array.from({ length: rows }, (_, row) => readElements(this.#dataView, type, repeat, row * this.rowLength + column.offset) as string)
+    }
+
+    // Fixed-length fields are flattened into a single array
+    const length = getValuesLength(type, repeat)
+    const raw = createElements(type, rows * length)
+    for (let row = 0; row < rows; row++) {
+      const values = readElements(this.#dataView, type, repeat, row * this.rowLength + column.offset) as FITSBinaryTableArray
+      for (let i = 0; i < length; i++) {
+        (raw as { [i: number]: unknown })[row * length + i] = values[i]
+      }
+    }
+    return scaleElements(column, raw)
+  }
+
+  /**
+   * Returns all the values of a column.
+   *
+   * @param {string | number} column The name of the column (case-insensitive) or its 1-based number.
+   * @returns {FITSBinaryTableColumnData} The values of the column. See {@link FITSBinaryTableColumnData} for the
+   *                                      layout.
+   * @throws {ReferenceError} If the column does not exist.
+   */
+  public getColumn(column: string | number): FITSBinaryTableColumnData {
+    const index = this.#getColumnIndex(column)
+
+    let data = this.#columnCache.get(index)
+    if (!data) {
+      data = this.#readColumn(this.columns[index]!)
+      this.#columnCache.set(index, data)
+    }
+
+    return data
+  }
+
+  /**
+   * Returns the value of a single field.
+   *
+   * @param {number} row The 1-based number of the row.
+   * @param {string | number} column The name of the column (case-insensitive) or its 1-based number.
+   * @returns {FITSBinaryTableCell} The value of the field. Variable-length arrays are always returned as arrays.
+   * @throws {RangeError} If the row is out of bounds.
+   * @throws {ReferenceError} If the column does not exist.
+   */
+  public getCell(row: number, column: string | number): FITSBinaryTableCell {
+    if (!Number.isInteger(row) || row < 1 || row > this.rowCount) {
+      throw new RangeError(`Row ${row} out of bounds: the table has ${this.rowCount} rows`)
+    }
+
+    const { type, repeat, descriptor } = this.columns[this.#getColumnIndex(column)]!
+    const data = this.getColumn(column)
+    const i = row - 1
+
+    if (type === "A" || descriptor !== null) {
+      return data[i] as FITSBinaryTableArray | string
+    }
+    if (type === "C" || type === "M") {
+      const values = (data as Float32Array | Float64Array).subarray(i * repeat * 2, (i + 1) * repeat * 2)
+      return repeat === 1 ? [values[0]!, values[1]!] : values
+    }
+
+    const values = data as FITSBinaryTableArray
+    if (repeat === 1) {
+      return values[i]!
+    }
+    return Array.isArray(values)
+      ? values.slice(i * repeat, (i + 1) * repeat)
+      : values.subarray(i * repeat, (i + 1) * repeat)
+  }
+
+  /**
+   * Returns a row of the table as an object, where the keys are the column names (or their 1-based numbers for
+   * unnamed columns).
+   *
+   * @param {number} row The 1-based number of the row.
+   * @returns {FITSBinaryTableRow} The fields of the row.
+   * @throws {RangeError} If the row is out of bounds.
+   */
+  public getRow(row: number): FITSBinaryTableRow {
+    const output: FITSBinaryTableRow = {}
+    for (let i = 0; i < this.columns.length; i++) {
+      output[this.columns[i]!.name ?? `${i + 1}`] = this.getCell(row, i + 1)
+    }
+    return output
+  }
+
+  /**
+   * Returns all the rows of the table as a generator.
+   */
+  public* getRows(): Generator<FITSBinaryTableRow, void, unknown> {
+    for (let row = 1; row <= this.rowCount; row++) {
+      yield this.getRow(row)
+    }
+  }
+
+  public toString(): string {
+    return `${this.rowCount} rows x ${this.columns.length} columns binary table`
+  }
+
+  public toJSON(): unknown {
+    return Array.from(this.getRows(), row => Object.fromEntries(
+      Object.entries(row).map(([name, cell]) => [name, cellToJSON(cell)]),
+    ))
+  }
+
+  public toBuffer(): ArrayBuffer {
+    return structuredClone(this.#dataBuffer)
+  }
+
+  /**
+   * Returns the keywords that describe the fields of the table (TTYPEn, TFORMn, TUNITn, etc.), grouped by column,
+   * followed by THEAP if the table has variable-length arrays. TFIELDS is not included.
+   */
+  public getTableKeywords(): FITSHeaderEntry[] {
+    const keywords: FITSHeaderEntry[] = []
+    this.columns.forEach((column, i) => {
+      const n = i + 1
+      if (column.name !== null) keywords.push({ keyword: `TTYPE${n}`, value: column.name, comment: `Label for field ${n}` })
+      keywords.push({ keyword: `TFORM${n}`, value: column.TFORM, comment: `Data format of field ${n}` })
+      if (column.unit !== null) keywords.push({ keyword: `TUNIT${n}`, value: column.unit, comment: `Physical unit of field ${n}` })
+      if (column.TDIM !== null) keywords.push({ keyword: `TDIM${n}`, value: `(${column.TDIM.join(",")})`, comment: `Dimensions of field ${n}` })
+      if (column.TNULL !== null) keywords.push({ keyword: `TNULL${n}`, value: column.TNULL, comment: `Null value of field ${n}` })
+      if (column.TSCAL !== 1) keywords.push({ keyword: `TSCAL${n}`, value: column.TSCAL, comment: `Scaling factor of field ${n}` })
+      if (column.TZERO !== 0) keywords.push({ keyword: `TZERO${n}`, value: column.TZERO, comment: `Zero point of field ${n}` })
+    })
+    if (this.columns.some(column => column.descriptor !== null)) {
+      keywords.push({ keyword: "THEAP", value: this.THEAP, comment: "Offset of the heap" })
+    }
+    return keywords
+  }
+
+  /**
+   * Creates a binary table data unit from the header of a BINTABLE extension and its data.
+   *
+   * @param {FITSHeader} header The header of the extension.
+   * @param {ArrayBuffer} dataBuffer The data of the extension (main table and supplemental data area).
+   * @returns {FITSBinaryTable} The binary table.
+   * @throws {TypeError} If the column definitions are invalid.
+   * @throws {RangeError} If the fields don't fit in a row or the heap is outside the data unit.
+   */
+  public static fromHeader(header: FITSHeader, dataBuffer: ArrayBuffer): FITSBinaryTable {
+    const NAXIS1 = header.getValue("NAXIS1")!
+    const NAXIS2 = header.getValue("NAXIS2")!
+    const PCOUNT = header.getValue("PCOUNT") ?? 0
+    const THEAP = header.getValue("THEAP") ?? NAXIS1 * NAXIS2
+    const TFIELDS = header.getValue("TFIELDS")
+    if (TFIELDS === undefined) {
+      throw new Error("Missing TFIELDS header")
+    }
+    if (THEAP < NAXIS1 * NAXIS2 || THEAP > NAXIS1 * NAXIS2 + PCOUNT) {
+      throw new RangeError(`Unexpected THEAP value: ${THEAP}`)
+    }
+
+    const columns: FITSBinaryTableColumn[] = []
+    let offset = 0
+    for (let n = 1; n <= TFIELDS; n++) {
+      const TFORM = header.getValue(`TFORM${n}`)
+      if (TFORM === undefined) {
+        throw new Error(`Missing TFORM${n} header`)
+      }
+
+      const { repeat, type, descriptor, maxLength } = parseBinaryTFORM(TFORM)
+      const TDIM = header.getValue(`TDIM${n}`)
+      const TNULL = header.getValue(`TNULL${n}`)
+      if (TNULL !== undefined && (typeof TNULL !== "number" || !Number.isInteger(TNULL))) {
+        throw new TypeError(`Expected TNULL${n} to be an integer, but got ${TNULL} [${typeof TNULL}]`)
+      }
+
+      const width = getBinaryFieldWidth(type, repeat, descriptor)
+      columns.push({
+        name: header.getValue(`TTYPE${n}`) ?? null,
+        TFORM,
+        type,
+        repeat,
+        descriptor,
+        maxLength,
+        unit: header.getValue(`TUNIT${n}`) ?? null,
+        TDIM: TDIM !== undefined ? parseTDIM(TDIM) : null,
+        TNULL: TNULL ?? null,
+        TSCAL: header.getValue(`TSCAL${n}`) ?? 1,
+        TZERO: header.getValue(`TZERO${n}`) ?? 0,
+        offset,
+        width,
+      })
+      offset += width
+    }
+
+    if (offset !== NAXIS1) {
+      throw new RangeError(`Expected the fields to add up to NAXIS1 = ${NAXIS1} bytes, but got ${offset}`)
+    }
+
+    return new FITSBinaryTable({ NAXIS1, NAXIS2, PCOUNT, THEAP, columns, dataBuffer })
+  }
+
+  /**
+   * Creates a new binary table from columnar data. All the columns must have the same number of rows. Variable-length
+   * arrays are stored in the heap, right after the main table.
+   *
+   * **Warning**: This method does not create the header of the extension.
+   * It's intended to be called by {@link FITS}.
+   *
+   * @param {FITSBinaryTableColumnInput[]} inputs The definitions and values of the columns.
+   * @returns {FITSBinaryTable} The binary table.
+   * @throws {TypeError} If a column type cannot be inferred or doesn't match its values.
+   * @throws {RangeError} If the columns have different numbers of rows or a value doesn't fit in its field.
+   */
+  public static fromColumns(inputs: FITSBinaryTableColumnInput[]): FITSBinaryTable {
+    const columns: FITSBinaryTableColumn[] = []
+    let NAXIS2: number | null = null
+    let offset = 0
+    let heapLength = 0
+
+    for (let i = 0; i < inputs.length; i++) {
+      const input = inputs[i]!
+      const TDIM = input.TDIM ?? null
+      const variable = input.TFORM !== undefined ? /^\d*[PQ]/.test(input.TFORM.trim()) : isVariableColumnData(input.data)
+
+      let TFORM: FITSBinaryTFORM
+      let TZERO = input.TZERO ?? 0
+      let rows: number
+      if (variable) {
+        const values = input.data as (FITSBinaryTableArray | string)[]
+        if (input.TFORM !== undefined) {
+          TFORM = parseBinaryTFORM(input.TFORM)
+        }
+        else {
+          const inferred = inferBinaryType(values.find(value => value.length > 0) ?? new Uint8Array(0))
+          TZERO = input.TZERO ?? inferred.TZERO
+          TFORM = { repeat: 1, type: inferred.type, descriptor: "P", maxLength: null }
+        }
+
+        const counts = values.map(value => getElementCount(TFORM.type, value))
+        TFORM.maxLength ??= Math.max(0, ...counts)
+        heapLength += counts.reduce((accum, count) => accum + getBinaryFieldWidth(TFORM.type, count), 0)
+        rows = values.length
+      }
+      else {
+        if (input.TFORM !== undefined) {
+          TFORM = parseBinaryTFORM(input.TFORM)
+        }
+        else {
+          const inferred = inferBinaryType(input.data)
+          TZERO = input.TZERO ?? inferred.TZERO
+          const repeat = inferred.type === "A"
+            ? Math.max(1, ...(input.data as string[]).map(value => value.length))
+            : TDIM ? TDIM.reduce((accum, dim) => accum * dim, 1) : 1
+          TFORM = { repeat, type: inferred.type, descriptor: null, maxLength: null }
+        }
+
+        rows = input.data.length / getValuesLength(TFORM.type, TFORM.repeat)
+        if (!Number.isInteger(rows)) {
+          throw new RangeError(`Column ${i + 1} has ${input.data.length} values, which is not a multiple of ${getValuesLength(TFORM.type, TFORM.repeat)}`)
+        }
+      }
+
+      if (NAXIS2 !== null && rows !== NAXIS2) {
+        throw new RangeError(`Column ${i + 1} has ${rows} rows, but the previous columns have ${NAXIS2}`)
+      }
+      NAXIS2 = rows
+
+      const { repeat, type, descriptor, maxLength } = TFORM
+      const width = getBinaryFieldWidth(type, repeat, descriptor)
+      columns.push({
+        name: input.name ?? null,
+        TFORM: input.TFORM?.trim() ?? (descriptor !== null ? `${repeat}${descriptor}${type}(${maxLength})` : `${repeat}${type}`),
+        type,
+        repeat,
+        descriptor,
+        maxLength,
+        unit: input.unit ?? null,
+        TDIM,
+        TNULL: input.TNULL ?? null,
+        TSCAL: input.TSCAL ?? 1,
+        TZERO,
+        offset,
+        width,
+      })
+      offset += width
+    }
+
+    const NAXIS1 = offset
+    const THEAP = NAXIS1 * (NAXIS2 ?? 0)
+    const dataBuffer = new ArrayBuffer(THEAP + heapLength)
+    const view = new DataView(dataBuffer)
+
+    let heapOffset = 0
+    for (let row = 0; row < (NAXIS2 ?? 0); row++) {
+      for (let i = 0; i < columns.length; i++) {
+        const column = columns[i]!
+        const data = inputs[i]!.data
+        const start = row * NAXIS1 + column.offset
+
+        if (column.descriptor !== null) {
+          const values = data[row] as FITSBinaryTableArray | string
+          const count = getElementCount(column.type, values)
+          if (column.repeat === 0) {
+            if (count > 0) throw new RangeError(`Column \`${column.name}\` has no array descriptor, but row ${row + 1} has values`)
+            continue
+          }
+          if (column.descriptor === "P" && (count > 0x7FFFFFFF || heapOffset > 0x7FFFFFFF)) {
+            throw new RangeError(`Heap too large for \`${column.TFORM}\` descriptors: use \`Q\` instead`)
+          }
+          writeElements(view, column, values, count, THEAP + heapOffset)
+          if (column.descriptor === "P") {
+            view.setInt32(start, count, false)
+            view.setInt32(start + 4, heapOffset, false)
+          }
+          else {
+            view.setBigInt64(start, BigInt(count), false)
+            view.setBigInt64(start + 8, BigInt(heapOffset), false)
+          }
+          heapOffset += getBinaryFieldWidth(column.type, count)
+        }
+        else if (column.type === "A") {
+          writeElements(view, column, data[row] as string, column.repeat, start)
+        }
+        else {
+          const length = getValuesLength(column.type, column.repeat)
+          const values = data as FITSBinaryTableArray
+          const rowValues = Array.isArray(values)
+            ? values.slice(row * length, (row + 1) * length)
+            : values.subarray(row * length, (row + 1) * length)
+          writeElements(view, column, rowValues, column.repeat, start)
+        }
+      }
+    }
+
+    return new FITSBinaryTable({ NAXIS1, NAXIS2: NAXIS2 ?? 0, PCOUNT: heapLength, THEAP, columns, dataBuffer })
+  }
+}
@@ -42,7 +42,8 @@ const valueCommentRegex = new RegExp(
       `(?<value_real>${numberRegex})`,
       `(?:\\( *(?<value_cplx_r>${numberRegex}) *, *(?<value_cplx_i>${numberRegex}) *\\))`,
     ].join("|"),
-    ") *(?:\\/ *(?<comment>.+?) *)?$",
+    // The value can be missing (undefined), as in `KEY     =  / comment`
+    ")? *(?:\\/ *(?<comment>.+?) *)?$",
   ].join(""),
 )
 
@@ -65,7 +66,10 @@ export function keywordIsCommentary(keyword: string): keyword is (typeof COMMENT
  * @returns {string} The string representation of the number.
  */
 function realToString(number: number): string {
-  let output = number.toString().replace("e", "E")
+  // Integers beyond the safe range (e.g. BZERO = 2^63) are written exactly, since toString() rounds their digits
+  let output = Number.isInteger(number) && !Number.isSafeInteger(number) && Math.abs(number) < 1e20
+    ? BigInt(number).toString()
+    : number.toString().replace("e", "E")
   const len = output.length
   if (len > 20) {
     let [mantissa, exponent] = output.split("E")
@@ -183,6 +187,8 @@ export class Card {
      * It is trimmed for convinience, the original can be retrieved from {@link image}.
      */
     readonly comment: string | null,
+    /** Why the card image couldn't be parsed, or `null` if it's valid (see {@link Card.fromInvalidImage}). */
+    readonly warning: string | null = null,
   ) {};
 
   /** Returns whether the card is all spaces. */
@@ -195,6 +201,11 @@ export class Card {
     return this.image.startsWith("HIERARCH")
   }
 
+  /** Returns whether the card image was parsed successfully. Invalid cards have no value nor comment. */
+  public get isValid(): boolean {
+    return this.warning === null
+  }
+
   /** Returns whether the card is a commentary card. */
   public get isCommentary(): boolean {
     return keywordIsCommentary(this.keyword)
@@ -319,6 +330,9 @@ export class Card {
 
     let keyword = image.slice(0, KEYWORD_LENGTH).trimEnd()
     let valueComment = image.slice(KEYWORD_LENGTH)
+    if (!keywordRegex.test(keyword)) {
+      throw new Error(`Failed to parse card image \`${image}\`: invalid keyword \`${keyword}\``)
+    }
     if (keywordIsCommentary(keyword)) {
       let comment = valueComment.startsWith(VALUE_INDICATOR) ? valueComment.slice(VALUE_INDICATOR.length) : valueComment
       comment = comment.trim()
@@ -359,6 +373,23 @@ export class Card {
     return new Card(image, keyword, value, comment)
   }
 
+  /**
+   * Keeps a card image that couldn't be parsed, so that the rest of the header can still be read. The card is marked
+   * as invalid (see {@link Card.isValid}): it has no value nor comment, and its keyword is upper-cased.
+   *
+   * **Warning**: This function does not check the image. It's intended to be called by {@link FITSHeader.fromBuffer}
+   * when parsing leniently.
+   *
+   * @param {string} image The card image.
+   * @param {string} warning Why the card image couldn't be parsed.
+   * @returns {Card} The invalid card.
+   */
+  static fromInvalidImage(image: string, warning: string): Card {
+    // Characters that aren't printable ASCII are replaced, so that the card can be written back as it is
+    image = image.padEnd(Card.LENGTH, " ").replace(/[^\x20-\x7E]/g, "?")
+    return new Card(image, image.slice(0, KEYWORD_LENGTH).trimEnd().toUpperCase(), null, null, warning)
+  }
+
   /**
    * Creates a new card from a keyword, value, and comment. It optimizes for CONTINUE cards if the string value is too
    * long. When adding comments, it might split the string into multiple CONTINUE cards as needed, optimizing for the
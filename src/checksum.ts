@@ -0,0 +1,101 @@
+/**
+ * @fileoverview
+ * The checksum keywords are defined in Section "4.4.2.7. Data integrity keywords" of the FITS standard 4.0, following
+ * the "FITS Checksum Proposal" (Seaman, Pence and Rots). DATASUM is the 32-bit ones' complement sum of the data unit,
+ * as a decimal string, and CHECKSUM encodes the complement of the sum of the whole HDU in 16 ASCII characters, so
+ * that the sum of an intact HDU (including the CHECKSUM card itself) is always `0xFFFFFFFF` (i.e. negative zero).
+ */
+
+/**
+ * The result of checking one of the checksum keywords of an HDU.
+ */
+export type FITSChecksumStatus = "valid" | "invalid" | "missing"
+
+/**
+ * The result of checking the checksums of an HDU (see {@link FITSFile.verifyChecksums}).
+ */
+export interface FITSChecksumResult {
+  /** The 0-based index of the HDU in the file. */
+  index: number
+  /** Whether the sum of the whole HDU is right, according to its CHECKSUM card. */
+  CHECKSUM: FITSChecksumStatus
+  /** Whether the sum of the data unit matches its DATASUM card. */
+  DATASUM: FITSChecksumStatus
+}
+
+/**
+ * Options to write an HDU or a file.
+ */
+export interface FITSBufferOptions {
+  /**
+   * Whether to add (or update) the CHECKSUM and DATASUM cards of every HDU, so that they are right in the written
+   * buffer.
+   */
+  checksum?: boolean
+}
+
+// Characters between "0" and "z" that can't be used in the encoded checksum (punctuation)
+const EXCLUDED_CHARACTERS = [0x3A, 0x3B, 0x3C, 0x3D, 0x3E, 0x3F, 0x40, 0x5B, 0x5C, 0x5D, 0x5E, 0x5F, 0x60]
+
+/**
+ * Computes the 32-bit ones' complement sum of some bytes, read as big-endian unsigned integers. The bytes are padded
+ * with zeros to a multiple of 4, which doesn't change the sum (HDUs are always a whole number of 2880-byte blocks).
+ *
+ * @param {Uint8Array} bytes The bytes to add.
+ * @param {number} [sum] The sum to start from, e.g. the one of the data unit when adding the header.
+ * @returns {number} The sum, as an unsigned integer.
+ */
+export function computeChecksum(bytes: Uint8Array, sum: number = 0): number {
+  // The high and low 16 bits are added separately, and their carries are folded into each other at the end
+  let high = Math.floor(sum / 65536)
+  let low = sum % 65536
+  for (let i = 0; i < bytes.length; i += 4) {
+    high += (bytes[i]! << 8) | (bytes[i + 1] ?? 0)
+    low += ((bytes[i + 2] ?? 0) << 8) | (bytes[i + 3] ?? 0)
+  }
+
+  while (high > 0xFFFF || low > 0xFFFF) {
+    const highCarry = Math.floor(high / 65536)
+    const lowCarry = Math.floor(low / 65536)
+    high = high % 65536 + lowCarry
+    low = low % 65536 + highCarry
+  }
+  return high * 65536 + low
+}
+
+/**
+ * Encodes the complement of a sum into the 16 characters of a CHECKSUM card. Each byte is split into 4 characters
+ * around "0" whose sum is the byte, avoiding punctuation, and the result is rotated by one character.
+ *
+ * @param {number} sum The sum of the HDU, computed with the placeholder value of the CHECKSUM card.
+ * @returns {string} The value of the CHECKSUM card.
+ */
+export function encodeChecksum(sum: number): string {
+  const value = ~sum >>> 0
+  const characters: number[] = Array.from({ length: 16 }, () => 0)
+  for (let i = 0; i < 4; i++) {
+    const byte = (value >>> (24 - 8 * i)) & 0xFF
+    const quotient = Math.floor(byte / 4) + 0x30
+    const group = [quotient + (byte % 4), quotient, quotient, quotient]
+
+    // Pairs of characters keep their sum while they are moved away from punctuation
+    for (let changed = true; changed;) {
+      changed = false
+      for (const excluded of EXCLUDED_CHARACTERS) {
+        for (let j = 0; j < 4; j += 2) {
+          if (group[j] === excluded || group[j + 1] === excluded) {
+            group[j]!++
+            group[j + 1]!--
+            changed = true
+          }
+        }
+      }
+    }
+
+    for (let j = 0; j < 4; j++) {
+      characters[4 * j + i] = group[j]!
+    }
+  }
+
+  return String.fromCharCode(...characters.map((_, i) => characters[(i + 15) % 16]!))
+}
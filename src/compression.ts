@@ -0,0 +1,1443 @@
+/**
+ * @fileoverview
+ * Tile-compressed images are defined in Section "10.1. Tiled image compression" of the FITS standard 4.0. The image
+ * is split into tiles (ZTILEn) that are compressed separately and stored one per row of a binary table with
+ * `ZIMAGE = T`. Floating-point images are usually quantized to integers first, with a linear scaling per tile (ZSCALE
+ * and ZZERO) and, optionally, subtractive dithering (see Section "10.2. Quantization of floating-point data").
+ */
+
+import type { FITSBinaryTable, FITSBinaryTableArray, FITSBinaryTableColumnInput } from "./binary-table.js"
+import type { FITSCardValue } from "./card.js"
+import type { FITSBITPIX, FITSPointValue } from "./data.js"
+import type { FITSHeader, FITSHeaderEntry } from "./header.js"
+import { FITSData, getDataByteLength, getTypedArrayType, toNativeByteOrder, writePoint } from "./data.js"
+import { gunzip, gzip } from "./gzip.js"
+
+/**
+ * The compression parameters of a tile-compressed image (ZNAMEi and ZVALi), by name.
+ */
+type FITSCompressionParameters = Map<string, FITSCardValue>
+
+/**
+ * What a decompressor needs to know about a tile.
+ */
+interface FITSTileOptions {
+  /** The number of values of the tile. */
+  length: number
+  /** The data type of the values: ZBITPIX, or 32 for quantized floating-point images. */
+  BITPIX: FITSBITPIX
+  /** The compression parameters. */
+  parameters: FITSCompressionParameters
+}
+
+/**
+ * Decompresses a tile into its values.
+ *
+ * @param {FITSBinaryTableArray} data The compressed data of the tile: bytes for most algorithms, 16-bit integers for
+ *                                    `PLIO_1`.
+ * @param {FITSTileOptions} tile The tile to decompress.
+ * @returns {ArrayLike<FITSPointValue>} The values of the tile.
+ */
+type FITSTileDecompressor = (data: FITSBinaryTableArray, tile: FITSTileOptions) => ArrayLike<FITSPointValue>
+
+/**
+ * Compresses the values of a tile.
+ *
+ * @param {ArrayLike<FITSPointValue>} values The values of the tile.
+ * @param {FITSTileOptions} tile The tile to compress.
+ * @returns {Uint8Array} The compressed bytes of the tile.
+ */
+type FITSTileCompressor = (values: ArrayLike<FITSPointValue>, tile: FITSTileOptions) => Uint8Array
+
+/**
+ * How to compress an image (see {@link FITS.compress}).
+ */
+export interface FITSCompressionOptions {
+  /** The compression algorithm. Defaults to `RICE_1`. */
+  ZCMPTYPE?: "RICE_1" | "GZIP_1" | "GZIP_2"
+  /** The size of the tiles along each axis. Defaults to whole rows, i.e. `[NAXIS1, 1, ..., 1]`. */
+  ZTILE?: number[]
+  /**
+   * How floating-point images are quantized, or `null` to compress them without loss (only with `GZIP_1` and
+   * `GZIP_2`). Defaults to `SUBTRACTIVE_DITHER_1`.
+   */
+  ZQUANTIZ?: "NO_DITHER" | "SUBTRACTIVE_DITHER_1" | "SUBTRACTIVE_DITHER_2" | null
+  /**
+   * The quantization level: each tile is quantized in steps (ZSCALE) of its noise divided by this level, so higher
+   * levels keep more precision. A negative level is used as the step of every tile instead (without its sign). Defaults
+   * to 4.
+   */
+  quantizeLevel?: number
+  /** The index (from 1 to 10000) of the random number that starts the dithering of the first tile. Defaults to 1. */
+  ZDITHER0?: number
+}
+
+// Quantized tiles are dithered with a fixed sequence of random numbers, as defined in Section "10.2.1. Dithering"
+const RANDOM_COUNT = 10000
+
+// Stored value of pixels that were exactly zero before quantizing with SUBTRACTIVE_DITHER_2
+const ZERO_VALUE = -2147483646
+
+// Stored value of undefined pixels when quantizing (ZBLANK), and the number of values reserved next to it
+const NULL_VALUE = -2147483647
+const RESERVED_VALUES = 10
+
+let randomValues: Float32Array | null = null
+
+/**
+ * Returns the sequence of random numbers used for dithering, generated with the Park-Miller algorithm. They are
+ * single-precision numbers, as in the reference implementation (CFITSIO).
+ *
+ * @returns {Float32Array} The random numbers, between 0 and 1.
+ */
+function getRandomValues(): Float32Array {
+  if (!randomValues) {
+    randomValues = new Float32Array(RANDOM_COUNT)
+    let seed = 1
+    for (let i = 0; i < RANDOM_COUNT; i++) {
+      const temp = 16807 * seed
+      seed = temp - 2147483647 * Math.trunc(temp / 2147483647)
+      randomValues[i] = seed / 2147483647
+    }
+  }
+  return randomValues
+}
+
+/**
+ * Reads a stream of bits, from the most significant bit of each byte to the least significant one.
+ */
+class BitReader {
+  readonly #bytes: Uint8Array
+  #position = 0
+
+  constructor(bytes: Uint8Array) {
+    this.#bytes = bytes
+  }
+
+  #byte(): number {
+    const byte = this.#bytes[this.#position >>> 3]
+    if (byte === undefined) {
+      throw new RangeError("Unexpected end of compressed data")
+    }
+    return byte
+  }
+
+  /**
+   * Reads an unsigned integer.
+   *
+   * @param {number} count The number of bits to read, up to 32.
+   * @returns {number} The integer.
+   * @throws {RangeError} If there are not enough bits left.
+   */
+  public read(count: number): number {
+    let value = 0
+    while (count > 0) {
+      const available = 8 - (this.#position & 7)
+      const size = Math.min(available, count)
+      value = value * (1 << size) + ((this.#byte() >>> (available - size)) & ((1 << size) - 1))
+      this.#position += size
+      count -= size
+    }
+    return value
+  }
+
+  /**
+   * Reads a run of zeros and the one that ends it (i.e. a unary code).
+   *
+   * @returns {number} The number of zeros.
+   * @throws {RangeError} If there are not enough bits left.
+   */
+  public readZeros(): number {
+    let zeros = 0
+    while (true) {
+      const offset = this.#position & 7
+      const rest = (this.#byte() << offset) & 0xFF
+      if (rest === 0) {
+        zeros += 8 - offset
+        this.#position += 8 - offset
+        continue
+      }
+
+      const leading = Math.clz32(rest) - 24
+      this.#position += leading + 1
+      return zeros + leading
+    }
+  }
+
+  /**
+   * Skips the rest of the current byte, if it has been partially read.
+   */
+  public align(): void {
+    this.#position = (this.#position + 7) & ~7
+  }
+}
+
+/**
+ * Writes a stream of bits, from the most significant bit of each byte to the least significant one.
+ */
+class BitWriter {
+  #bytes = new Uint8Array(1024)
+  #position = 0
+
+  #reserve(count: number): void {
+    const length = (this.#position + count + 7) >>> 3
+    if (length > this.#bytes.length) {
+      const bytes = new Uint8Array(Math.max(length, this.#bytes.length * 2))
+      bytes.set(this.#bytes)
+      this.#bytes = bytes
+    }
+  }
+
+  /**
+   * Writes an unsigned integer.
+   *
+   * @param {number} value The integer.
+   * @param {number} count The number of bits to write, up to 32.
+   */
+  public write(value: number, count: number): void {
+    this.#reserve(count)
+    while (count > 0) {
+      const available = 8 - (this.#position & 7)
+      const size = Math.min(available, count)
+      const chunk = Math.floor(value / 2 ** (count - size)) & ((1 << size) - 1)
+      this.#bytes[this.#position >>> 3]! |= chunk << (available - size)
+      this.#position += size
+      count -= size
+    }
+  }
+
+  /**
+   * Writes a run of zeros and a one that ends it (i.e. a unary code).
+   *
+   * @param {number} zeros The number of zeros.
+   */
+  public writeZeros(zeros: number): void {
+    this.#reserve(zeros)
+    this.#position += zeros
+    this.write(1, 1)
+  }
+
+  /**
+   * Returns the bytes written so far. The last byte is padded with zeros.
+   */
+  public toBytes(): Uint8Array {
+    return this.#bytes.slice(0, (this.#position + 7) >>> 3)
+  }
+}
+
+/**
+ * Decompresses a tile compressed with the Rice algorithm (`RICE_1`), as described in Section "10.4.1. Rice
+ * compression". The differences between consecutive values are split in blocks (BLOCKSIZE values), and each block is
+ * coded with its own number of split bits, or stored as is if it doesn't compress.
+ *
+ * @param {Uint8Array} bytes The compressed bytes of the tile.
+ * @param {FITSTileOptions} tile The tile to decompress. Its compression parameters are BLOCKSIZE (defaults to 32) and
+ *                               BYTEPIX (defaults to 4).
+ * @returns {Int32Array} The values of the tile. Bytes (BYTEPIX = 1) are unsigned, the rest are signed.
+ * @throws {TypeError} If BYTEPIX is not 1, 2 or 4.
+ * @throws {RangeError} If the compressed data ends before the last value.
+ */
+function decompressRice(bytes: Uint8Array, { length, parameters }: FITSTileOptions): Int32Array {
+  const BLOCKSIZE = parameters.get("BLOCKSIZE") as number | undefined ?? 32
+  const BYTEPIX = parameters.get("BYTEPIX") as number | undefined ?? 4
+  if (BYTEPIX !== 1 && BYTEPIX !== 2 && BYTEPIX !== 4) {
+    throw new TypeError(`Unexpected BYTEPIX value for RICE_1: ${BYTEPIX}`)
+  }
+
+  // Values wrap around as integers of BYTEPIX bytes
+  const bits = BYTEPIX * 8
+  const wrap = BYTEPIX === 1
+    ? (value: number) => value & 0xFF
+    : (value: number) => (value << (32 - bits)) >> (32 - bits)
+  const splitBits = BYTEPIX === 1 ? 3 : BYTEPIX === 2 ? 4 : 5
+  const maxSplit = BYTEPIX === 1 ? 6 : BYTEPIX === 2 ? 14 : 25
+
+  const output = new Int32Array(length)
+  const reader = new BitReader(bytes)
+  let last = wrap(reader.read(bits))
+
+  for (let i = 0; i < length;) {
+    const split = reader.read(splitBits) - 1
+    const end = Math.min(i + BLOCKSIZE, length)
+
+    // Low-entropy blocks are all equal to the last value
+    if (split < 0) {
+      output.fill(last, i, end)
+      i = end
+      continue
+    }
+
+    for (; i < end; i++) {
+      // High-entropy blocks store the differences as is
+      const diff = split === maxSplit
+        ? reader.read(bits)
+        : reader.readZeros() * 2 ** split + reader.read(split)
+
+      // Differences are mapped to unsigned integers: 0, -1, 1, -2, 2...
+      last = wrap(last + (diff % 2 === 0 ? diff / 2 : -(diff + 1) / 2))
+      output[i] = last
+    }
+  }
+
+  return output
+}
+
+/**
+ * Compresses a tile with the Rice algorithm (`RICE_1`), the reverse of {@link decompressRice}. Each block gets the
+ * number of split bits that best fits the mean of its differences, like in the reference implementation (CFITSIO).
+ *
+ * @param {ArrayLike<FITSPointValue>} values The values of the tile.
+ * @param {FITSTileOptions} tile The tile to compress. Its compression parameters are BLOCKSIZE (defaults to 32) and
+ *                               BYTEPIX (defaults to 4).
+ * @returns {Uint8Array} The compressed bytes of the tile.
+ * @throws {TypeError} If BYTEPIX is not 1, 2 or 4.
+ */
+function compressRice(values: ArrayLike<FITSPointValue>, { length, parameters }: FITSTileOptions): Uint8Array {
+  const BLOCKSIZE = parameters.get("BLOCKSIZE") as number | undefined ?? 32
+  const BYTEPIX = parameters.get("BYTEPIX") as number | undefined ?? 4
+  if (BYTEPIX !== 1 && BYTEPIX !== 2 && BYTEPIX !== 4) {
+    throw new TypeError(`Unexpected BYTEPIX value for RICE_1: ${BYTEPIX}`)
+  }
+
+  const bits = BYTEPIX * 8
+  const splitBits = BYTEPIX === 1 ? 3 : BYTEPIX === 2 ? 4 : 5
+  const maxSplit = BYTEPIX === 1 ? 6 : BYTEPIX === 2 ? 14 : 25
+
+  const writer = new BitWriter()
+  let last = Number(values[0] ?? 0)
+  writer.write(((last % 2 ** bits) + 2 ** bits) % 2 ** bits, bits)
+
+  const diffs = new Float64Array(BLOCKSIZE)
+  for (let i = 0; i < length; i += BLOCKSIZE) {
+    const count = Math.min(BLOCKSIZE, length - i)
+
+    // Differences wrap around as integers of BYTEPIX bytes, and are mapped to unsigned integers: 0, -1, 1, -2, 2...
+    let sum = 0
+    for (let j = 0; j < count; j++) {
+      const value = Number(values[i + j])
+      const diff = ((value - last) << (32 - bits)) >> (32 - bits)
+      diffs[j] = diff >= 0 ? diff * 2 : -diff * 2 - 1
+      sum += diffs[j]!
+      last = value
+    }
+
+    // The number of split bits is about log2 of the mean difference
+    let mean = Math.floor(Math.max((sum - Math.trunc(count / 2) - 1) / count, 0) / 2)
+    let split = 0
+    while (mean > 0) {
+      mean = Math.floor(mean / 2)
+      split++
+    }
+
+    if (split >= maxSplit) {
+      writer.write(maxSplit + 1, splitBits)
+      for (let j = 0; j < count; j++) {
+        writer.write(diffs[j]!, bits)
+      }
+    }
+    else if (split === 0 && sum === 0) {
+      writer.write(0, splitBits)
+    }
+    else {
+      writer.write(split + 1, splitBits)
+      for (let j = 0; j < count; j++) {
+        writer.writeZeros(Math.floor(diffs[j]! / 2 ** split))
+        writer.write(diffs[j]! % 2 ** split, split)
+      }
+    }
+  }
+
+  return writer.toBytes()
+}
+
+/**
+ * Decompresses a tile compressed with gzip (`GZIP_1`), as described in Section "10.4.2. GZIP compression". The tile
+ * holds the big-endian values, as they would be stored in an image. With `GZIP_2`, the bytes are shuffled before
+ * compressing: the most significant bytes of all the values go first, then the second ones, and so on.
+ *
+ * @param {Uint8Array} bytes The compressed bytes of the tile.
+ * @param {FITSTileOptions} tile The tile to decompress.
+ * @param {boolean} shuffled Whether the bytes are shuffled (`GZIP_2`).
+ * @returns {ArrayLike<FITSPointValue>} The values of the tile.
+ * @throws {RangeError} If the data is not valid gzip or doesn't have the expected size.
+ */
+function decompressGzip(bytes: Uint8Array, { length, BITPIX }: FITSTileOptions, shuffled: boolean): ArrayLike<FITSPointValue> {
+  const bytesPerValue = Math.abs(BITPIX) / 8
+  const raw = gunzip(bytes, length * bytesPerValue)
+  if (raw.length !== length * bytesPerValue) {
+    throw new RangeError(`Expected ${length * bytesPerValue} bytes of decompressed data, but got ${raw.length}`)
+  }
+
+  const output = new Uint8Array(raw.length)
+  if (shuffled) {
+    for (let i = 0; i < length; i++) {
+      for (let k = 0; k < bytesPerValue; k++) {
+        output[i * bytesPerValue + k] = raw[k * length + i]!
+      }
+    }
+  }
+  else {
+    output.set(raw)
+  }
+
+  toNativeByteOrder(output, bytesPerValue, false)
+  return new (getTypedArrayType(BITPIX))(output.buffer)
+}
+
+/**
+ * Compresses a tile with gzip (`GZIP_1`, or `GZIP_2` with shuffled bytes), the reverse of {@link decompressGzip}.
+ *
+ * @param {ArrayLike<FITSPointValue>} values The values of the tile.
+ * @param {FITSTileOptions} tile The tile to compress.
+ * @param {boolean} shuffled Whether to shuffle the bytes (`GZIP_2`).
+ * @returns {Uint8Array} The compressed bytes of the tile.
+ */
+function compressGzip(values: ArrayLike<FITSPointValue>, { length, BITPIX }: FITSTileOptions, shuffled: boolean): Uint8Array {
+  const bytesPerValue = Math.abs(BITPIX) / 8
+  const raw = new Uint8Array(length * bytesPerValue)
+  const dataView = new DataView(raw.buffer)
+  for (let i = 0; i < length; i++) {
+    writePoint(dataView, i * bytesPerValue, values[i]!, BITPIX)
+  }
+
+  if (!shuffled) {
+    return gzip(raw)
+  }
+  const output = new Uint8Array(raw.length)
+  for (let i = 0; i < length; i++) {
+    for (let k = 0; k < bytesPerValue; k++) {
+      output[k * length + i] = raw[i * bytesPerValue + k]!
+    }
+  }
+  return gzip(output)
+}
+
+// Values of the variable-length codes of HCOMPRESS quadtrees, for the 4-bit codes 8 to 12 and the 5-bit codes 26 to 30
+const QUADTREE_CODES_4 = [3, 5, 10, 12, 15]
+const QUADTREE_CODES_5 = [6, 7, 9, 11, 13]
+
+/**
+ * Reads one of the 4-bit values of an HCOMPRESS quadtree, which are stored with a fixed Huffman code.
+ *
+ * @param {BitReader} reader The compressed data.
+ * @returns {number} The value.
+ */
+function readQuadtreeCode(reader: BitReader): number {
+  let code = reader.read(3)
+  if (code < 4) {
+    return 1 << code
+  }
+  code = (code << 1) | reader.read(1)
+  if (code < 13) {
+    return QUADTREE_CODES_4[code - 8]!
+  }
+  code = (code << 1) | reader.read(1)
+  if (code < 31) {
+    return QUADTREE_CODES_5[code - 26]!
+  }
+  code = (code << 1) | reader.read(1)
+  return code === 62 ? 0 : 14
+}
+
+/**
+ * Expands each 4-bit value of a quadtree level into the 2x2 bits below it, and reads the values of the next level for
+ * the ones that are set (in reverse order).
+ *
+ * @param {BitReader} reader The compressed data.
+ * @param {Uint8Array} codes The values of the level, `ceil(nx / 2)` by `ceil(ny / 2)`, which are replaced by the ones
+ *                           of the next level (`nx` by `ny`).
+ * @param {number} nx The number of rows of the next level.
+ * @param {number} ny The number of columns of the next level.
+ */
+function expandQuadtree(reader: BitReader, codes: Uint8Array, nx: number, ny: number): void {
+  const ny2 = (ny + 1) >> 1
+  const previous = codes.slice(0, ((nx + 1) >> 1) * ny2)
+  for (let i = 0; i < nx; i++) {
+    for (let j = 0; j < ny; j++) {
+      const shift = 3 - (((i & 1) << 1) | (j & 1))
+      codes[i * ny + j] = (previous[(i >> 1) * ny2 + (j >> 1)]! >> shift) & 1
+    }
+  }
+
+  for (let i = nx * ny - 1; i >= 0; i--) {
+    if (codes[i]) {
+      codes[i] = readQuadtreeCode(reader)
+    }
+  }
+}
+
+/**
+ * Sets a bit plane of a quadrant from its 4-bit values, each one covering 2x2 pixels.
+ *
+ * @param {Uint8Array} codes The 4-bit values, `ceil(nqx / 2)` by `ceil(nqy / 2)`.
+ * @param {Float64Array} quadrant The quadrant, whose rows are `n` values apart.
+ * @param {number} n The length of the rows of the whole array.
+ * @param {number} nqx The number of rows of the quadrant.
+ * @param {number} nqy The number of columns of the quadrant.
+ * @param {number} bit The bit plane.
+ */
+function insertBitPlane(codes: Uint8Array, quadrant: Float64Array, n: number, nqx: number, nqy: number, bit: number): void {
+  const plane = 2 ** bit
+  let k = 0
+  for (let i = 0; i < nqx; i += 2) {
+    for (let j = 0; j < nqy; j += 2) {
+      const code = codes[k++]!
+      const index = i * n + j
+      if (code & 8) {
+        quadrant[index]! += plane
+      }
+      if (code & 4 && j + 1 < nqy) {
+        quadrant[index + 1]! += plane
+      }
+      if (code & 2 && i + 1 < nqx) {
+        quadrant[index + n]! += plane
+      }
+      if (code & 1 && i + 1 < nqx && j + 1 < nqy) {
+        quadrant[index + n + 1]! += plane
+      }
+    }
+  }
+}
+
+/**
+ * Decodes the absolute values of a quadrant of H-transform coefficients, one bit plane at a time. Each bit plane is
+ * either stored directly or coded as a quadtree.
+ *
+ * @param {BitReader} reader The compressed data.
+ * @param {Float64Array} quadrant The quadrant, whose rows are `n` values apart.
+ * @param {number} n The length of the rows of the whole array.
+ * @param {number} nqx The number of rows of the quadrant.
+ * @param {number} nqy The number of columns of the quadrant.
+ * @param {number} bitPlanes The number of bit planes.
+ * @throws {RangeError} If the data is not valid.
+ */
+function decodeQuadrant(reader: BitReader, quadrant: Float64Array, n: number, nqx: number, nqy: number, bitPlanes: number): void {
+  let levels = 0
+  while (1 << levels < Math.max(nqx, nqy)) {
+    levels++
+  }
+
+  const codes = new Uint8Array(((nqx + 1) >> 1) * ((nqy + 1) >> 1))
+  for (let bit = bitPlanes - 1; bit >= 0; bit--) {
+    const format = reader.read(4)
+    if (format === 0) {
+      for (let i = 0; i < codes.length; i++) {
+        codes[i] = reader.read(4)
+      }
+    }
+    else if (format === 0xF) {
+      // The quadtree is expanded from a single value, with sizes halving (rounded up) down to the quadrant's
+      codes[0] = readQuadtreeCode(reader)
+      let [nx, ny, restX, restY] = [1, 1, nqx, nqy]
+      for (let level = 1, size = 1 << levels; level < levels; level++) {
+        size >>= 1
+        nx <<= 1
+        ny <<= 1
+        if (restX <= size) {
+          nx--
+        }
+        else {
+          restX -= size
+        }
+        if (restY <= size) {
+          ny--
+        }
+        else {
+          restY -= size
+        }
+        expandQuadtree(reader, codes, nx, ny)
+      }
+    }
+    else {
+      throw new RangeError(`Invalid bit plane format in HCOMPRESS data: ${format}`)
+    }
+    insertBitPlane(codes, quadrant, n, nqx, nqy, bit)
+  }
+}
+
+/**
+ * Interleaves the two halves of a row or column: the values of the first half go to the even positions, and the ones
+ * of the second half to the odd positions.
+ *
+ * @param {Float64Array} values The array.
+ * @param {number} offset The index of the first value.
+ * @param {number} length The number of values.
+ * @param {number} stride The distance between consecutive values.
+ * @param {Float64Array} scratch Storage for half of the values.
+ */
+function unshuffle(values: Float64Array, offset: number, length: number, stride: number, scratch: Float64Array): void {
+  const half = (length + 1) >> 1
+  for (let i = half; i < length; i++) {
+    scratch[i - half] = values[offset + i * stride]!
+  }
+  for (let i = half - 1; i >= 0; i--) {
+    values[offset + 2 * i * stride] = values[offset + i * stride]!
+  }
+  for (let i = 1; i < length; i += 2) {
+    values[offset + i * stride] = scratch[(i - 1) >> 1]!
+  }
+}
+
+/**
+ * Adjusts the x, y and curvature coefficients of a level of the H-transform so that the image is as smooth as
+ * possible, within the error allowed by the scale factor (`±scale / 2`) and without adding new extrema.
+ *
+ * @param {Float64Array} a The coefficients.
+ * @param {number} nxtop The number of rows of the level.
+ * @param {number} nytop The number of columns of the level.
+ * @param {number} ny The length of the rows of the array.
+ * @param {number} scale The scale factor of the tile.
+ */
+function smoothCoefficients(a: Float64Array, nxtop: number, nytop: number, ny: number, scale: number): void {
+  const smax = Math.floor(scale / 2)
+  if (smax <= 0) {
+    return
+  }
+  const clamp = (value: number, min: number, max: number): number => Math.max(Math.min(value, max), min)
+  const ny2 = ny * 2
+
+  // x differences, from the means of the neighbouring zones along x (the zones on the edges are kept)
+  for (let i = 2; i < nxtop - 2; i += 2) {
+    for (let j = 0; j < nytop; j += 2) {
+      const s00 = ny * i + j
+      const [hm, h0, hp] = [a[s00 - ny2]!, a[s00]!, a[s00 + ny2]!]
+      const dmax = Math.max(Math.min(hp - h0, h0 - hm), 0) * 4
+      const dmin = Math.min(Math.max(hp - h0, h0 - hm), 0) * 4
+      if (dmin < dmax) {
+        const s = clamp(hp - hm, dmin, dmax) - a[s00 + ny]! * 8
+        a[s00 + ny]! += clamp(s >= 0 ? Math.floor(s / 8) : Math.floor((s + 7) / 8), -smax, smax)
+      }
+    }
+  }
+
+  // y differences, along y
+  for (let i = 0; i < nxtop; i += 2) {
+    for (let j = 2; j < nytop - 2; j += 2) {
+      const s00 = ny * i + j
+      const [hm, h0, hp] = [a[s00 - 2]!, a[s00]!, a[s00 + 2]!]
+      const dmax = Math.max(Math.min(hp - h0, h0 - hm), 0) * 4
+      const dmin = Math.min(Math.max(hp - h0, h0 - hm), 0) * 4
+      if (dmin < dmax) {
+        const s = clamp(hp - hm, dmin, dmax) - a[s00 + 1]! * 8
+        a[s00 + 1]! += clamp(s >= 0 ? Math.floor(s / 8) : Math.floor((s + 7) / 8), -smax, smax)
+      }
+    }
+  }
+
+  // Curvatures, from the means of the four diagonal zones
+  for (let i = 2; i < nxtop - 2; i += 2) {
+    for (let j = 2; j < nytop - 2; j += 2) {
+      const s00 = ny * i + j
+      const s10 = s00 + ny
+      const hmm = a[s00 - ny2 - 2]!
+      const hpm = a[s00 + ny2 - 2]!
+      const hmp = a[s00 - ny2 + 2]!
+      const hpp = a[s00 + ny2 + 2]!
+      const h0 = a[s00]!
+      const hx2 = a[s10]! * 2
+      const hy2 = a[s00 + 1]! * 2
+      const dmax = Math.min(
+        Math.max(hpp - h0, 0) - hx2 - hy2,
+        Math.max(h0 - hpm, 0) + hx2 - hy2,
+        Math.max(h0 - hmp, 0) - hx2 + hy2,
+        Math.max(hmm - h0, 0) + hx2 + hy2,
+      ) * 16
+      const dmin = Math.max(
+        Math.min(hpp - h0, 0) - hx2 - hy2,
+        Math.min(h0 - hpm, 0) + hx2 - hy2,
+        Math.min(h0 - hmp, 0) - hx2 + hy2,
+        Math.min(hmm - h0, 0) + hx2 + hy2,
+      ) * 16
+      if (dmin < dmax) {
+        const s = clamp(hpp + hmm - hmp - hpm, dmin, dmax) - a[s10 + 1]! * 64
+        a[s10 + 1]! += clamp(s >= 0 ? Math.floor(s / 64) : Math.floor((s + 63) / 64), -smax, smax)
+      }
+    }
+  }
+}
+
+/**
+ * Inverts the H-transform in place. It's a 2D Haar transform: at each level, every 2x2 block of pixels is restored from
+ * its sum (h0), its x and y differences (hx, hy) and its curvature (hc). The coefficients were rounded to keep the
+ * transform lossless with integers, so the low bits are propagated between them like in the reference implementation
+ * (CFITSIO).
+ *
+ * @param {Float64Array} a The coefficients, `nx` by `ny`, which are replaced by the pixels.
+ * @param {number} nx The number of rows.
+ * @param {number} ny The number of columns.
+ * @param {boolean} smooth Whether to smooth the image while inverting the transform.
+ * @param {number} scale The scale factor of the tile.
+ */
+function inverseHTransform(a: Float64Array, nx: number, ny: number, smooth: boolean, scale: number): void {
+  let levels = 0
+  while (1 << levels < Math.max(nx, ny)) {
+    levels++
+  }
+
+  // Values are up to 64-bit integers, so bitwise operations (in two's complement) are done with arithmetic instead
+  const roundTo = (value: number, bit: number, positive: number, negative: number): number =>
+    Math.floor((value + (value >= 0 ? positive : negative)) / bit) * bit
+  const getBit = (value: number, bit: number): number => Math.floor(value / bit) % 2 === 0 ? 0 : bit
+
+  const scratch = new Float64Array((Math.max(nx, ny) + 1) >> 1)
+  let divisor = 2
+  let bit0 = 2 ** (levels - 1)
+  let bit1 = bit0 * 2
+  let bit2 = bit0 * 4
+  let prnd0 = Math.floor(bit0 / 2)
+  let prnd1 = bit0
+  let nrnd0 = prnd0 - 1
+  let nrnd1 = prnd1 - 1
+
+  a[0] = roundTo(a[0]!, bit2, bit1, bit1 - 1)
+
+  let [nxtop, nytop, restX, restY] = [1, 1, nx, ny]
+  for (let level = levels - 1, size = 1 << levels; level >= 0; level--) {
+    size >>= 1
+    nxtop <<= 1
+    nytop <<= 1
+    if (restX <= size) {
+      nxtop--
+    }
+    else {
+      restX -= size
+    }
+    if (restY <= size) {
+      nytop--
+    }
+    else {
+      restY -= size
+    }
+
+    // The last level divides by 4 instead of 2
+    if (level === 0) {
+      nrnd0 = 0
+      divisor = 4
+    }
+
+    for (let i = 0; i < nxtop; i++) {
+      unshuffle(a, ny * i, nytop, 1, scratch)
+    }
+    for (let j = 0; j < nytop; j++) {
+      unshuffle(a, j, nxtop, ny, scratch)
+    }
+
+    if (smooth) {
+      smoothCoefficients(a, nxtop, nytop, ny, scale)
+    }
+
+    const oddx = nxtop % 2
+    const oddy = nytop % 2
+    let i = 0
+    for (; i < nxtop - oddx; i += 2) {
+      let s00 = ny * i
+      let s10 = s00 + ny
+      for (let j = 0; j < nytop - oddy; j += 2) {
+        let h0 = a[s00]!
+        const hx = roundTo(a[s10]!, bit1, prnd1, nrnd1)
+        const hy = roundTo(a[s00 + 1]!, bit1, prnd1, nrnd1)
+        const hc = roundTo(a[s10 + 1]!, bit0, prnd0, nrnd0)
+
+        // The four coefficients have the same parity, so bit 0 of hc is restored in hx and hy, and then the bits 0
+        // and 1 of h0 (as their sum is a multiple of 4)
+        const lowbit0 = getBit(hc, bit0)
+        const hx2 = hx >= 0 ? hx - lowbit0 : hx + lowbit0
+        const hy2 = hy >= 0 ? hy - lowbit0 : hy + lowbit0
+        const lowbit1 = getBit(getBit(hc, bit1) + getBit(hx2, bit1) + getBit(hy2, bit1), bit1)
+        h0 = h0 >= 0 ? h0 + lowbit0 - lowbit1 : h0 + (lowbit0 === 0 ? lowbit1 : lowbit0 - lowbit1)
+
+        a[s10 + 1] = Math.floor((h0 + hx2 + hy2 + hc) / divisor)
+        a[s10] = Math.floor((h0 + hx2 - hy2 - hc) / divisor)
+        a[s00 + 1] = Math.floor((h0 - hx2 + hy2 - hc) / divisor)
+        a[s00] = Math.floor((h0 - hx2 - hy2 + hc) / divisor)
+        s00 += 2
+        s10 += 2
+      }
+
+      // The last column, if the number of columns is odd
+      if (oddy) {
+        let h0 = a[s00]!
+        const hx = roundTo(a[s10]!, bit1, prnd1, nrnd1)
+        const lowbit1 = getBit(hx, bit1)
+        h0 = h0 >= 0 ? h0 - lowbit1 : h0 + lowbit1
+        a[s10] = Math.floor((h0 + hx) / divisor)
+        a[s00] = Math.floor((h0 - hx) / divisor)
+      }
+    }
+
+    // The last row, if the number of rows is odd
+    if (oddx) {
+      let s00 = ny * i
+      for (let j = 0; j < nytop - oddy; j += 2) {
+        let h0 = a[s00]!
+        const hy = roundTo(a[s00 + 1]!, bit1, prnd1, nrnd1)
+        const lowbit1 = getBit(hy, bit1)
+        h0 = h0 >= 0 ? h0 - lowbit1 : h0 + lowbit1
+        a[s00 + 1] = Math.floor((h0 + hy) / divisor)
+        a[s00] = Math.floor((h0 - hy) / divisor)
+        s00 += 2
+      }
+      if (oddy) {
+        a[s00] = Math.floor(a[s00]! / divisor)
+      }
+    }
+
+    bit2 = bit1
+    bit1 = bit0
+    bit0 = Math.floor(bit0 / 2)
+    prnd1 = prnd0
+    prnd0 = Math.floor(prnd0 / 2)
+    nrnd1 = nrnd0
+    nrnd0 = prnd0 - 1
+  }
+}
+
+/**
+ * Decompresses a tile compressed with `HCOMPRESS_1`, as described in Section "10.4.4. HCOMPRESS algorithm". The tile
+ * is a 2D H-transform whose coefficients were divided by a scale factor (SCALE, 0 or 1 when lossless), and coded as
+ * quadtrees of bit planes followed by their signs.
+ *
+ * @param {Uint8Array} bytes The compressed bytes of the tile.
+ * @param {FITSTileOptions} tile The tile to decompress. Its compression parameter is SMOOTH (defaults to 0), which
+ *                               smooths the image when it's not 0. The scale factor is stored in the tile itself.
+ * @returns {Float64Array} The values of the tile, which are integers.
+ * @throws {RangeError} If the data is not valid or doesn't have the expected size.
+ */
+function decompressHcompress(bytes: Uint8Array, { length, parameters }: FITSTileOptions): Float64Array {
+  const reader = new BitReader(bytes)
+  if (reader.read(8) !== 0xDD || reader.read(8) !== 0x99) {
+    throw new RangeError("Invalid HCOMPRESS header")
+  }
+
+  // The rows of the tile (nx) are ny values long
+  const nx = reader.read(32) | 0
+  const ny = reader.read(32) | 0
+  const scale = reader.read(32) | 0
+  if (nx * ny !== length) {
+    throw new RangeError(`Expected ${length} values of HCOMPRESS data, but got ${nx * ny}`)
+  }
+  const sum = (reader.read(32) | 0) * 2 ** 32 + reader.read(32)
+  const bitPlanes = [reader.read(8), reader.read(8), reader.read(8)]
+
+  // The coefficients are split in four quadrants: the sums and the x, y and curvature differences
+  const a = new Float64Array(length)
+  const nx2 = (nx + 1) >> 1
+  const ny2 = (ny + 1) >> 1
+  decodeQuadrant(reader, a, ny, nx2, ny2, bitPlanes[0]!)
+  decodeQuadrant(reader, a.subarray(ny2), ny, nx2, ny >> 1, bitPlanes[1]!)
+  decodeQuadrant(reader, a.subarray(ny * nx2), ny, nx >> 1, ny2, bitPlanes[1]!)
+  decodeQuadrant(reader, a.subarray(ny * nx2 + ny2), ny, nx >> 1, ny >> 1, bitPlanes[2]!)
+  if (reader.read(4) !== 0) {
+    throw new RangeError("Invalid end of bit planes in HCOMPRESS data")
+  }
+
+  // The signs of the non-zero coefficients start at the next byte
+  reader.align()
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== 0 && reader.read(1)) {
+      a[i] = -a[i]!
+    }
+  }
+  a[0] = sum
+
+  if (scale > 1) {
+    for (let i = 0; i < length; i++) {
+      a[i]! *= scale
+    }
+  }
+  const SMOOTH = parameters.get("SMOOTH") as number | undefined ?? 0
+  inverseHTransform(a, nx, ny, SMOOTH !== 0, scale)
+  return a
+}
+
+/**
+ * Decompresses a tile compressed with `PLIO_1`, as described in Section "10.4.3. IRAF/PLIO compression". The tile is
+ * an IRAF line list: a sequence of 16-bit instructions, each with a 4-bit opcode and a 12-bit argument, that set the
+ * current value and write runs of zeros or of the current value. Values are between 0 and 2^24 - 1.
+ *
+ * @param {Int16Array} words The compressed data of the tile.
+ * @param {FITSTileOptions} tile The tile to decompress.
+ * @returns {Int32Array} The values of the tile.
+ */
+function decompressPlio(words: Int16Array, { length }: FITSTileOptions): Int32Array {
+  // The header is 3 words long in the old format, and 7 words long (with its length in the second one, and a negative
+  // third one) in the new one
+  const isNewFormat = !((words[2] ?? 0) > 0)
+  const start = isNewFormat ? words[1]! : 3
+  const end = isNewFormat ? (words[4]! << 15) + words[3]! : (words[0] ?? 0)
+
+  const output = new Int32Array(length)
+  let position = 0
+  let value = 1
+  for (let i = start; i < end && i < words.length && position < length; i++) {
+    const opcode = words[i]! >> 12
+    const data = words[i]! & 0xFFF
+    switch (opcode) {
+      // Runs of zeros (0), of the current value (4), or of zeros ending with the current value (5)
+      case 0:
+      case 4:
+      case 5: {
+        const count = Math.min(data, length - position)
+        if (opcode === 4) {
+          output.fill(value, position, position + count)
+        }
+        else if (opcode === 5 && count === data && count > 0) {
+          output[position + count - 1] = value
+        }
+        position += count
+        break
+      }
+      // Sets the current value (its 12 low bits, and the high ones in the next word)
+      case 1:
+        value = (words[++i]! << 12) + data
+        break
+      // Increments or decrements the current value
+      case 2:
+        value += data
+        break
+      case 3:
+        value -= data
+        break
+      // Increments or decrements the current value, and writes it once
+      case 6:
+      case 7:
+        value += opcode === 6 ? data : -data
+        output[position++] = value
+        break
+    }
+  }
+  return output
+}
+
+/**
+ * Checks the type of the compressed data of a tile, which depends on the compression algorithm.
+ *
+ * @param {FITSBinaryTableArray} data The compressed data of the tile.
+ * @param {Function} type The expected type of array.
+ * @returns The data.
+ * @throws {TypeError} If the data has another type.
+ */
+function getTileData<T extends FITSBinaryTableArray>(data: FITSBinaryTableArray, type: abstract new (...args: never[]) => T): T {
+  if (!(data instanceof type)) {
+    throw new TypeError(`Expected the compressed data of the tile to be an ${type.name}`)
+  }
+  return data
+}
+
+const TILE_DECOMPRESSORS: Partial<Record<string, FITSTileDecompressor>> = {
+  RICE_1: (data, tile) => decompressRice(getTileData(data, Uint8Array), tile),
+  RICE_ONE: (data, tile) => decompressRice(getTileData(data, Uint8Array), tile),
+  GZIP_1: (data, tile) => decompressGzip(getTileData(data, Uint8Array), tile, false),
+  GZIP_2: (data, tile) => decompressGzip(getTileData(data, Uint8Array), tile, true),
+  HCOMPRESS_1: (data, tile) => decompressHcompress(getTileData(data, Uint8Array), tile),
+  PLIO_1: (data, tile) => decompressPlio(getTileData(data, Int16Array), tile),
+}
+
+const TILE_COMPRESSORS: Record<NonNullable<FITSCompressionOptions["ZCMPTYPE"]>, FITSTileCompressor> = {
+  RICE_1: compressRice,
+  GZIP_1: (values, tile) => compressGzip(values, tile, false),
+  GZIP_2: (values, tile) => compressGzip(values, tile, true),
+}
+
+/**
+ * Locates a tile in the image. Tiles are stored in the same order as the pixels (the first axis varies the fastest),
+ * and are smaller than ZTILEn on the far edges of the image.
+ *
+ * @param {number} row The 0-based index of the tile.
+ * @param {number[]} axes The length of each axis of the image (ZNAXISn).
+ * @param {number[]} tiles The size of the tiles along each axis (ZTILEn).
+ * @returns The size of the tile along each axis, its number of values, and the index in the image of the first pixel
+ *          of each of its runs along the first axis (in the order they are stored in the tile).
+ */
+function getTileBounds(row: number, axes: number[], tiles: number[]): { shape: number[], length: number, offsets: number[] } {
+  let rest = row
+  const starts = axes.map((length, i) => {
+    const count = Math.ceil(length / tiles[i]!)
+    const index = rest % count
+    rest = Math.floor(rest / count)
+    return index * tiles[i]!
+  })
+  const shape = starts.map((start, i) => Math.min(tiles[i]!, axes[i]! - start))
+  const length = shape.reduce((accum, len) => accum * len, 1)
+
+  const strides: number[] = []
+  for (let i = 0, stride = 1; i < axes.length; i++) {
+    strides.push(stride)
+    stride *= axes[i]!
+  }
+
+  const offsets: number[] = []
+  const coords = shape.map(() => 0)
+  for (let i = 0; i < length; i += shape[0]!) {
+    offsets.push(coords.reduce((accum, coord, axis) => accum + (starts[axis]! + coord) * strides[axis]!, 0))
+    for (let axis = 1; axis < coords.length; axis++) {
+      if (++coords[axis]! < shape[axis]!) {
+        break
+      }
+      coords[axis] = 0
+    }
+  }
+  return { shape, length, offsets }
+}
+
+/**
+ * Returns whether a header describes a tile-compressed image (i.e. a binary table with `ZIMAGE = T`).
+ *
+ * @param {FITSHeader} header The header to check.
+ * @returns {boolean} Whether the HDU is a tile-compressed image.
+ */
+export function isCompressedImage(header: FITSHeader): boolean {
+  return header.getValue("XTENSION") === "BINTABLE" && header.getValue("ZIMAGE") === true
+}
+
+/**
+ * Decompresses a tile-compressed image. The header of the image is rebuilt from the one of the binary table: ZBITPIX,
+ * ZNAXISn, etc. replace the structural cards, and the compression and table keywords are removed (see
+ * {@link FITSHeader.copyWithDecompression}).
+ *
+ * @param {FITSHeader} header The header of the binary table.
+ * @param {FITSBinaryTable} table The binary table, with one compressed tile per row.
+ * @returns {{ header: FITSHeader, data: FITSData }} The header and the data of the image.
+ * @throws {Error} If a mandatory keyword is missing.
+ * @throws {TypeError} If the compression algorithm is not supported.
+ * @throws {RangeError} If the number of tiles doesn't match the image, or a tile can't be decompressed.
+ */
+export function decompressImage(header: FITSHeader, table: FITSBinaryTable): { header: FITSHeader, data: FITSData } {
+  const ZBITPIX = header.getValue("ZBITPIX") as FITSBITPIX | undefined
+  const ZNAXIS = header.getValue("ZNAXIS") as number | undefined
+  const ZCMPTYPE = header.getValue("ZCMPTYPE") as string | undefined
+  if (ZBITPIX === undefined) {
+    throw new Error("Missing ZBITPIX header")
+  }
+  if (ZNAXIS === undefined) {
+    throw new Error("Missing ZNAXIS header")
+  }
+  if (ZCMPTYPE === undefined) {
+    throw new Error("Missing ZCMPTYPE header")
+  }
+
+  const ZNAXISn = Array.from({ length: ZNAXIS }, (_, i) => {
+    const value = header.getValue(`ZNAXIS${i + 1}`) as number | undefined
+    if (value === undefined) {
+      throw new Error(`Missing ZNAXIS${i + 1} header`)
+    }
+    return value
+  })
+
+  // Tiles default to whole rows
+  const ZTILEn = ZNAXISn.map((length, i) => header.getValue(`ZTILE${i + 1}`) as number | undefined ?? (i === 0 ? length : 1))
+
+  const parameters: FITSCompressionParameters = new Map()
+  for (let i = 1; header.getValue(`ZNAME${i}`) !== undefined; i++) {
+    parameters.set(String(header.getValue(`ZNAME${i}`)).trim().toUpperCase(), header.getValue(`ZVAL${i}`)!)
+  }
+
+  // ZSCALE, ZZERO and ZBLANK are either the same for every tile (keywords) or given per tile (columns)
+  const names = new Set(table.columns.map(column => column.name?.toUpperCase()))
+  const getTileValue = (name: string, row: number): number | undefined => names.has(name)
+    ? Number((table.getColumn(name) as FITSBinaryTableArray)[row])
+    : header.getValue(name) as number | undefined
+  const ZQUANTIZ = (header.getValue("ZQUANTIZ") as string | undefined)?.trim().toUpperCase() ?? "NO_DITHER"
+  const ZDITHER0 = header.getValue("ZDITHER0") as number | undefined ?? 1
+
+  const tileCounts = ZNAXISn.map((length, i) => Math.ceil(length / ZTILEn[i]!))
+  const tileCount = ZNAXISn.length === 0 ? 0 : tileCounts.reduce((accum, count) => accum * count, 1)
+  if (table.rowCount !== tileCount) {
+    throw new RangeError(`Expected ${tileCount} tiles, but got ${table.rowCount}`)
+  }
+
+  const bytesPerPoint = Math.abs(ZBITPIX) / 8
+  const dataBuffer = new ArrayBuffer(getDataByteLength(ZBITPIX, ZNAXISn))
+  const dataView = new DataView(dataBuffer)
+
+  for (let row = 0; row < tileCount; row++) {
+    const { shape, length, offsets } = getTileBounds(row, ZNAXISn, ZTILEn)
+
+    // Quantized floating-point values are restored with the scaling (and dithering) of their tile
+    const ZSCALE = getTileValue("ZSCALE", row)
+    const quantized = ZBITPIX < 0 && ZSCALE !== undefined
+    const tile = { length, BITPIX: quantized ? 32 : ZBITPIX, parameters } satisfies FITSTileOptions
+    const { values, compressed } = readTile(table, row, ZCMPTYPE, ZBITPIX, tile)
+    let points = values
+    if (quantized && compressed) {
+      const ZZERO = getTileValue("ZZERO", row) ?? 0
+      const ZBLANK = getTileValue("ZBLANK", row)
+      points = unquantize(values as ArrayLike<number>, ZSCALE, ZZERO, ZBLANK, ZQUANTIZ, (row + ZDITHER0 - 1) % RANDOM_COUNT)
+    }
+
+    // The tile is copied one run of the first axis at a time
+    for (let k = 0; k < offsets.length; k++) {
+      for (let j = 0; j < shape[0]!; j++) {
+        writePoint(dataView, (offsets[k]! + j) * bytesPerPoint, points[k * shape[0]! + j]!, ZBITPIX)
+      }
+    }
+  }
+
+  const imageHeader = header.copyWithDecompression(ZBITPIX, ZNAXISn)
+  return { header: imageHeader, data: FITSData.fromHeader(imageHeader, dataBuffer) }
+}
+
+/**
+ * Reads the values of a tile. Tiles that couldn't be compressed (or quantized) may be stored in the
+ * GZIP_COMPRESSED_DATA column (with `GZIP_1`) or as is in the UNCOMPRESSED_DATA column instead of the COMPRESSED_DATA
+ * one. Their values are never quantized.
+ *
+ * @param {FITSBinaryTable} table The binary table of the compressed image.
+ * @param {number} row The 0-based index of the tile.
+ * @param {string} ZCMPTYPE The compression algorithm.
+ * @param {FITSBITPIX} ZBITPIX The data type of the image.
+ * @param {FITSTileOptions} tile The tile to read.
+ * @returns The values of the tile, and whether they come from the COMPRESSED_DATA column.
+ * @throws {TypeError} If the compression algorithm is not supported.
+ * @throws {RangeError} If the tile has no data or the wrong number of values.
+ */
+function readTile(table: FITSBinaryTable, row: number, ZCMPTYPE: string, ZBITPIX: FITSBITPIX, tile: FITSTileOptions): { values: ArrayLike<FITSPointValue>, compressed: boolean } {
+  const names = new Set(table.columns.map(column => column.name?.toUpperCase()))
+  const getCell = (name: string): FITSBinaryTableArray | null => names.has(name)
+    ? (table.getColumn(name) as FITSBinaryTableArray[])[row]!
+    : null
+
+  let values: ArrayLike<FITSPointValue> | null
+  const compressed = getCell("COMPRESSED_DATA")
+  const gzipCompressed = getCell("GZIP_COMPRESSED_DATA")
+  if (compressed && compressed.length > 0) {
+    const decompress = TILE_DECOMPRESSORS[ZCMPTYPE.trim().toUpperCase()]
+    if (!decompress) {
+      throw new TypeError(`Unsupported compression algorithm: ${ZCMPTYPE}`)
+    }
+    values = decompress(compressed, tile)
+  }
+  else if (gzipCompressed && gzipCompressed.length > 0) {
+    values = decompressGzip(getTileData(gzipCompressed, Uint8Array), { ...tile, BITPIX: ZBITPIX }, false)
+  }
+  else {
+    values = getCell("UNCOMPRESSED_DATA") as ArrayLike<FITSPointValue> | null
+  }
+
+  if (!values) {
+    throw new RangeError(`Tile ${row + 1} has no data`)
+  }
+  if (values.length !== tile.length) {
+    throw new RangeError(`Expected ${tile.length} values in tile ${row + 1}, but got ${values.length}`)
+  }
+  return { values, compressed: compressed !== null && compressed.length > 0 }
+}
+
+/**
+ * Restores the floating-point values of a quantized tile: `(stored - dither + 0.5) * ZSCALE + ZZERO` with subtractive
+ * dithering, or `stored * ZSCALE + ZZERO` without it.
+ *
+ * @param {ArrayLike<number>} values The quantized values.
+ * @param {number} ZSCALE The scaling factor of the tile.
+ * @param {number} ZZERO The zero point of the tile.
+ * @param {number | undefined} ZBLANK The quantized value of undefined pixels, which are restored as NaN.
+ * @param {string} ZQUANTIZ The quantization method.
+ * @param {number} seed The index of the first random number of the tile.
+ * @returns {Float64Array} The floating-point values.
+ * @throws {TypeError} If the quantization method is not supported.
+ */
+function unquantize(values: ArrayLike<number>, ZSCALE: number, ZZERO: number, ZBLANK: number | undefined, ZQUANTIZ: string, seed: number): Float64Array {
+  const output = new Float64Array(values.length)
+  if (ZQUANTIZ === "NO_DITHER") {
+    for (let i = 0; i < values.length; i++) {
+      output[i] = values[i] === ZBLANK ? Number.NaN : values[i]! * ZSCALE + ZZERO
+    }
+    return output
+  }
+  if (ZQUANTIZ !== "SUBTRACTIVE_DITHER_1" && ZQUANTIZ !== "SUBTRACTIVE_DITHER_2") {
+    throw new TypeError(`Unsupported quantization method: ${ZQUANTIZ}`)
+  }
+
+  // Each tile starts at its own place of the sequence, which moves on (even for undefined pixels) with every pixel
+  const random = getRandomValues()
+  let next = Math.trunc(random[seed]! * 500)
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i]!
+    if (value === ZBLANK) {
+      output[i] = Number.NaN
+    }
+    else if (ZQUANTIZ === "SUBTRACTIVE_DITHER_2" && value === ZERO_VALUE) {
+      output[i] = 0
+    }
+    else {
+      output[i] = (value - random[next]! + 0.5) * ZSCALE + ZZERO
+    }
+
+    if (++next === RANDOM_COUNT) {
+      seed = (seed + 1) % RANDOM_COUNT
+      next = Math.trunc(random[seed]! * 500)
+    }
+  }
+  return output
+}
+
+/**
+ * Returns the median of some values.
+ *
+ * @param {ArrayLike<number>} values The values, at least one.
+ * @returns {number} The median.
+ */
+function median(values: ArrayLike<number>): number {
+  const sorted = Float64Array.from(values).sort()
+  const middle = sorted.length >> 1
+  return sorted.length % 2 === 1 ? sorted[middle]! : (sorted[middle - 1]! + sorted[middle]!) / 2
+}
+
+/**
+ * Estimates the standard deviation of the noise of a tile like the reference implementation (CFITSIO), with the
+ * median absolute differences of 2nd, 3rd and 5th order along each row, which don't depend on the smooth variations of
+ * the image. The smallest non-zero of the three estimates is kept. Undefined pixels and flat runs (e.g. saturated
+ * pixels) are skipped. In rows with flat runs, CFITSIO takes the 2nd-order median over uninitialized memory, which isn't
+ * reproduced here, so ZSCALE can differ slightly for them.
+ *
+ * @param {ArrayLike<number>} values The values of the tile.
+ * @param {number} rowLength The length of the rows. Rows shorter than 9 pixels are joined into a single one.
+ * @returns {number} The noise, or 0 if there are not enough pixels to estimate it.
+ */
+function estimateNoise(values: ArrayLike<number>, rowLength: number): number {
+  if (rowLength < 9) {
+    rowLength = values.length
+  }
+
+  // The median of each row is the lower one, as in CFITSIO
+  const lowerMedian = (diffs: number[]): number => diffs.sort((a, b) => a - b)[(diffs.length - 1) >> 1]!
+
+  const medians2: number[] = []
+  const medians3: number[] = []
+  const medians5: number[] = []
+  for (let start = 0; start + rowLength <= values.length; start += rowLength) {
+    const row: number[] = []
+    for (let j = start; j < start + rowLength; j++) {
+      if (!Number.isNaN(values[j])) {
+        row.push(values[j]!)
+      }
+    }
+
+    const diffs2: number[] = []
+    const diffs3: number[] = []
+    const diffs5: number[] = []
+    for (let j = 4; j < row.length - 4; j++) {
+      const v = row[j]!
+      if (v !== row[j + 1] || v !== row[j + 2]) {
+        diffs2.push(Math.abs(v - row[j + 2]!))
+      }
+      if (v !== row[j - 2] || v !== row[j - 1] || v !== row[j + 1] || v !== row[j + 2]) {
+        diffs3.push(Math.abs(2 * v - row[j - 2]! - row[j + 2]!))
+        diffs5.push(Math.abs(6 * v - 4 * row[j - 2]! - 4 * row[j + 2]! + row[j - 4]! + row[j + 4]!))
+      }
+    }
+    if (diffs2.length > 0) {
+      medians2.push(lowerMedian(diffs2))
+    }
+    if (diffs3.length > 0) {
+      medians3.push(lowerMedian(diffs3))
+      medians5.push(lowerMedian(diffs5))
+    }
+  }
+
+  // Scales the medians to the standard deviation of a Gaussian noise
+  const noise2 = medians2.length === 0 ? 0 : 1.0483579 * median(medians2)
+  const noise3 = medians3.length === 0 ? 0 : 0.6052697 * median(medians3)
+  const noise5 = medians5.length === 0 ? 0 : 0.1772048 * median(medians5)
+  return [noise2, noise5].reduce((noise, estimate) => estimate !== 0 && estimate < noise ? estimate : noise, noise3)
+}
+
+/**
+ * Quantizes the floating-point values of a tile, the reverse of {@link unquantize}. ZZERO is chosen so that the
+ * quantized values fit in 32-bit integers, leaving room for the reserved values (ZBLANK for NaN, and the one of exact
+ * zeros with `SUBTRACTIVE_DITHER_2`).
+ *
+ * @param {ArrayLike<number>} values The floating-point values.
+ * @param {number} ZSCALE The scaling factor of the tile.
+ * @param {string} ZQUANTIZ The quantization method.
+ * @param {number} seed The index of the first random number of the tile.
+ * @returns The quantized values, the zero point of the tile and whether it has undefined pixels, or `null` if the
+ *          tile can't be quantized (all its pixels are undefined, or its range is too large for ZSCALE).
+ */
+function quantize(values: ArrayLike<number>, ZSCALE: number, ZQUANTIZ: string, seed: number): { values: Int32Array, ZZERO: number, blank: boolean } | null {
+  let min = Infinity
+  let max = -Infinity
+  let blank = false
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i]!
+    if (Number.isNaN(value)) {
+      blank = true
+    }
+    else {
+      min = Math.min(min, value)
+      max = Math.max(max, value)
+    }
+  }
+  if (min > max || (max - min) / ZSCALE > 2 * 2147483647 - RESERVED_VALUES) {
+    return null
+  }
+
+  let ZZERO: number
+  if (blank || ZQUANTIZ === "SUBTRACTIVE_DITHER_2") {
+    // The minimum goes right above the reserved values
+    ZZERO = min - ZSCALE * (NULL_VALUE + RESERVED_VALUES)
+  }
+  else if ((max - min) / ZSCALE < 2147483647 - RESERVED_VALUES) {
+    ZZERO = Math.trunc(min / ZSCALE + 0.5) * ZSCALE
+  }
+  else {
+    ZZERO = (min + max) / 2
+  }
+
+  // Rounds half away from zero
+  const round = (value: number): number => value >= 0 ? Math.trunc(value + 0.5) : Math.trunc(value - 0.5)
+  const dithered = ZQUANTIZ !== "NO_DITHER"
+  const random = getRandomValues()
+  let next = Math.trunc(random[seed]! * 500)
+  const output = new Int32Array(values.length)
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i]!
+    if (Number.isNaN(value)) {
+      output[i] = NULL_VALUE
+    }
+    else if (ZQUANTIZ === "SUBTRACTIVE_DITHER_2" && value === 0) {
+      output[i] = ZERO_VALUE
+    }
+    else {
+      output[i] = round((value - ZZERO) / ZSCALE + (dithered ? random[next]! - 0.5 : 0))
+    }
+
+    if (dithered && ++next === RANDOM_COUNT) {
+      seed = (seed + 1) % RANDOM_COUNT
+      next = Math.trunc(random[seed]! * 500)
+    }
+  }
+  return { values: output, ZZERO, blank }
+}
+
+/**
+ * Compresses an image into the columns and keywords of a tile-compressed image (see {@link decompressImage}). Integer
+ * images are compressed without loss. Floating-point images are quantized first (unless `ZQUANTIZ` is `null`), with
+ * the ZSCALE and ZZERO of each tile in their own columns. Tiles that can't be quantized (e.g. constant tiles, whose
+ * noise is 0) are compressed without loss with `GZIP_1` in the GZIP_COMPRESSED_DATA column instead.
+ *
+ * @param {FITSData} data The image to compress.
+ * @param {FITSCompressionOptions} [options] How to compress the image.
+ * @returns The columns of the binary table (one compressed tile per row) and the compression keywords.
+ * @throws {TypeError} If the image has no axes, or the algorithm or the quantization method is not supported (or
+ *                     can't compress the image).
+ * @throws {RangeError} If ZTILE, the quantization level or ZDITHER0 are not valid.
+ */
+export function compressImage(data: FITSData, options: FITSCompressionOptions = {}): { columns: FITSBinaryTableColumnInput[], keywords: FITSHeaderEntry[] } {
+  const { BITPIX, NAXISn } = data
+  const { ZCMPTYPE = "RICE_1", quantizeLevel = 4, ZDITHER0 = 1 } = options
+  const ZQUANTIZ = options.ZQUANTIZ === undefined ? "SUBTRACTIVE_DITHER_1" : options.ZQUANTIZ
+  const ZTILEn = options.ZTILE ?? NAXISn.map((length, i) => i === 0 ? length : 1)
+  if (NAXISn.length === 0) {
+    throw new TypeError("Cannot compress an image without axes")
+  }
+  if (!Object.hasOwn(TILE_COMPRESSORS, ZCMPTYPE)) {
+    throw new TypeError(`Unsupported compression algorithm: ${ZCMPTYPE}`)
+  }
+  const compress = TILE_COMPRESSORS[ZCMPTYPE]
+  if (ZQUANTIZ !== null && ZQUANTIZ !== "NO_DITHER" && ZQUANTIZ !== "SUBTRACTIVE_DITHER_1" && ZQUANTIZ !== "SUBTRACTIVE_DITHER_2") {
+    throw new TypeError(`Unsupported quantization method: ${ZQUANTIZ}`)
+  }
+  if (ZTILEn.length !== NAXISn.length) {
+    throw new RangeError(`Expected ${NAXISn.length} tile sizes, but got ${ZTILEn.length}`)
+  }
+  for (let i = 0; i < ZTILEn.length; i++) {
+    if (!Number.isInteger(ZTILEn[i]) || ZTILEn[i]! < 1) {
+      throw new RangeError(`Unexpected ZTILE${i + 1} value: ${ZTILEn[i]}`)
+    }
+  }
+  if (!Number.isFinite(quantizeLevel) || quantizeLevel === 0) {
+    throw new RangeError(`Unexpected quantization level: ${quantizeLevel}`)
+  }
+  if (!Number.isInteger(ZDITHER0) || ZDITHER0 < 1 || ZDITHER0 > RANDOM_COUNT) {
+    throw new RangeError(`Unexpected ZDITHER0 value: ${ZDITHER0}`)
+  }
+
+  const quantized = BITPIX < 0 && ZQUANTIZ !== null
+  if (ZCMPTYPE === "RICE_1" && (BITPIX === 64 || (BITPIX < 0 && !quantized))) {
+    throw new TypeError(`RICE_1 can only compress integers of up to 32 bits, but got BITPIX = ${BITPIX}`)
+  }
+  const parameters: FITSCompressionParameters = new Map(ZCMPTYPE === "RICE_1"
+    ? [["BLOCKSIZE", 32], ["BYTEPIX", quantized ? 4 : Math.abs(BITPIX) / 8]]
+    : [])
+
+  // The stored values, since the scaling (BSCALE and BZERO) is kept in the header
+  const bytesPerPoint = Math.abs(BITPIX) / 8
+  const bytes = new Uint8Array(data.toBuffer().slice(0, getDataByteLength(BITPIX, NAXISn)))
+  toNativeByteOrder(bytes, bytesPerPoint, false)
+  const values = new (getTypedArrayType(BITPIX))(bytes.buffer)
+
+  const tileCount = NAXISn.reduce((accum, length, i) => accum * Math.ceil(length / ZTILEn[i]!), 1)
+  const compressed: Uint8Array[] = []
+  const gzipCompressed: Uint8Array[] = []
+  const ZSCALE = new Float64Array(tileCount)
+  const ZZERO = new Float64Array(tileCount)
+  let hasQuantized = false
+  let hasGzip = false
+  let hasBlank = false
+
+  for (let row = 0; row < tileCount; row++) {
+    const { shape, length, offsets } = getTileBounds(row, NAXISn, ZTILEn)
+    const tileValues: FITSPointValue[] = []
+    for (const offset of offsets) {
+      for (let j = 0; j < shape[0]!; j++) {
+        tileValues.push(values[offset + j]!)
+      }
+    }
+    const tile = { length, BITPIX, parameters } satisfies FITSTileOptions
+
+    if (!quantized) {
+      compressed.push(compress(tileValues, tile))
+      gzipCompressed.push(new Uint8Array(0))
+      continue
+    }
+
+    const floats = tileValues as number[]
+    const scale = quantizeLevel < 0 ? -quantizeLevel : estimateNoise(floats, shape[0]!) / quantizeLevel
+    const result = scale > 0 ? quantize(floats, scale, ZQUANTIZ!, (row + ZDITHER0 - 1) % RANDOM_COUNT) : null
+    if (result) {
+      ZSCALE[row] = scale
+      ZZERO[row] = result.ZZERO
+      hasQuantized = true
+      hasBlank ||= result.blank
+      compressed.push(compress(result.values, { ...tile, BITPIX: 32 }))
+      gzipCompressed.push(new Uint8Array(0))
+    }
+    else {
+      hasGzip = true
+      compressed.push(new Uint8Array(0))
+      gzipCompressed.push(compressGzip(floats, tile, false))
+    }
+  }
+
+  const columns: FITSBinaryTableColumnInput[] = [{ name: "COMPRESSED_DATA", data: compressed }]
+  if (hasGzip) {
+    columns.push({ name: "GZIP_COMPRESSED_DATA", data: gzipCompressed })
+  }
+  if (hasQuantized) {
+    columns.push({ name: "ZSCALE", data: ZSCALE }, { name: "ZZERO", data: ZZERO })
+  }
+
+  const keywords: FITSHeaderEntry[] = [
+    { keyword: "ZIMAGE", value: true, comment: "Extension contains a compressed image" },
+    { keyword: "ZBITPIX", value: BITPIX, comment: "Bits per pixel of the image" },
+    { keyword: "ZNAXIS", value: NAXISn.length, comment: "Number of axes of the image" },
+    ...NAXISn.map((length, i) => ({ keyword: `ZNAXIS${i + 1}`, value: length, comment: "Axis length" })),
+    ...ZTILEn.map((size, i) => ({ keyword: `ZTILE${i + 1}`, value: size, comment: "Tile size" })),
+    { keyword: "ZCMPTYPE", value: ZCMPTYPE, comment: "Compression algorithm" },
+    ...Array.from(parameters).flatMap(([name, value], i) => [
+      { keyword: `ZNAME${i + 1}`, value: name, comment: "Compression parameter" },
+      { keyword: `ZVAL${i + 1}`, value, comment: "Value of the compression parameter" },
+    ]),
+  ]
+  if (hasQuantized) {
+    keywords.push({ keyword: "ZQUANTIZ", value: ZQUANTIZ, comment: "Quantization method" })
+    if (ZQUANTIZ !== "NO_DITHER") {
+      keywords.push({ keyword: "ZDITHER0", value: ZDITHER0, comment: "Dithering offset" })
+    }
+    if (hasBlank) {
+      keywords.push({ keyword: "ZBLANK", value: NULL_VALUE, comment: "Quantized value of undefined pixels" })
+    }
+  }
+  return { columns, keywords }
+}
@@ -1,3 +1,5 @@
+import type { FITSHeader } from "./header.js"
+
 export type FITSBITPIX = 8 | 16 | 32 | 64 | -32 | -64
 
 export type FITSNumericTypedArray
@@ -6,9 +8,17 @@ export type FITSNumericTypedArray
     | Int16Array
     | Uint16Array
     | Int32Array
+    | Uint32Array
     | Float32Array
     | Float64Array
 
+export type FITSBigIntTypedArray = BigInt64Array | BigUint64Array
+
+/**
+ * The value of a data point: a `bigint` for 64-bit integers (BITPIX 64), a `number` otherwise.
+ */
+export type FITSPointValue = number | bigint
+
 export const FITSBITPIX_ALIAS = {
   CHAR: 8,
   UINT8: 8,
@@ -19,13 +29,172 @@ export const FITSBITPIX_ALIAS = {
   FLOAT64: -64,
 } as const satisfies Record<string, FITSBITPIX>
 
+/**
+ * The common surface of every data unit (images, tables, etc.). It's all that is needed to write an HDU.
+ */
+export interface FITSDataUnit {
+  readonly BITPIX: FITSBITPIX
+  readonly NAXIS: number
+  readonly NAXISn: number[]
+  readonly PCOUNT: number
+  readonly GCOUNT: number
+  toString: () => string
+  toJSON: () => unknown
+  toBuffer: () => ArrayBuffer
+}
+
+/**
+ * The linear scaling between stored and physical values: `physical = BZERO + BSCALE * stored`.
+ */
+export interface FITSDataScaling {
+  BSCALE: number
+  BZERO: number
+}
+
+export interface FITSDataTypedArrayOptions {
+  /**
+   * Whether the physical values (`BZERO + BSCALE * stored`) are returned as a `Float64Array`. Defaults to `false`.
+   */
+  physical?: boolean
+}
+
+/**
+ * A range of indices along an axis. Indices are 1-based and inclusive.
+ */
+export interface FITSDataSliceRange {
+  /**
+   * The first index. Defaults to `1`.
+   */
+  start?: number
+  /**
+   * The last index. Defaults to the length of the axis.
+   */
+  end?: number
+  /**
+   * The distance between consecutive indices. Defaults to `1`.
+   */
+  step?: number
+}
+
 interface FITSDataContructorOptions {
   BITPIX: FITSBITPIX
   NAXIS: number
   NAXISn: number[]
+  PCOUNT?: number
+  GCOUNT?: number
+  BSCALE?: number
+  BZERO?: number
+  BLANK?: FITSPointValue | null
   dataBuffer: ArrayBuffer
 }
 
+// Range of the stored values of integer BITPIX. Physical values are numbers, so 64-bit integers are limited to the
+// safe integer range.
+const INTEGER_RANGES: Partial<Record<FITSBITPIX, [min: number, max: number]>> = {
+  8: [0, 255],
+  16: [-32768, 32767],
+  32: [-2147483648, 2147483647],
+  64: [Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER],
+}
+
+interface FITSIntegerConvention {
+  BITPIX: FITSBITPIX
+  BZERO: number
+  ArrayType: Int8ArrayConstructor | Uint16ArrayConstructor | Uint32ArrayConstructor | BigUint64ArrayConstructor
+}
+
+// Offsets that store signed bytes and unsigned integers in the native BITPIX types, as defined in Table 11 of the FITS
+// standard 4.0
+const INTEGER_CONVENTIONS: FITSIntegerConvention[] = [
+  { BITPIX: 8, BZERO: -128, ArrayType: Int8Array },
+  { BITPIX: 16, BZERO: 32768, ArrayType: Uint16Array },
+  { BITPIX: 32, BZERO: 2147483648, ArrayType: Uint32Array },
+  { BITPIX: 64, BZERO: 9223372036854775808, ArrayType: BigUint64Array },
+]
+
+/**
+ * Returns the value that marks undefined points, when some of the given values are `null` and BITPIX is an integer
+ * type: the lowest value of its range.
+ *
+ * @param {ArrayLike<FITSPointValue | null>} values The values to store.
+ * @param {FITSBITPIX} BITPIX The bits per point of the stored data.
+ * @returns {FITSPointValue | null} The value of BLANK, or `null` if it's not needed.
+ */
+function getBlankValue(values: ArrayLike<FITSPointValue | null>, BITPIX: FITSBITPIX): FITSPointValue | null {
+  const range = INTEGER_RANGES[BITPIX]
+  if (!range || !Array.prototype.includes.call(values, null)) {
+    return null
+  }
+
+  // Physical values are limited to the safe integer range, so 64-bit integers always have room for BLANK
+  return BITPIX === 64 ? -(2n ** 63n) : range[0]
+}
+
+// Whether typed arrays use the little-endian byte order on this platform
+const LITTLE_ENDIAN = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1
+
+/**
+ * Returns the integer convention that matches the given scaling, if any.
+ *
+ * @param {FITSBITPIX} BITPIX The bits per point of the stored data.
+ * @param {number} BSCALE The scaling factor.
+ * @param {number} BZERO The zero point.
+ * @returns {FITSIntegerConvention | undefined} The matching convention.
+ */
+function getIntegerConvention(BITPIX: FITSBITPIX, BSCALE: number, BZERO: number): FITSIntegerConvention | undefined {
+  return BSCALE === 1 ? INTEGER_CONVENTIONS.find(c => c.BITPIX === BITPIX && c.BZERO === BZERO) : undefined
+}
+
+type FITSTypedArrayConstructor = Uint8ArrayConstructor | Int16ArrayConstructor | Int32ArrayConstructor
+  | BigInt64ArrayConstructor | Float32ArrayConstructor | Float64ArrayConstructor
+
+export function getTypedArrayType(BITPIX: FITSBITPIX): FITSTypedArrayConstructor {
+  switch (BITPIX) {
+    case 8:
+      return Uint8Array
+    case 16:
+      return Int16Array
+    case 32:
+      return Int32Array
+    case 64:
+      return BigInt64Array
+    case -32:
+      return Float32Array
+    case -64:
+      return Float64Array
+    default:
+      throw new TypeError(`Unsupported BITPIX value ${BITPIX}`)
+  }
+}
+
+/**
+ * Converts big-endian data points to the native byte order, in place. Flipping the sign bit of the points is the same
+ * as applying the BZERO offset of the integer conventions (e.g. `-128` for signed bytes or `32768` for unsigned 16-bit
+ * integers), so it's done in the same pass.
+ *
+ * @param {Uint8Array} bytes The bytes of the data points.
+ * @param {number} bytesPerPoint The size of each data point in bytes.
+ * @param {boolean} flipSignBit Whether the most significant bit of each point is flipped.
+ */
+export function toNativeByteOrder(bytes: Uint8Array, bytesPerPoint: number, flipSignBit: boolean): void {
+  if (!LITTLE_ENDIAN && !flipSignBit) {
+    return
+  }
+
+  for (let offset = 0; offset < bytes.length; offset += bytesPerPoint) {
+    if (flipSignBit) {
+      bytes[offset] ^= 0x80
+    }
+    if (LITTLE_ENDIAN) {
+      for (let i = offset, j = offset + bytesPerPoint - 1; i < j; i++, j--) {
+        const byte = bytes[i]
+        bytes[i] = bytes[j]
+        bytes[j] = byte
+      }
+    }
+  }
+}
+
 function getPointCount(axes: number[]): number {
   if (axes.length === 0) {
     return 0
@@ -34,31 +203,117 @@ function getPointCount(axes: number[]): number {
   return axes.reduce((accum, len) => accum * len, 1)
 }
 
-function writePoint(dataView: DataView, offset: number, point: number, BITPIX: FITSBITPIX): void {
+/**
+ * Fills the defaults of the given ranges (the whole axis with step 1) and checks that they are inside the axes.
+ *
+ * @param {FITSDataSliceRange[]} ranges The ranges along each axis. Missing ranges select the whole axis.
+ * @param {number[]} axes The axes of the data matrix.
+ * @returns {Required<FITSDataSliceRange>[]} The ranges along every axis.
+ * @throws {RangeError} If there are more ranges than axes, or a range is empty or out of bounds.
+ */
+export function normalizeSliceRanges(ranges: FITSDataSliceRange[], axes: number[]): Required<FITSDataSliceRange>[] {
+  if (ranges.length > axes.length) {
+    throw new RangeError(`Expected at most ${axes.length} ranges, but got ${ranges.length}`)
+  }
+
+  return axes.map((length, i) => {
+    const { start = 1, end = length, step = 1 } = ranges[i] ?? {}
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 1 || end > length || start > end) {
+      throw new RangeError(`Range ${start}:${end} out of bounds (axis ${i + 1} has ${length} points)`)
+    }
+    if (!Number.isInteger(step) || step < 1) {
+      throw new RangeError(`Expected a positive integer step for axis ${i + 1}, but got ${step}`)
+    }
+    return { start, end, step }
+  })
+}
+
+/**
+ * Returns the size of a data unit in bytes (without padding), as defined in Section "7.1.1. Mandatory keywords" of the
+ * FITS standard 4.0: `|BITPIX| × GCOUNT × (PCOUNT + NAXIS1 × NAXIS2 × ... × NAXISm) / 8`.
+ *
+ * @param {FITSBITPIX} BITPIX The bits per point of the data.
+ * @param {number[]} axes The axes of the data matrix.
+ * @param {number} [PCOUNT] The number of parameters (or heap size) that precede or follow each group.
+ * @param {number} [GCOUNT] The number of groups.
+ * @returns {number} The size of the data unit in bytes.
+ */
+export function getDataByteLength(BITPIX: FITSBITPIX, axes: number[], PCOUNT: number = 0, GCOUNT: number = 1): number {
+  if (axes.length === 0) {
+    return 0
+  }
+
+  return Math.abs(BITPIX) / 8 * GCOUNT * (PCOUNT + getPointCount(axes))
+}
+
+/**
+ * Chooses the scaling that fits the given physical values in the range of an integer BITPIX. Values that are already
+ * integers are only shifted (e.g. unsigned 16-bit integers get `BZERO = 32768`); the rest are spread over the whole
+ * range. Floating-point BITPIX values are never scaled.
+ *
+ * When some values are `null`, the lowest stored value is left for BLANK (see {@link getBlankValue}).
+ *
+ * @param {ArrayLike<number | null>} values The physical values.
+ * @param {FITSBITPIX} BITPIX The bits per point of the stored data.
+ * @returns {FITSDataScaling} The scaling.
+ */
+function chooseScaling(values: ArrayLike<number | null>, BITPIX: FITSBITPIX): FITSDataScaling {
+  const range = INTEGER_RANGES[BITPIX]
+  let min = Infinity
+  let max = -Infinity
+  let integers = true
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i]!
+    if (value === null) continue
+    if (value < min) min = value
+    if (value > max) max = value
+    integers &&= Number.isInteger(value)
+  }
+
+  if (!range || min > max) {
+    return { BSCALE: 1, BZERO: 0 }
+  }
+
+  const blank = getBlankValue(values, BITPIX)
+  const low = typeof blank === "number" ? range[0] + 1 : range[0]
+  const high = range[1]
+  if (integers && max - min <= high - low) {
+    return { BSCALE: 1, BZERO: min >= low && max <= high ? 0 : min - low }
+  }
+
+  const BSCALE = max === min ? 1 : (max - min) / (high - low)
+  return { BSCALE, BZERO: min - low * BSCALE }
+}
+
+export function writePoint(dataView: DataView, offset: number, point: FITSPointValue, BITPIX: FITSBITPIX): void {
+  if (BITPIX === 64) {
+    dataView.setBigInt64(offset, typeof point === "bigint" ? point : BigInt(point), false)
+    return
+  }
+
+  const value = Number(point)
   switch (BITPIX) {
     case 8:
-      dataView.setUint8(offset, point)
+      dataView.setUint8(offset, value)
       break
     case 16:
-      dataView.setInt16(offset, point, false)
+      dataView.setInt16(offset, value, false)
       break
     case 32:
-      dataView.setInt32(offset, point, false)
+      dataView.setInt32(offset, value, false)
       break
-    case 64:
-      throw new TypeError("64-bit integers are not supported")
     case -32:
-      dataView.setFloat32(offset, point, false)
+      dataView.setFloat32(offset, value, false)
       break
     case -64:
-      dataView.setFloat64(offset, point, false)
+      dataView.setFloat64(offset, value, false)
       break
     default:
       throw new TypeError(`Unexpected BITPIX value ${BITPIX}`)
   }
 }
 
-export class FITSData {
+export class FITSData implements FITSDataUnit {
   readonly #dataBuffer: ArrayBuffer
   readonly #dataView: DataView
 
@@ -91,10 +346,46 @@ export class FITSData {
    */
   public readonly NAXISn: number[]
 
+  /**
+   * The value field shall contain an integer that shall be used in any way appropriate to define the data structure,
+   * consistent with Eq. 2 of the FITS standard. It's always `0` for primary HDUs and IMAGE extensions.
+   */
+  public readonly PCOUNT: number
+
+  /**
+   * The value field shall contain an integer that shall be used in any way appropriate to define the data structure,
+   * consistent with Eq. 2 of the FITS standard. It's always `1` for primary HDUs and IMAGE extensions.
+   */
+  public readonly GCOUNT: number
+
+  /**
+   * This keyword shall be used, along with the BZERO keyword, to linearly scale the array pixel values (i.e., the
+   * actual values stored in the FITS file) to transform them into the physical values that they represent. Defaults
+   * to `1`.
+   */
+  public readonly BSCALE: number
+
+  /**
+   * This keyword shall be used, along with the BSCALE keyword, to linearly scale the array pixel values. Defaults to
+   * `0`.
+   */
+  public readonly BZERO: number
+
+  /**
+   * The stored value that represents undefined points of integer data (BITPIX > 0), or `null` if there is none.
+   * Floating-point data uses NaN instead. It's a `bigint` for BITPIX 64.
+   */
+  public readonly BLANK: FITSPointValue | null
+
   constructor(opts: FITSDataContructorOptions) {
     this.BITPIX = opts.BITPIX
     this.NAXIS = opts.NAXIS
     this.NAXISn = opts.NAXISn
+    this.PCOUNT = opts.PCOUNT ?? 0
+    this.GCOUNT = opts.GCOUNT ?? 1
+    this.BSCALE = opts.BSCALE ?? 1
+    this.BZERO = opts.BZERO ?? 0
+    this.BLANK = opts.BLANK ?? null
     this.#dataBuffer = opts.dataBuffer
     this.#dataView = new DataView(this.#dataBuffer)
   }
@@ -103,9 +394,9 @@ export class FITSData {
    * Reads the data point at the specified offset according to the BITPIX value.
    *
    * @param {number} offset The offset of the data point (in bytes, 0-based).
-   * @returns {number} The value of the data point.
+   * @returns {FITSPointValue} The value of the data point.
    */
-  #readPoint(offset: number): number {
+  #readPoint(offset: number): FITSPointValue {
     switch (this.BITPIX) {
       case 8:
         return this.#dataView.getUint8(offset)
@@ -114,7 +405,7 @@ export class FITSData {
       case 32:
         return this.#dataView.getInt32(offset, false)
       case 64:
-        throw new TypeError("64-bit integers are not supported")
+        return this.#dataView.getBigInt64(offset, false)
       case -32:
         return this.#dataView.getFloat32(offset, false)
       case -64:
@@ -125,14 +416,113 @@ export class FITSData {
   }
 
   /**
-   * Returns one of the data points in HDU. The coordinates are 1-based
-   * and are specified in the order of the axes `(n1, n2, ..., nNAXIS)`.
+   * Checks if a stored value represents an undefined point: the BLANK value, or NaN.
    *
-   * @param {...number} coords The coordinates of the data point.
-   * @returns {number} The value of the data point.
+   * @param {FITSPointValue} value The stored value.
+   * @returns {boolean} Whether the value is undefined.
+   */
+  #isBlankValue(value: FITSPointValue): boolean {
+    return value === this.BLANK || Number.isNaN(value)
+  }
+
+  /**
+   * Converts a stored value to its physical value, or NaN if it's undefined.
+   *
+   * @param {FITSPointValue} value The stored value.
+   * @returns {number} The physical value.
+   */
+  #toPhysicalValue(value: FITSPointValue): number {
+    return this.#isBlankValue(value) ? Number.NaN : this.BZERO + this.BSCALE * Number(value)
+  }
+
+  /**
+   * Checks that a value can be stored with BITPIX, replacing `null` with the value of undefined points.
+   *
+   * @param {FITSPointValue | null} value The value to store.
+   * @returns {FITSPointValue} The stored value.
+   * @throws {TypeError} If the value is `null` and there is no BLANK, or it's not an integer and BITPIX is an integer
+   *                     type.
+   * @throws {RangeError} If the value is out of the range of BITPIX.
+   */
+  #toStoredPoint(value: FITSPointValue | null): FITSPointValue {
+    if (value === null) {
+      if (this.BLANK === null && this.BITPIX > 0) {
+        throw new TypeError("Cannot store undefined values without BLANK")
+      }
+      return this.BLANK ?? Number.NaN
+    }
+
+    const range = INTEGER_RANGES[this.BITPIX]
+    if (!range) {
+      return value
+    }
+    if (typeof value === "bigint") {
+      if (this.BITPIX !== 64 || BigInt.asIntN(64, value) !== value) {
+        throw new RangeError(`Value ${value} out of range for BITPIX = ${this.BITPIX}`)
+      }
+      return value
+    }
+    if (!Number.isInteger(value)) {
+      throw new TypeError(`Cannot store ${value} with BITPIX = ${this.BITPIX}`)
+    }
+    if (value < range[0] || value > range[1]) {
+      throw new RangeError(`Value ${value} out of range for BITPIX = ${this.BITPIX}`)
+    }
+    return value
+  }
+
+  /**
+   * Iterates over the data points inside the given ranges, in the same order as {@link getData}.
+   *
+   * @param {FITSDataSliceRange[]} ranges The ranges along each axis. Missing ranges select the whole axis.
+   * @returns A generator that yields the coordinates and the offset (in bytes, 0-based) of each data point.
+   * @throws {RangeError} If there are more ranges than axes, or a range is empty or out of bounds.
+   */
+  * #getRegion(ranges: FITSDataSliceRange[]): Generator<{ coordinates: number[], offset: number }, void, unknown> {
+    const normalized = normalizeSliceRanges(ranges, this.NAXISn)
+    if (getPointCount(this.NAXISn) === 0) {
+      return
+    }
+
+    const coords = normalized.map(({ start }) => start)
+    while (true) {
+      yield { coordinates: [...coords], offset: this.#getPointOffset(coords) }
+
+      let i = 0
+      for (; i < coords.length; i++) {
+        const { start, end, step } = normalized[i]!
+        coords[i]! += step
+        if (coords[i]! <= end) {
+          break
+        }
+        coords[i] = start
+      }
+      if (i === coords.length) {
+        return
+      }
+    }
+  }
+
+  /**
+   * Returns the stored data points as a native-endian typed array matching BITPIX, with no scaling.
+   *
+   * @returns {FITSNumericTypedArray | FITSBigIntTypedArray} The stored data points.
+   */
+  #toStoredTypedArray(): FITSNumericTypedArray | FITSBigIntTypedArray {
+    const bytesPerPoint = Math.abs(this.BITPIX) / 8
+    const bytes = new Uint8Array(this.#dataBuffer.slice(0, getPointCount(this.NAXISn) * bytesPerPoint))
+    toNativeByteOrder(bytes, bytesPerPoint, false)
+    return new (getTypedArrayType(this.BITPIX))(bytes.buffer)
+  }
+
+  /**
+   * Returns the offset of a data point.
+   *
+   * @param {number[]} coords The 1-based coordinates of the data point.
+   * @returns {number} The offset of the data point (in bytes, 0-based).
    * @throws {RangeError} If the coordinates are out of bounds.
    */
-  public getPoint(...coords: number[]): number {
+  #getPointOffset(coords: number[]): number {
     if (coords.length !== this.NAXIS) {
       throw new RangeError(`Expected ${this.NAXIS} coordinates, but got ${coords.length}`)
     }
@@ -143,16 +533,112 @@ export class FITSData {
     let mul = 1
     let offset = 0
     for (let i = 0; i < this.NAXIS; i++) {
-      offset += coords[i] * mul
-      mul *= this.NAXISn[i]
+      const coord = coords[i]!
+      if (!Number.isInteger(coord) || coord < 1 || coord > this.NAXISn[i]!) {
+        throw new RangeError(`Coordinates out of bounds: ${coords.join(", ")} (axis ${i + 1} has ${this.NAXISn[i]} points)`)
+      }
+      offset += (coord - 1) * mul
+      mul *= this.NAXISn[i]!
     }
-    offset *= Math.abs(this.BITPIX) / 8
 
-    if (offset < 0 || offset >= this.#dataView.byteLength) {
-      throw new RangeError(`Coordinates out of bounds: ${coords.join(", ")} (byte ${offset} out of ${this.#dataView.byteLength})`)
+    return offset * Math.abs(this.BITPIX) / 8
+  }
+
+  /**
+   * Returns one of the data points in HDU, as stored in the file. The coordinates are 1-based
+   * and are specified in the order of the axes `(n1, n2, ..., nNAXIS)`.
+   *
+   * @param {...number} coords The coordinates of the data point.
+   * @returns {FITSPointValue} The value of the data point (a `bigint` for BITPIX 64).
+   * @throws {RangeError} If the coordinates are out of bounds.
+   */
+  public getPoint(...coords: number[]): FITSPointValue {
+    return this.#readPoint(this.#getPointOffset(coords))
+  }
+
+  /**
+   * Sets one of the data points in HDU, writing it in place. The value is stored as is (i.e. BSCALE and BZERO are not
+   * applied), and `null` marks the point as undefined (see {@link isBlank}). The coordinates are 1-based and are
+   * specified in the order of the axes `(n1, n2, ..., nNAXIS)`.
+   *
+   * @param {FITSPointValue | null} value The stored value of the data point.
+   * @param {...number} coords The coordinates of the data point.
+   * @throws {RangeError} If the coordinates are out of bounds, or the value is out of the range of BITPIX.
+   * @throws {TypeError} If the value can't be stored with BITPIX.
+   */
+  public setPoint(value: FITSPointValue | null, ...coords: number[]): void {
+    writePoint(this.#dataView, this.#getPointOffset(coords), this.#toStoredPoint(value), this.BITPIX)
+  }
+
+  /**
+   * Sets all the data points inside the given ranges to the same stored value, in place. `null` marks the points as
+   * undefined (see {@link isBlank}).
+   *
+   * @param {FITSPointValue | null} value The stored value of the data points.
+   * @param {FITSDataSliceRange[]} [ranges] The 1-based, inclusive ranges along each axis. Missing ranges select the
+   *                                        whole axis.
+   * @throws {RangeError} If a range is out of bounds, or the value is out of the range of BITPIX.
+   * @throws {TypeError} If the value can't be stored with BITPIX.
+   */
+  public fill(value: FITSPointValue | null, ranges: FITSDataSliceRange[] = []): void {
+    const stored = this.#toStoredPoint(value)
+    for (const { offset } of this.#getRegion(ranges)) {
+      writePoint(this.#dataView, offset, stored, this.BITPIX)
     }
+  }
 
-    return this.#readPoint(offset)
+  /**
+   * Replaces each data point inside the given ranges with the result of the callback, in place. Like in
+   * {@link setPoint}, the callback receives and returns stored values, and returning `null` marks the point as
+   * undefined.
+   *
+   * @param {(value: FITSPointValue, coordinates: number[]) => FITSPointValue | null} callback The function that
+   *   returns the new stored value of each data point, given its current value and its 1-based coordinates.
+   * @param {FITSDataSliceRange[]} [ranges] The 1-based, inclusive ranges along each axis. Missing ranges select the
+   *                                        whole axis.
+   * @throws {RangeError} If a range is out of bounds, or a value is out of the range of BITPIX.
+   * @throws {TypeError} If a value can't be stored with BITPIX.
+   */
+  public map(callback: (value: FITSPointValue, coordinates: number[]) => FITSPointValue | null, ranges: FITSDataSliceRange[] = []): void {
+    for (const { coordinates, offset } of this.#getRegion(ranges)) {
+      const value = this.#toStoredPoint(callback(this.#readPoint(offset), coordinates))
+      writePoint(this.#dataView, offset, value, this.BITPIX)
+    }
+  }
+
+  /**
+   * Returns the physical value of one of the data points in HDU, i.e. `BZERO + BSCALE * stored`, or NaN if the point
+   * is undefined (see {@link isBlank}). The coordinates are 1-based and are specified in the order of the axes
+   * `(n1, n2, ..., nNAXIS)`. 64-bit integers are converted to numbers, so they may lose precision.
+   *
+   * @param {...number} coords The coordinates of the data point.
+   * @returns {number} The physical value of the data point.
+   * @throws {RangeError} If the coordinates are out of bounds.
+   */
+  public getPhysicalPoint(...coords: number[]): number {
+    return this.#toPhysicalValue(this.getPoint(...coords))
+  }
+
+  /**
+   * Checks if one of the data points in HDU is undefined, i.e. its stored value is {@link BLANK} (for integer data)
+   * or NaN (for floating-point data). The coordinates are 1-based and are specified in the order of the axes
+   * `(n1, n2, ..., nNAXIS)`.
+   *
+   * @param {...number} coords The coordinates of the data point.
+   * @returns {boolean} Whether the data point is undefined.
+   * @throws {RangeError} If the coordinates are out of bounds.
+   */
+  public isBlank(...coords: number[]): boolean {
+    return this.#isBlankValue(this.getPoint(...coords))
+  }
+
+  /**
+   * Returns a mask of the undefined data points (see {@link isBlank}), in the same order as {@link getData}.
+   *
+   * @returns {boolean[]} Whether each data point is undefined.
+   */
+  public getBlankMask(): boolean[] {
+    return Array.from(this.#toStoredTypedArray() as ArrayLike<FITSPointValue>, value => this.#isBlankValue(value))
   }
 
   /**
@@ -160,14 +646,16 @@ export class FITSData {
    * of the axes `(n1, n2, ..., nNAXIS)`.
    * @returns A generator that yields the coordinates and the value of each data point.
    */
-  public* getData(): Generator<{ coordinates: number[], value: number }, void, unknown> {
-    if (this.NAXIS === 0) {
+  public* getData(): Generator<{ coordinates: number[], value: FITSPointValue }, void, unknown> {
+    const points = getPointCount(this.NAXISn)
+    if (points === 0) {
       return
     }
 
     const coords = Array.from<number>({ length: this.NAXIS }).fill(1)
     let offset = 0
     const diff = Math.abs(this.BITPIX) / 8
+    const byteLength = points * diff
 
     do {
       yield {
@@ -182,7 +670,108 @@ export class FITSData {
         coords[i] = 1
         coords[++i]++
       }
-    } while (offset < this.#dataView.byteLength)
+    } while (offset < byteLength)
+  }
+
+  /**
+   * Returns all the physical values of the HDU (i.e. `BZERO + BSCALE * stored`, or NaN for undefined points) as a
+   * generator. The coordinates are 1-based and are specified in the order of the axes `(n1, n2, ..., nNAXIS)`.
+   * @returns A generator that yields the coordinates and the physical value of each data point.
+   */
+  public* getPhysicalData(): Generator<{ coordinates: number[], value: number }, void, unknown> {
+    for (const { coordinates, value } of this.getData()) {
+      yield { coordinates, value: this.#toPhysicalValue(value) }
+    }
+  }
+
+  /**
+   * Returns all the data points as a native-endian typed array matching BITPIX, in the same order as {@link getData}.
+   * It's much faster than iterating over {@link getData}, since the whole data unit is converted with a single byte
+   * swap. Signed bytes and unsigned integers stored with the standard BZERO offsets (`-128`, `32768`, `2147483648` and
+   * `2^63`) are returned with their native signedness, i.e. as an `Int8Array`, `Uint16Array`, `Uint32Array` or
+   * `BigUint64Array`. Other scalings are not applied unless `physical` is set, in which case undefined points (see
+   * {@link isBlank}) are NaN.
+   *
+   * @param {FITSDataTypedArrayOptions} [options] The options.
+   * @returns {FITSNumericTypedArray | FITSBigIntTypedArray | Float64Array} The data points, or their physical values.
+   * @throws {TypeError} If BITPIX is not supported.
+   */
+  public toTypedArray(options?: { physical?: false }): FITSNumericTypedArray | FITSBigIntTypedArray
+  public toTypedArray(options: { physical: true }): Float64Array
+  public toTypedArray(options?: FITSDataTypedArrayOptions): FITSNumericTypedArray | FITSBigIntTypedArray | Float64Array
+  public toTypedArray(options: FITSDataTypedArrayOptions = {}): FITSNumericTypedArray | FITSBigIntTypedArray | Float64Array {
+    if (options.physical) {
+      const stored = this.#toStoredTypedArray()
+      const physical = new Float64Array(stored.length)
+      for (let i = 0; i < stored.length; i++) {
+        physical[i] = this.#toPhysicalValue(stored[i]!)
+      }
+      return physical
+    }
+
+    const bytesPerPoint = Math.abs(this.BITPIX) / 8
+    const bytes = new Uint8Array(this.#dataBuffer.slice(0, getPointCount(this.NAXISn) * bytesPerPoint))
+    const convention = getIntegerConvention(this.BITPIX, this.BSCALE, this.BZERO)
+    toNativeByteOrder(bytes, bytesPerPoint, convention !== undefined)
+    return new (convention?.ArrayType ?? getTypedArrayType(this.BITPIX))(bytes.buffer)
+  }
+
+  /**
+   * Returns a copy of a subset of the data points, keeping every axis (single indices give axes of length 1) and the
+   * scaling. The ranges are 1-based and inclusive, and are specified in the order of the axes `(n1, n2, ..., nNAXIS)`.
+   *
+   * @param {FITSDataSliceRange[]} ranges The ranges along each axis. Missing ranges select the whole axis.
+   * @returns {FITSData} The sliced data.
+   * @throws {RangeError} If there are more ranges than axes, or a range is empty or out of bounds.
+   */
+  public slice(ranges: FITSDataSliceRange[]): FITSData {
+    const normalized = normalizeSliceRanges(ranges, this.NAXISn)
+    const axes = normalized.map(({ start, end, step }) => Math.floor((end - start) / step) + 1)
+    const bytesPerPoint = Math.abs(this.BITPIX) / 8
+    const source = new Uint8Array(this.#dataBuffer)
+    const output = new Uint8Array(getPointCount(axes) * bytesPerPoint)
+
+    // Distance between consecutive points along each axis, in bytes
+    const strides: number[] = []
+    for (let i = 0, stride = bytesPerPoint; i < this.NAXIS; i++) {
+      strides.push(stride)
+      stride *= this.NAXISn[i]!
+    }
+
+    // The first axis is copied one row at a time, and the rest are iterated like an odometer
+    const rowLength = axes[0]! * bytesPerPoint
+    const rowStep = normalized[0]!.step * bytesPerPoint
+    const coords = normalized.map(({ start }) => start)
+    for (let outputOffset = 0; outputOffset < output.length; outputOffset += rowLength) {
+      const offset = coords.reduce((accum, coord, i) => accum + (coord - 1) * strides[i]!, 0)
+      if (rowStep === bytesPerPoint) {
+        output.set(source.subarray(offset, offset + rowLength), outputOffset)
+      }
+      else {
+        for (let i = 0; i < axes[0]!; i++) {
+          output.set(source.subarray(offset + i * rowStep, offset + i * rowStep + bytesPerPoint), outputOffset + i * bytesPerPoint)
+        }
+      }
+
+      for (let i = 1; i < coords.length; i++) {
+        const { start, end, step } = normalized[i]!
+        coords[i]! += step
+        if (coords[i]! <= end) {
+          break
+        }
+        coords[i] = start
+      }
+    }
+
+    return new FITSData({
+      BITPIX: this.BITPIX,
+      NAXIS: axes.length,
+      NAXISn: axes,
+      BSCALE: this.BSCALE,
+      BZERO: this.BZERO,
+      BLANK: this.BLANK,
+      dataBuffer: output.buffer,
+    })
   }
 
   public toString(): string {
@@ -190,55 +779,142 @@ export class FITSData {
   }
 
   public toJSON(): unknown {
-    return Array.from(this.getData()).map(({ value }) => value)
+    return Array.from(this.getData()).map(({ value }) => typeof value === "bigint" ? value.toString() : value)
   }
 
   public toBuffer(): ArrayBuffer {
     return structuredClone(this.#dataBuffer)
   }
 
+  /**
+   * Creates an image data unit from its header (a primary header or an IMAGE extension) and its data. The scaling
+   * (BSCALE and BZERO) and the value of undefined points (BLANK, only for integer data) are read from the header.
+   *
+   * @param {FITSHeader} header The header of the HDU.
+   * @param {ArrayBuffer} dataBuffer The data of the HDU.
+   * @returns {FITSData} The image data.
+   */
+  public static fromHeader(header: FITSHeader, dataBuffer: ArrayBuffer): FITSData {
+    const BITPIX = header.getValue("BITPIX") as FITSBITPIX
+    const NAXIS = header.getValue("NAXIS")!
+    const NAXISn = Array.from({ length: NAXIS }, (_, i) => header.getValue(`NAXIS${i + 1}`)!)
+    const PCOUNT = header.getValue("PCOUNT") ?? 0
+    const GCOUNT = header.getValue("GCOUNT") ?? 1
+    const BSCALE = header.getValue("BSCALE") ?? 1
+    const BZERO = header.getValue("BZERO") ?? 0
+
+    // BLANK is only defined for integer data, floating-point data uses NaN
+    const blank = BITPIX > 0 ? header.getValue("BLANK") : undefined
+    const BLANK = blank === undefined ? null : BITPIX === 64 ? BigInt(blank) : blank
+
+    return new FITSData({ BITPIX, NAXIS, NAXISn, PCOUNT, GCOUNT, BSCALE, BZERO, BLANK, dataBuffer })
+  }
+
   /**
    * Creates a new FITS data unit.
    *
    * **Warning**: This method does not check if BITPIX and NAXIS are valid, only checks the data.
    * It's intended to be called by {@link FITS}.
    *
-   * @param {number[]} data The data of the FITS file.
+   * `null` values mark undefined points: they are stored as NaN for floating-point data, and as {@link BLANK} for
+   * integer data.
+   *
+   * @param {(number | null)[]} data The data of the FITS file.
    * @param {BITPIX} BITPIX The bits per pixel of the data.
    * @param {number[]} axes The axes of the data matrix.
    * @returns {FITSData} The data of the FITS file.
+   * @throws {RangeError} If a value is the same as the chosen BLANK value.
    */
-  public static fromArray(data: number[], BITPIX: FITSBITPIX, axes: number[]): FITSData {
+  public static fromArray(data: (number | null)[], BITPIX: FITSBITPIX, axes: number[]): FITSData {
     return FITSData.fromNumericData(data, BITPIX, axes)
   }
 
   /**
    * Creates a new FITS data unit from a typed array.
    *
-   * @param {FITSNumericTypedArray} data The data of the FITS file.
+   * When the array is the unsigned (or signed, for bytes) counterpart of BITPIX (an `Int8Array` with BITPIX 8, a
+   * `Uint16Array` with BITPIX 16, a `Uint32Array` with BITPIX 32 or a `BigUint64Array` with BITPIX 64), the values
+   * are stored with the standard BZERO offset, which is set in {@link BZERO}.
+   *
+   * @param {FITSNumericTypedArray | FITSBigIntTypedArray} data The data of the FITS file.
    * @param {BITPIX} BITPIX The bits per pixel of the data.
    * @param {number[]} axes The axes of the data matrix.
    * @returns {FITSData} The data of the FITS file.
    */
-  public static fromTypedArray(data: FITSNumericTypedArray, BITPIX: FITSBITPIX, axes: number[]): FITSData {
-    return FITSData.fromNumericData(data, BITPIX, axes)
+  public static fromTypedArray(data: FITSNumericTypedArray | FITSBigIntTypedArray, BITPIX: FITSBITPIX, axes: number[]): FITSData {
+    const convention = INTEGER_CONVENTIONS.find(c => c.BITPIX === BITPIX && data instanceof c.ArrayType)
+    if (!convention) {
+      return FITSData.fromNumericData(data, BITPIX, axes)
+    }
+
+    const { BZERO } = convention
+    const stored = data instanceof BigUint64Array
+      ? Array.from(data, value => value - BigInt(BZERO))
+      : Array.from(data as FITSNumericTypedArray, value => value - BZERO)
+    return FITSData.fromNumericData(stored, BITPIX, axes, { BSCALE: 1, BZERO })
   }
 
-  private static fromNumericData(data: ArrayLike<number>, BITPIX: FITSBITPIX, axes: number[]): FITSData {
+  /**
+   * Creates a new FITS data unit from physical values, storing `(physical - BZERO) / BSCALE` (rounded for integer
+   * BITPIX values). `null` values mark undefined points, as in {@link fromArray}.
+   *
+   * @param {ArrayLike<number | null>} values The physical values of the FITS file.
+   * @param {BITPIX} BITPIX The bits per pixel of the stored data.
+   * @param {number[]} axes The axes of the data matrix.
+   * @param {FITSDataScaling} [scaling] The scaling to use. If omitted, it's chosen to fit the values in the range of
+   *                                    BITPIX.
+   * @returns {FITSData} The data of the FITS file.
+   * @throws {TypeError} If a value is not finite and BITPIX is an integer type.
+   * @throws {RangeError} If a stored value is out of the range of BITPIX, or is the same as the BLANK value.
+   */
+  public static fromPhysicalArray(values: ArrayLike<number | null>, BITPIX: FITSBITPIX, axes: number[], scaling?: FITSDataScaling): FITSData {
+    const { BSCALE, BZERO } = scaling ?? chooseScaling(values, BITPIX)
+    const range = INTEGER_RANGES[BITPIX]
+
+    const stored = Array.from(values, (value) => {
+      if (value === null) {
+        return null
+      }
+
+      const point = (value - BZERO) / BSCALE
+      if (!range) {
+        return point
+      }
+      if (!Number.isFinite(point)) {
+        throw new TypeError(`Cannot store ${value} with BITPIX = ${BITPIX}`)
+      }
+
+      const rounded = Math.round(point)
+      if (rounded < range[0] || rounded > range[1]) {
+        throw new RangeError(`Value ${value} out of range for BITPIX = ${BITPIX} (BSCALE = ${BSCALE}, BZERO = ${BZERO})`)
+      }
+      return rounded
+    })
+
+    return FITSData.fromNumericData(stored, BITPIX, axes, { BSCALE, BZERO })
+  }
+
+  private static fromNumericData(data: ArrayLike<FITSPointValue | null>, BITPIX: FITSBITPIX, axes: number[], scaling?: FITSDataScaling): FITSData {
     const points = getPointCount(axes)
     if (data.length !== points) {
       throw new RangeError(`Expected ${points} data points, but got ${data.length}`)
     }
 
+    const BLANK = getBlankValue(data, BITPIX)
     const bytesPerPoint = Math.abs(BITPIX) / 8
     const dataBuffer = new ArrayBuffer(points * bytesPerPoint)
     const dataView = new DataView(dataBuffer)
     let offset = dataView.byteOffset
     for (let i = 0; i < data.length; i++) {
-      writePoint(dataView, offset, data[i]!, BITPIX)
+      const point = data[i]!
+      if (point !== null && BLANK !== null && (typeof BLANK === "bigint" ? BigInt(point) : Number(point)) === BLANK) {
+        throw new RangeError(`Value ${point} at index ${i} is the same as BLANK = ${BLANK}`)
+      }
+
+      writePoint(dataView, offset, point ?? BLANK ?? Number.NaN, BITPIX)
       offset += bytesPerPoint
     }
 
-    return new FITSData({ BITPIX, NAXIS: axes.length, NAXISn: axes, dataBuffer })
+    return new FITSData({ BITPIX, NAXIS: axes.length, NAXISn: axes, ...scaling, BLANK, dataBuffer })
   }
 }
@@ -0,0 +1,538 @@
+/**
+ * @fileoverview
+ * Gzip files (RFC 1952) hold data compressed with DEFLATE (RFC 1951). Whole files are decompressed with the
+ * platform's `DecompressionStream`, while the tiles of compressed images (which are small, and read or written along
+ * with an HDU) are inflated and deflated synchronously here.
+ */
+
+// Lengths and distances of DEFLATE: base values and number of extra bits of each code
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258]
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0]
+const DISTANCE_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577]
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13]
+
+// Order of the code lengths of the code length alphabet in dynamic blocks
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15]
+
+const MAX_BITS = 15
+
+/**
+ * A canonical Huffman code: the number of codes of each length, and the symbols sorted by code.
+ */
+interface HuffmanCode {
+  counts: Uint16Array
+  symbols: Uint16Array
+}
+
+/**
+ * Builds a canonical Huffman code from the code length of each symbol (0 for unused symbols).
+ *
+ * @param {ArrayLike<number>} lengths The code lengths.
+ * @returns {HuffmanCode} The code.
+ */
+function buildHuffmanCode(lengths: ArrayLike<number>): HuffmanCode {
+  const counts = new Uint16Array(MAX_BITS + 1)
+  for (let i = 0; i < lengths.length; i++) {
+    counts[lengths[i]!]!++
+  }
+  counts[0] = 0
+
+  const offsets = new Uint16Array(MAX_BITS + 1)
+  for (let len = 1; len < MAX_BITS; len++) {
+    offsets[len + 1] = offsets[len]! + counts[len]!
+  }
+
+  const symbols = new Uint16Array(lengths.length)
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol] !== 0) {
+      symbols[offsets[lengths[symbol]!]!++] = symbol
+    }
+  }
+
+  return { counts, symbols }
+}
+
+let fixedCodes: { literals: HuffmanCode, distances: HuffmanCode } | null = null
+
+/**
+ * Returns the fixed Huffman codes of DEFLATE (block type 1).
+ */
+function getFixedCodes(): { literals: HuffmanCode, distances: HuffmanCode } {
+  if (!fixedCodes) {
+    const lengths = new Uint8Array(288)
+    lengths.fill(8, 0, 144)
+    lengths.fill(9, 144, 256)
+    lengths.fill(7, 256, 280)
+    lengths.fill(8, 280, 288)
+    fixedCodes = { literals: buildHuffmanCode(lengths), distances: buildHuffmanCode(new Uint8Array(30).fill(5)) }
+  }
+  return fixedCodes
+}
+
+/**
+ * Inflates a DEFLATE stream.
+ */
+class Inflater {
+  readonly #input: Uint8Array
+  #position: number
+  #bitBuffer = 0
+  #bitCount = 0
+  #output: Uint8Array
+  #length = 0
+
+  /**
+   * @param {Uint8Array} input The compressed bytes.
+   * @param {number} position The offset of the DEFLATE stream.
+   * @param {number} sizeHint The expected size of the output, to avoid reallocations.
+   */
+  constructor(input: Uint8Array, position: number, sizeHint: number) {
+    this.#input = input
+    this.#position = position
+    this.#output = new Uint8Array(Math.max(sizeHint, 1024))
+  }
+
+  /** The offset of the first byte after the stream (once inflated). */
+  public get position(): number {
+    return this.#position
+  }
+
+  #bits(count: number): number {
+    while (this.#bitCount < count) {
+      if (this.#position >= this.#input.length) {
+        throw new RangeError("Unexpected end of compressed data")
+      }
+      this.#bitBuffer |= this.#input[this.#position++]! << this.#bitCount
+      this.#bitCount += 8
+    }
+
+    const value = this.#bitBuffer & ((1 << count) - 1)
+    this.#bitBuffer >>>= count
+    this.#bitCount -= count
+    return value
+  }
+
+  #decode(code: HuffmanCode): number {
+    // Codes are read bit by bit, and compared against the first code of each length
+    let value = 0
+    let first = 0
+    let index = 0
+    for (let len = 1; len <= MAX_BITS; len++) {
+      value |= this.#bits(1)
+      const count = code.counts[len]!
+      if (value - count < first) {
+        return code.symbols[index + value - first]!
+      }
+      index += count
+      first = (first + count) << 1
+      value <<= 1
+    }
+    throw new RangeError("Invalid Huffman code in compressed data")
+  }
+
+  #push(byte: number): void {
+    if (this.#length === this.#output.length) {
+      const output = new Uint8Array(this.#output.length * 2)
+      output.set(this.#output)
+      this.#output = output
+    }
+    this.#output[this.#length++] = byte
+  }
+
+  #inflateStored(): void {
+    // Stored blocks start at a byte boundary
+    this.#bitBuffer = 0
+    this.#bitCount = 0
+    if (this.#position + 4 > this.#input.length) {
+      throw new RangeError("Unexpected end of compressed data")
+    }
+
+    const length = this.#input[this.#position]! | (this.#input[this.#position + 1]! << 8)
+    const complement = this.#input[this.#position + 2]! | (this.#input[this.#position + 3]! << 8)
+    if (length !== (~complement & 0xFFFF)) {
+      throw new RangeError("Invalid stored block in compressed data")
+    }
+    this.#position += 4
+    if (this.#position + length > this.#input.length) {
+      throw new RangeError("Unexpected end of compressed data")
+    }
+
+    for (let i = 0; i < length; i++) {
+      this.#push(this.#input[this.#position++]!)
+    }
+  }
+
+  #inflateCodes(literals: HuffmanCode, distances: HuffmanCode): void {
+    while (true) {
+      const symbol = this.#decode(literals)
+      if (symbol < 256) {
+        this.#push(symbol)
+        continue
+      }
+      if (symbol === 256) {
+        return
+      }
+
+      const lengthCode = symbol - 257
+      if (lengthCode >= LENGTH_BASE.length) {
+        throw new RangeError("Invalid length code in compressed data")
+      }
+      const length = LENGTH_BASE[lengthCode]! + this.#bits(LENGTH_EXTRA[lengthCode]!)
+      const distanceCode = this.#decode(distances)
+      if (distanceCode >= DISTANCE_BASE.length) {
+        throw new RangeError("Invalid distance code in compressed data")
+      }
+      const distance = DISTANCE_BASE[distanceCode]! + this.#bits(DISTANCE_EXTRA[distanceCode]!)
+      if (distance > this.#length) {
+        throw new RangeError("Invalid distance in compressed data")
+      }
+
+      // The copy may overlap with itself, so it's done byte by byte
+      for (let i = 0; i < length; i++) {
+        this.#push(this.#output[this.#length - distance]!)
+      }
+    }
+  }
+
+  #readDynamicCodes(): { literals: HuffmanCode, distances: HuffmanCode } {
+    const literalCount = this.#bits(5) + 257
+    const distanceCount = this.#bits(5) + 1
+    const codeLengthCount = this.#bits(4) + 4
+
+    const codeLengths = new Uint8Array(19)
+    for (let i = 0; i < codeLengthCount; i++) {
+      codeLengths[CODE_LENGTH_ORDER[i]!] = this.#bits(3)
+    }
+    const codeLengthCode = buildHuffmanCode(codeLengths)
+
+    const lengths = new Uint8Array(literalCount + distanceCount)
+    for (let i = 0; i < lengths.length;) {
+      const symbol = this.#decode(codeLengthCode)
+      if (symbol < 16) {
+        lengths[i++] = symbol
+        continue
+      }
+
+      // 16 repeats the previous length, 17 and 18 repeat zeros
+      const [value, repeat] = symbol === 16
+        ? [i === 0 ? -1 : lengths[i - 1]!, 3 + this.#bits(2)]
+        : [0, symbol === 17 ? 3 + this.#bits(3) : 11 + this.#bits(7)]
+      if (value === -1 || i + repeat > lengths.length) {
+        throw new RangeError("Invalid code lengths in compressed data")
+      }
+      lengths.fill(value, i, i + repeat)
+      i += repeat
+    }
+
+    return {
+      literals: buildHuffmanCode(lengths.subarray(0, literalCount)),
+      distances: buildHuffmanCode(lengths.subarray(literalCount)),
+    }
+  }
+
+  /**
+   * Inflates all the blocks of the stream.
+   *
+   * @returns {Uint8Array} The decompressed bytes.
+   * @throws {RangeError} If the stream is not valid or ends unexpectedly.
+   */
+  public inflate(): Uint8Array {
+    let last = false
+    while (!last) {
+      last = this.#bits(1) === 1
+      const type = this.#bits(2)
+      if (type === 0) {
+        this.#inflateStored()
+      }
+      else if (type === 1) {
+        const { literals, distances } = getFixedCodes()
+        this.#inflateCodes(literals, distances)
+      }
+      else if (type === 2) {
+        const { literals, distances } = this.#readDynamicCodes()
+        this.#inflateCodes(literals, distances)
+      }
+      else {
+        throw new RangeError("Invalid block type in compressed data")
+      }
+    }
+
+    // Unused bits of the last byte are skipped
+    this.#bitBuffer = 0
+    this.#bitCount = 0
+    return this.#output.subarray(0, this.#length)
+  }
+}
+
+// Repeated strings are looked up in the last 32 KiB, following up to MAX_CHAIN earlier strings with the same hash
+const WINDOW_SIZE = 32768
+const MIN_MATCH = 3
+const MAX_MATCH = 258
+const MAX_CHAIN = 64
+const HASH_BITS = 15
+
+/**
+ * Returns the index of the last base that is not greater than a value, i.e. the code of a length or a distance.
+ *
+ * @param {number[]} bases The base values of the codes.
+ * @param {number} value The length or distance.
+ * @returns {number} The code.
+ */
+function findCode(bases: number[], value: number): number {
+  let code = bases.length - 1
+  while (bases[code]! > value) {
+    code--
+  }
+  return code
+}
+
+/**
+ * Deflates data into a single block with the fixed Huffman codes, which is enough for the small tiles of compressed
+ * images. Repeated strings are found with hash chains, always taking the longest match (without lazy matching).
+ */
+class Deflater {
+  readonly #input: Uint8Array
+  #output: Uint8Array
+  #length = 0
+  #bitBuffer = 0
+  #bitCount = 0
+
+  /**
+   * @param {Uint8Array} input The bytes to compress.
+   */
+  constructor(input: Uint8Array) {
+    this.#input = input
+    this.#output = new Uint8Array(Math.max(input.length, 1024))
+  }
+
+  #bits(value: number, count: number): void {
+    this.#bitBuffer |= value << this.#bitCount
+    this.#bitCount += count
+    while (this.#bitCount >= 8) {
+      if (this.#length === this.#output.length) {
+        const output = new Uint8Array(this.#output.length * 2)
+        output.set(this.#output)
+        this.#output = output
+      }
+      this.#output[this.#length++] = this.#bitBuffer & 0xFF
+      this.#bitBuffer >>>= 8
+      this.#bitCount -= 8
+    }
+  }
+
+  // Huffman codes are packed starting from their most significant bit
+  #code(code: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.#bits((code >>> i) & 1, 1)
+    }
+  }
+
+  #symbol(symbol: number): void {
+    if (symbol < 144) {
+      this.#code(0x30 + symbol, 8)
+    }
+    else if (symbol < 256) {
+      this.#code(0x190 + symbol - 144, 9)
+    }
+    else if (symbol < 280) {
+      this.#code(symbol - 256, 7)
+    }
+    else {
+      this.#code(0xC0 + symbol - 280, 8)
+    }
+  }
+
+  #match(length: number, distance: number): void {
+    const lengthCode = findCode(LENGTH_BASE, length)
+    this.#symbol(257 + lengthCode)
+    this.#bits(length - LENGTH_BASE[lengthCode]!, LENGTH_EXTRA[lengthCode]!)
+
+    const distanceCode = findCode(DISTANCE_BASE, distance)
+    this.#code(distanceCode, 5)
+    this.#bits(distance - DISTANCE_BASE[distanceCode]!, DISTANCE_EXTRA[distanceCode]!)
+  }
+
+  /**
+   * Compresses the whole input.
+   *
+   * @returns {Uint8Array} The DEFLATE stream.
+   */
+  public deflate(): Uint8Array {
+    const input = this.#input
+    const head = new Int32Array(1 << HASH_BITS).fill(-1)
+    const previous = new Int32Array(input.length)
+    const hash = (i: number): number => ((input[i]! << 10) ^ (input[i + 1]! << 5) ^ input[i + 2]!) & ((1 << HASH_BITS) - 1)
+    const insert = (i: number): void => {
+      if (i + MIN_MATCH <= input.length) {
+        const h = hash(i)
+        previous[i] = head[h]!
+        head[h] = i
+      }
+    }
+
+    // Last block, with the fixed Huffman codes
+    this.#bits(1, 1)
+    this.#bits(1, 2)
+
+    for (let i = 0; i < input.length;) {
+      let bestLength = 0
+      let bestDistance = 0
+      if (i + MIN_MATCH <= input.length) {
+        const maxLength = Math.min(MAX_MATCH, input.length - i)
+        for (let candidate = head[hash(i)]!, chain = 0; candidate >= 0 && i - candidate <= WINDOW_SIZE && chain < MAX_CHAIN; candidate = previous[candidate]!, chain++) {
+          let length = 0
+          while (length < maxLength && input[candidate + length] === input[i + length]) {
+            length++
+          }
+          if (length > bestLength) {
+            bestLength = length
+            bestDistance = i - candidate
+            if (length === maxLength) {
+              break
+            }
+          }
+        }
+      }
+
+      if (bestLength >= MIN_MATCH) {
+        this.#match(bestLength, bestDistance)
+        for (const end = i + bestLength; i < end; i++) {
+          insert(i)
+        }
+      }
+      else {
+        this.#symbol(input[i]!)
+        insert(i++)
+      }
+    }
+
+    this.#symbol(256)
+    if (this.#bitCount > 0) {
+      this.#bits(0, 8 - this.#bitCount)
+    }
+    return this.#output.subarray(0, this.#length)
+  }
+}
+
+let crcTable: Uint32Array | null = null
+
+/**
+ * Computes the CRC-32 of some bytes, as stored at the end of each gzip member.
+ *
+ * @param {Uint8Array} bytes The bytes.
+ * @returns {number} The CRC-32, as an unsigned integer.
+ */
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c
+    }
+  }
+
+  let crc = 0xFFFFFFFF
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]!) & 0xFF]! ^ (crc >>> 8)
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0
+}
+
+/**
+ * Returns whether some bytes start with the magic number of gzip (`1F 8B`).
+ *
+ * @param {Uint8Array} bytes The bytes to check.
+ * @returns {boolean} Whether the bytes are gzip-compressed.
+ */
+export function isGzip(bytes: Uint8Array): boolean {
+  return bytes[0] === 0x1F && bytes[1] === 0x8B
+}
+
+/**
+ * Decompresses gzip data synchronously. Concatenated gzip members are decompressed one after another.
+ *
+ * @param {Uint8Array} bytes The gzip-compressed bytes.
+ * @param {number} [sizeHint] The expected size of the decompressed data.
+ * @returns {Uint8Array} The decompressed bytes.
+ * @throws {RangeError} If the data is not valid gzip or ends unexpectedly.
+ */
+export function gunzip(bytes: Uint8Array, sizeHint: number = bytes.length * 4): Uint8Array {
+  const members: Uint8Array[] = []
+
+  let position = 0
+  do {
+    if (!isGzip(bytes.subarray(position)) || bytes[position + 2] !== 8) {
+      throw new RangeError("Invalid gzip header")
+    }
+
+    // Optional fields of the header: FEXTRA, FNAME, FCOMMENT and FHCRC
+    const flags = bytes[position + 3]!
+    position += 10
+    if (flags & 0x04) {
+      position += 2 + (bytes[position]! | (bytes[position + 1]! << 8))
+    }
+    for (const flag of [0x08, 0x10]) {
+      if (flags & flag) {
+        while (bytes[position] !== 0 && position < bytes.length) {
+          position++
+        }
+        position++
+      }
+    }
+    if (flags & 0x02) {
+      position += 2
+    }
+
+    const inflater = new Inflater(bytes, position, sizeHint)
+    members.push(inflater.inflate())
+
+    // The CRC-32 and size of the data follow each member
+    position = inflater.position + 8
+  } while (position < bytes.length && isGzip(bytes.subarray(position)))
+
+  if (members.length === 1) {
+    return members[0]!
+  }
+
+  const output = new Uint8Array(members.reduce((accum, member) => accum + member.length, 0))
+  let offset = 0
+  for (const member of members) {
+    output.set(member, offset)
+    offset += member.length
+  }
+  return output
+}
+
+/**
+ * Compresses data with gzip synchronously, as a single member without optional header fields.
+ *
+ * @param {Uint8Array} bytes The bytes to compress.
+ * @returns {Uint8Array} The gzip-compressed bytes.
+ */
+export function gzip(bytes: Uint8Array): Uint8Array {
+  const deflated = new Deflater(bytes).deflate()
+  const output = new Uint8Array(10 + deflated.length + 8)
+  const view = new DataView(output.buffer)
+
+  // Magic number, DEFLATE method, no flags nor modification time, and an unknown operating system
+  output.set([0x1F, 0x8B, 8, 0, 0, 0, 0, 0, 0, 0xFF])
+  output.set(deflated, 10)
+  view.setUint32(10 + deflated.length, crc32(bytes), true)
+  view.setUint32(14 + deflated.length, bytes.length >>> 0, true)
+  return output
+}
+
+/**
+ * Decompresses gzip data with the platform's `DecompressionStream`, which is available in browsers, Node.js, Deno and
+ * Bun.
+ *
+ * @param {ArrayBuffer} buffer The gzip-compressed bytes.
+ * @returns {Promise<ArrayBuffer>} The decompressed bytes.
+ * @throws {TypeError} If the data is not valid gzip.
+ */
+export async function gunzipAsync(buffer: ArrayBuffer): Promise<ArrayBuffer> {
+  const stream = new Blob([buffer]).stream().pipeThrough(new DecompressionStream("gzip"))
+  return new Response(stream).arrayBuffer()
+}
@@ -1,9 +1,10 @@
 import type { FITSCardValue } from "./card.js"
-import type { FITSBITPIX } from "./data.js"
+import type { FITSBITPIX, FITSDataSliceRange, FITSDataUnit } from "./data.js"
 import { Card, keywordIsCommentary } from "./card.js"
+import { computeChecksum, encodeChecksum } from "./checksum.js"
 import { BLOCK_SIZE } from "./FITS.js"
 
-interface FITSHeaderParsedResult {
+export interface FITSHeaderParsedResult {
   header: FITSHeader
   bytesRead: number
 }
@@ -62,7 +63,6 @@ export type FITSCardString
     | `TDISP${number}`
     | "TELESCOP"
     | `TFORM${number}`
-    | `TNULL${number}`
     | `TTYPE${number}`
     | `TUNIT${number}`
     | "XTENSION"
@@ -81,11 +81,46 @@ export function isFITSCardLogical(keyword: string): keyword is FITSCardLogical {
   return fitsCardLogicalRegExp.test(keyword)
 }
 
+export interface FITSParseOptions {
+  /**
+   * Whether to keep the cards that can't be parsed (e.g. lowercase keywords, unquoted strings or numbers followed by
+   * garbage) instead of throwing an error. They are kept as invalid cards, with their raw image but without a value
+   * (see {@link Card.fromInvalidImage}), and the problems are listed in {@link FITSHeader.warnings}. The mandatory
+   * keywords must still be valid. Defaults to `false`.
+   */
+  lenient?: boolean
+}
+
 export interface FITSHeaderSetOptions {
   comment?: string | null
   index?: number
 }
 
+export interface FITSHeaderStructureOptions {
+  /**
+   * The extension type (e.g. `IMAGE`). If `null`, a primary header is created. If omitted, the new header is of the
+   * same kind as the copied one.
+   */
+  XTENSION?: string | null
+  /**
+   * Whether a random-groups primary header (`GROUPS = T`) is created. If omitted, the new header keeps the random-groups
+   * structure of the copied one, unless it's turned into an extension.
+   */
+  GROUPS?: boolean
+  /** The value of PCOUNT for extension and random-groups headers. Defaults to `0`. */
+  PCOUNT?: number
+  /** The value of GCOUNT for extension and random-groups headers. Defaults to `1`. */
+  GCOUNT?: number
+  /** The value of EXTEND for primary headers. If omitted, the existing card (if any) is kept as is. */
+  EXTEND?: boolean
+}
+
+export interface FITSHeaderEntry {
+  keyword: string
+  value: FITSCardValue
+  comment?: string | null
+}
+
 export interface FITSHeaderAxisOptions {
   ctype?: string
   cunit?: string
@@ -95,6 +130,64 @@ export interface FITSHeaderAxisOptions {
   crota?: number
 }
 
+// Keywords that describe the fields of a table, replaced as a whole when the table changes
+const tableKeywordRegExp = /^(?:TFIELDS|THEAP|T(?:BCOL|DIM|DISP|FORM|NULL|SCAL|TYPE|UNIT|ZERO)\d{1,3})$/
+
+// Keywords of tile-compressed images (the Z-prefixed copies of the image keywords and the compression parameters)
+const compressionKeywordRegExp = /^(?:ZIMAGE|ZCMPTYPE|ZBITPIX|ZNAXIS\d{0,3}|ZTILE\d{1,3}|ZNAME\d{1,3}|ZVAL\d{1,3}|ZMASKCMP|ZQUANTIZ|ZDITHER0|ZSIMPLE|ZTENSION|ZEXTEND|ZBLOCKED|ZPCOUNT|ZGCOUNT|ZHECKSUM|ZDATASUM|ZSCALE|ZZERO|ZBLANK)$/
+
+// Keywords of the linear WCS (primary or alternative, with a trailing letter), which depend on the pixel grid
+const wcsAxisKeywordRegExp = /^(?:CTYPE|CUNIT|CRPIX|CRVAL|CDELT|CROTA)\d{1,3}([A-Z]?)$/
+const wcsMatrixKeywordRegExp = /^(PC|CD)(\d{1,3})_(\d{1,3})([A-Z]?)$/
+
+// Keywords that describe the parameters of random groups, replaced as a whole when the groups change
+const groupParameterKeywordRegExp = /^P(?:SCAL|TYPE|ZERO)\d{1,3}$/
+
+/**
+ * Returns whether the keyword describes the structure of the HDU, so its value is determined by the FITS instance
+ * rather than by the user.
+ *
+ * @param {string} keyword The keyword to check.
+ * @returns {boolean} Whether the keyword is structural.
+ */
+function isStructuralKeyword(keyword: string): boolean {
+  return keyword === "SIMPLE"
+    || keyword === "XTENSION"
+    || keyword === "BITPIX"
+    || keyword.startsWith("NAXIS")
+    || keyword === "PCOUNT"
+    || keyword === "GCOUNT"
+    || keyword === "GROUPS"
+    || keyword === "EXTEND"
+}
+
+/**
+ * Checks if a block of header records contains the END card, which closes the header.
+ *
+ * @param {Uint8Array} block The bytes of the records (a multiple of 80 bytes, usually a whole block).
+ * @returns {boolean} Whether the END card is in the block.
+ */
+export function hasEndCard(block: Uint8Array): boolean {
+  const ascii = new TextDecoder("ascii")
+  for (let offset = 0; offset + Card.LENGTH <= block.byteLength; offset += Card.LENGTH) {
+    if (Card.fromImage(ascii.decode(block.subarray(offset, offset + Card.LENGTH))).keyword === "END") {
+      return true
+    }
+  }
+  return false
+}
+
+/**
+ * Checks if the bytes that follow an HDU start an extension. Anything after the last HDU that isn't an extension is
+ * ignored, as per the "special records" convention, so readers stop there.
+ *
+ * @param {Uint8Array} bytes The bytes after the HDU (only the first 8 are read).
+ * @returns {boolean} Whether they start with the XTENSION keyword.
+ */
+export function isExtensionStart(bytes: Uint8Array): boolean {
+  return new TextDecoder("ascii").decode(bytes.subarray(0, 8)) === "XTENSION"
+}
+
 export class FITSHeader {
   readonly #cards: Card[] = []
 
@@ -104,7 +197,7 @@ export class FITSHeader {
 
   #getMandatoryCardCount(): number {
     let count = 0
-    if (this.#cards[count]?.keyword === "SIMPLE") {
+    if (this.#cards[count]?.keyword === "SIMPLE" || this.#cards[count]?.keyword === "XTENSION") {
       count++
     }
     if (this.#cards[count]?.keyword === "BITPIX") {
@@ -127,6 +220,23 @@ export class FITSHeader {
       }
     }
 
+    const groups = this.isPrimary && this.#cards[count]?.keyword === "GROUPS"
+    if (groups) {
+      count++
+    }
+
+    if (!this.isPrimary || groups) {
+      if (this.#cards[count]?.keyword === "PCOUNT") {
+        count++
+      }
+      if (this.#cards[count]?.keyword === "GCOUNT") {
+        count++
+      }
+    }
+    if (!this.isPrimary && this.#cards[count]?.keyword === "TFIELDS") {
+      count++
+    }
+
     return count
   }
 
@@ -186,7 +296,7 @@ export class FITSHeader {
   }
 
   #assertWritableValueKeyword(keyword: string): void {
-    if (keyword === "SIMPLE" || keyword === "BITPIX" || keyword.startsWith("NAXIS") || keyword === "EXTEND") {
+    if (isStructuralKeyword(keyword)) {
       throw new TypeError(`Cannot set value for "${keyword}": value determined by the FITS instance`)
     }
     if (keyword === "CONTINUE") {
@@ -198,7 +308,7 @@ export class FITSHeader {
   }
 
   #assertWritableCommentKeyword(keyword: string): void {
-    if (keyword === "SIMPLE" || keyword === "BITPIX" || keyword.startsWith("NAXIS") || keyword === "EXTEND") {
+    if (isStructuralKeyword(keyword)) {
       throw new TypeError(`Cannot set value for "${keyword}": comment fixed as per FITS standard`)
     }
     if (keyword === "CONTINUE") {
@@ -210,7 +320,7 @@ export class FITSHeader {
   }
 
   #assertRemovableKeyword(keyword: string): void {
-    if (keyword === "SIMPLE" || keyword === "BITPIX" || keyword.startsWith("NAXIS") || keyword === "EXTEND") {
+    if (isStructuralKeyword(keyword)) {
       throw new TypeError(`Cannot remove "${keyword}": keyword determined by the FITS instance`)
     }
     if (keyword === "CONTINUE" || keyword === "END") {
@@ -218,12 +328,43 @@ export class FITSHeader {
     }
   }
 
+  #getBITPIX(): FITSBITPIX {
+    return this.getValue("BITPIX") as FITSBITPIX
+  }
+
+  #getAxes(): number[] {
+    const NAXIS = this.getValue("NAXIS") ?? 0
+    return Array.from({ length: NAXIS }, (_, i) => this.getValue(`NAXIS${i + 1}`)!)
+  }
+
   #insertCommentaryAt(index: number, keyword: "" | "COMMENT" | "HISTORY", comment: string | null): number {
     const cardIndex = this.#getMutableInsertIndex(index)
     this.#cards.splice(cardIndex, 0, Card.fromValue(keyword, null, comment))
     return Math.max(0, Math.min(index, this.#getMutableEntryCount() - 1))
   }
 
+  /**
+   * Returns whether the header belongs to a primary HDU (i.e. it doesn't start with a XTENSION card).
+   */
+  public get isPrimary(): boolean {
+    return this.#cards[0]?.keyword !== "XTENSION"
+  }
+
+  /**
+   * Returns whether this is the header of a random-groups primary HDU (`GROUPS = T`).
+   */
+  public get isRandomGroups(): boolean {
+    return this.isPrimary && this.getValue("GROUPS") === true
+  }
+
+  /**
+   * Returns why each of the invalid cards of the header couldn't be parsed (see {@link FITSParseOptions.lenient}), in
+   * order. Valid headers have no warnings.
+   */
+  public get warnings(): string[] {
+    return this.#cards.filter(card => !card.isValid).map(card => card.warning!)
+  }
+
   /**
    * Returns the value of all the cards matching specified header keyword.
    *
@@ -240,7 +381,8 @@ export class FITSHeader {
       throw new TypeError(`Cannot retrieve values for "${keyword}" keyword`)
     }
 
-    const cards = this.#cards.map((c, i) => [c, i] as const).filter(([card]) => card.keyword === keyword)
+    // Invalid cards have no value
+    const cards = this.#cards.map((c, i) => [c, i] as const).filter(([card]) => card.keyword === keyword && card.isValid)
 
     const values = []
     for (const [card, index] of cards) {
@@ -329,7 +471,7 @@ export class FITSHeader {
       throw new TypeError(`Cannot retrieve values for "${keyword}" keyword`)
     }
 
-    const cards = this.#cards.map((c, i) => [c, i] as const).filter(([card]) => card.keyword === keyword)
+    const cards = this.#cards.map((c, i) => [c, i] as const).filter(([card]) => card.keyword === keyword && card.isValid)
 
     const values: (string | null)[] = []
     for (const [card, index] of cards) {
@@ -539,37 +681,325 @@ export class FITSHeader {
   /**
    * Creates a new FITS header overwriting the data type and axes length.
    *
+   * By default, the new header keeps the kind (primary, random groups or extension) of this one. If
+   * `structure.XTENSION` is a string, an extension header is created instead, with the mandatory PCOUNT and GCOUNT
+   * cards. If it's `null`, a primary header is created, with GROUPS, PCOUNT and GCOUNT if `structure.GROUPS` is set.
+   *
    * @param {FITSBITPIX} BITPIX The number of bits per data value.
    * @param {number[]} axes The number of elements along each axis.
+   * @param {FITSHeaderStructureOptions} [structure] The structural cards of the new header.
    * @returns {FITSHeader} The FITS header.
    */
-  public copyWith(BITPIX: FITSBITPIX, axes: number[]): FITSHeader {
+  public copyWith(BITPIX: FITSBITPIX, axes: number[], structure: FITSHeaderStructureOptions = {}): FITSHeader {
     if (BITPIX !== 8 && BITPIX !== 16 && BITPIX !== 32 && BITPIX !== 64 && BITPIX !== -32 && BITPIX !== -64) {
       throw new TypeError(`Unexpected BITPIX value: ${BITPIX}`)
     }
     for (let i = 0; i < axes.length; i++) {
       const value = axes[i]
-      if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+      if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
         throw new TypeError(`Unexpected NAXIS${i + 1} value: ${value}`)
       }
     }
 
+    const { PCOUNT = 0, GCOUNT = 1, EXTEND } = structure
+    const XTENSION = structure.XTENSION === undefined
+      ? (this.isPrimary ? null : this.getValue("XTENSION")!)
+      : structure.XTENSION
+    const GROUPS = structure.GROUPS ?? (XTENSION === null && this.isRandomGroups)
+    if (GROUPS && XTENSION !== null) {
+      throw new TypeError("Random groups are only allowed in primary headers")
+    }
+    if (!Number.isInteger(PCOUNT) || PCOUNT < 0) {
+      throw new TypeError(`Unexpected PCOUNT value: ${PCOUNT}`)
+    }
+    if (!Number.isInteger(GCOUNT) || GCOUNT < 0) {
+      throw new TypeError(`Unexpected GCOUNT value: ${GCOUNT}`)
+    }
+
     const cards = [
-      Card.fromValue("SIMPLE", true, "Fits standard"),
+      ...XTENSION !== null
+        ? Card.buildString("XTENSION", XTENSION, "Extension type")
+        : [Card.fromValue("SIMPLE", true, "Fits standard")],
       Card.fromValue("BITPIX", BITPIX, "Bits per pixel"),
       Card.fromValue("NAXIS", axes.length, "Number of axes"),
       ...axes.map((value, i) => Card.fromValue(`NAXIS${i + 1}`, value, "Axis length")),
     ]
+    if (GROUPS) {
+      cards.push(Card.fromValue("GROUPS", true, "Random groups structure"))
+    }
+    if (XTENSION !== null || GROUPS) {
+      cards.push(
+        Card.fromValue("PCOUNT", PCOUNT, "Parameter count"),
+        Card.fromValue("GCOUNT", GCOUNT, "Group count"),
+      )
+    }
+    if (XTENSION === null && EXTEND !== undefined) {
+      cards.push(Card.fromValue("EXTEND", EXTEND, "File may contain extensions"))
+    }
 
     for (const card of this.#cards) {
-      if (card.keyword !== "SIMPLE" && card.keyword !== "BITPIX" && !card.keyword.startsWith("NAXIS")) {
-        cards.push(structuredClone(card))
+      if (card.keyword === "EXTEND") {
+        // EXTEND is only meaningful in primary headers
+        if (XTENSION === null && EXTEND === undefined) {
+          cards.push(card)
+        }
+      }
+      else if (!isStructuralKeyword(card.keyword)) {
+        cards.push(card)
+      }
+    }
+
+    return new FITSHeader(cards)
+  }
+
+  /**
+   * Creates a new table extension header from this one. The structural cards and the field definitions (TFIELDS,
+   * TTYPEn, TFORMn, etc.) are replaced by the ones describing the given table, while the rest of the cards are kept.
+   *
+   * **Warning**: This method does not check if the keywords are consistent with the data.
+   * It's intended to be called by {@link FITS}.
+   *
+   * @param {string} XTENSION The extension type (`BINTABLE` or `TABLE`).
+   * @param {FITSDataUnit} data The data unit of the table.
+   * @param {FITSHeaderEntry[]} keywords The keywords that describe the fields of the table (without TFIELDS).
+   * @param {number} TFIELDS The number of fields in each row.
+   * @returns {FITSHeader} The table extension header.
+   */
+  public copyWithTable(XTENSION: string, data: FITSDataUnit, keywords: FITSHeaderEntry[], TFIELDS: number): FITSHeader {
+    const header = this.copyWith(data.BITPIX, data.NAXISn, { XTENSION, PCOUNT: data.PCOUNT, GCOUNT: data.GCOUNT })
+    const rest = header.#cards.filter(card => !tableKeywordRegExp.test(card.keyword))
+    const mandatory = rest.findIndex(card => !isStructuralKeyword(card.keyword))
+
+    const cards = [
+      ...rest.slice(0, mandatory === -1 ? rest.length : mandatory),
+      Card.fromValue("TFIELDS", TFIELDS, "Number of fields in each row"),
+      ...keywords.flatMap(({ keyword, value, comment }) => header.#getReplacementCards(keyword, value, comment ?? null)),
+      ...mandatory === -1 ? [] : rest.slice(mandatory),
+    ]
+
+    return new FITSHeader(cards)
+  }
+
+  /**
+   * Creates a new random-groups primary header from this one. The structural cards and the parameter definitions
+   * (PTYPEn, PSCALn and PZEROn) are replaced by the ones describing the given groups, while the rest of the cards are
+   * kept.
+   *
+   * **Warning**: This method does not check if the keywords are consistent with the data.
+   * It's intended to be called by {@link FITS}.
+   *
+   * @param {FITSDataUnit} data The data unit of the random groups.
+   * @param {FITSHeaderEntry[]} keywords The keywords that describe the parameters of the groups.
+   * @returns {FITSHeader} The random-groups header.
+   */
+  public copyWithRandomGroups(data: FITSDataUnit, keywords: FITSHeaderEntry[]): FITSHeader {
+    const header = this.copyWith(data.BITPIX, data.NAXISn, { XTENSION: null, GROUPS: true, PCOUNT: data.PCOUNT, GCOUNT: data.GCOUNT })
+    const rest = header.#cards.filter(card => !groupParameterKeywordRegExp.test(card.keyword))
+    const mandatory = rest.findIndex(card => !isStructuralKeyword(card.keyword))
+
+    const cards = [
+      ...rest.slice(0, mandatory === -1 ? rest.length : mandatory),
+      ...keywords.flatMap(({ keyword, value, comment }) => header.#getReplacementCards(keyword, value, comment ?? null)),
+      ...mandatory === -1 ? [] : rest.slice(mandatory),
+    ]
+
+    return new FITSHeader(cards)
+  }
+
+  /**
+   * Creates the header of a tile-compressed image once it's decompressed, from the header of its binary table (see
+   * Section "10.1. Tiled image compression" of the FITS standard 4.0). The structural cards describe the image
+   * instead of the table, the table and compression keywords are removed, and the checksums of the original image
+   * (ZHECKSUM and ZDATASUM) replace the ones of the table. The image is always an extension (ZTENSION, or `IMAGE` if
+   * missing), since the table it comes from is one.
+   *
+   * **Warning**: This method does not check if the keywords are consistent with the data.
+   * It's intended to be called by {@link FITS}.
+   *
+   * @param {FITSBITPIX} BITPIX The number of bits per data value of the image (ZBITPIX).
+   * @param {number[]} axes The number of elements along each axis of the image (ZNAXISn).
+   * @returns {FITSHeader} The header of the image.
+   */
+  public copyWithDecompression(BITPIX: FITSBITPIX, axes: number[]): FITSHeader {
+    const header = this.copyWith(BITPIX, axes, {
+      XTENSION: this.getValue("ZTENSION") as string | undefined ?? "IMAGE",
+      PCOUNT: this.getValue("ZPCOUNT") as number | undefined ?? 0,
+      GCOUNT: this.getValue("ZGCOUNT") as number | undefined ?? 1,
+    })
+
+    const checksums = [["ZHECKSUM", "CHECKSUM"], ["ZDATASUM", "DATASUM"]] as const
+    const cards = header.#cards.filter(card => !tableKeywordRegExp.test(card.keyword)
+      && !compressionKeywordRegExp.test(card.keyword)
+      && !checksums.some(([, keyword]) => card.keyword === keyword))
+    for (const [original, keyword] of checksums) {
+      const value = this.getValue(original)
+      if (value !== undefined) {
+        cards.push(...header.#getReplacementCards(keyword, value, this.getComment(original) ?? null))
       }
     }
 
     return new FITSHeader(cards)
   }
 
+  /**
+   * Creates the header of a tile-compressed image from the header of the image, the reverse of
+   * {@link copyWithDecompression}. The structural cards describe the binary table, followed by its field definitions
+   * and the compression keywords. The structure of the image is kept in ZSIMPLE (and ZEXTEND) or ZTENSION, ZPCOUNT
+   * and ZGCOUNT, and its checksums in ZHECKSUM and ZDATASUM. The rest of the cards are kept.
+   *
+   * **Warning**: This method does not check if the keywords are consistent with the data.
+   * It's intended to be called by {@link FITS}.
+   *
+   * @param {FITSDataUnit} data The data unit of the binary table.
+   * @param {FITSHeaderEntry[]} keywords The keywords that describe the fields of the table (without TFIELDS), and the
+   *                                     compression keywords.
+   * @param {number} TFIELDS The number of fields in each row.
+   * @returns {FITSHeader} The header of the binary table.
+   */
+  public copyWithCompression(data: FITSDataUnit, keywords: FITSHeaderEntry[], TFIELDS: number): FITSHeader {
+    const structure: FITSHeaderEntry[] = this.isPrimary
+      ? [{ keyword: "ZSIMPLE", value: true, comment: "The image was a primary HDU" }]
+      : [
+          { keyword: "ZTENSION", value: this.getValue("XTENSION")!, comment: "Extension type of the image" },
+          { keyword: "ZPCOUNT", value: this.getValue("PCOUNT") ?? 0, comment: "Parameter count of the image" },
+          { keyword: "ZGCOUNT", value: this.getValue("GCOUNT") ?? 1, comment: "Group count of the image" },
+        ]
+    const EXTEND = this.getValue("EXTEND")
+    if (this.isPrimary && EXTEND !== undefined) {
+      structure.push({ keyword: "ZEXTEND", value: EXTEND, comment: "The image may be followed by extensions" })
+    }
+
+    const checksums = [["CHECKSUM", "ZHECKSUM"], ["DATASUM", "ZDATASUM"]] as const
+    for (const [keyword, compressed] of checksums) {
+      const value = this.getValue(keyword)
+      if (value !== undefined) {
+        structure.push({ keyword: compressed, value, comment: this.getComment(keyword) })
+      }
+    }
+
+    const header = new FITSHeader(this.#cards.filter(card => !compressionKeywordRegExp.test(card.keyword)
+      && !checksums.some(([keyword]) => card.keyword === keyword)))
+    return header.copyWithTable("BINTABLE", data, [...keywords, ...structure], TFIELDS)
+  }
+
+  /**
+   * Creates a copy of this header with the CHECKSUM and DATASUM cards of the given data unit (see
+   * {@link computeChecksum}). Both cards are reserved first (with a placeholder CHECKSUM), so that the sum of the
+   * header includes them; the encoded CHECKSUM has the same length as the placeholder, and doesn't move any card.
+   *
+   * **Warning**: The structural cards must already be the ones that will be written.
+   * It's intended to be called by {@link FITS} and {@link FITSFile}.
+   *
+   * @param {ArrayBuffer} data The data unit, as it will be written.
+   * @returns {FITSHeader} The header with the checksums.
+   */
+  public copyWithChecksums(data: ArrayBuffer): FITSHeader {
+    const header = new FITSHeader([...this.#cards])
+    const DATASUM = computeChecksum(new Uint8Array(data))
+    header.set("DATASUM", String(DATASUM), { comment: "Data unit checksum" })
+    header.set("CHECKSUM", "0000000000000000", { comment: "HDU checksum" })
+    header.set("CHECKSUM", encodeChecksum(computeChecksum(new Uint8Array(header.toBuffer()), DATASUM)))
+    return header
+  }
+
+  /**
+   * Creates a new header from this one for a slice of its data (see {@link FITSData.slice}). Besides replacing the
+   * structural cards, the linear WCS of every coordinate description (primary or alternative) is updated so that
+   * world coordinates are the same: CRPIXn is shifted to the start of the slice, and the steps are applied to CDELTn,
+   * PCi_j and CDi_j.
+   *
+   * **Warning**: This method does not check if the ranges are consistent with the data.
+   * It's intended to be called by {@link FITS}.
+   *
+   * @param {FITSDataUnit} data The sliced data unit.
+   * @param {Required<FITSDataSliceRange>[]} ranges The ranges along every axis of the original data.
+   * @returns {FITSHeader} The header of the slice.
+   */
+  public copyWithSlice(data: FITSDataUnit, ranges: Required<FITSDataSliceRange>[]): FITSHeader {
+    const header = this.copyWith(data.BITPIX, data.NAXISn)
+
+    const alternatives = new Set<string>()
+    const hasCD = new Set<string>()
+    for (const { keyword } of header.#cards) {
+      const axisMatch = wcsAxisKeywordRegExp.exec(keyword)
+      const matrixMatch = wcsMatrixKeywordRegExp.exec(keyword)
+      if (axisMatch) {
+        alternatives.add(axisMatch[1]!)
+      }
+      else if (matrixMatch) {
+        alternatives.add(matrixMatch[4]!)
+        if (matrixMatch[1] === "CD") {
+          hasCD.add(matrixMatch[4]!)
+        }
+      }
+    }
+
+    for (const a of alternatives) {
+      ranges.forEach(({ start, step }, i) => {
+        if (start === 1 && step === 1) {
+          return
+        }
+
+        // CRPIXn defaults to 0 and CDELTn to 1
+        const CRPIX = header.getValue(`CRPIX${i + 1}${a}`) as number | undefined ?? 0
+        header.set(`CRPIX${i + 1}${a}`, (CRPIX - start) / step + 1)
+        if (step !== 1 && !hasCD.has(a)) {
+          const CDELT = header.getValue(`CDELT${i + 1}${a}`) as number | undefined ?? 1
+          header.set(`CDELT${i + 1}${a}`, CDELT * step)
+        }
+      })
+    }
+
+    // Pixel j is stretched by its step. CDi_j absorbs it, while PCi_j shares it with CDELTi
+    for (const { keyword } of [...header.#cards]) {
+      const match = wcsMatrixKeywordRegExp.exec(keyword)
+      if (!match) {
+        continue
+      }
+
+      const [, matrix, i, j] = match
+      const stepI = ranges[Number(i) - 1]?.step ?? 1
+      const stepJ = ranges[Number(j) - 1]?.step ?? 1
+      const value = header.getValue(keyword) as number
+      header.set(keyword, matrix === "CD" ? value * stepJ : value * stepJ / stepI)
+    }
+
+    return header
+  }
+
+  /**
+   * Creates a new extension header from this one, keeping the data type and axes length. Primary-only cards (SIMPLE
+   * and EXTEND) are replaced by XTENSION, PCOUNT and GCOUNT.
+   *
+   * @param {string} [XTENSION] The extension type.
+   * @returns {FITSHeader} The extension header.
+   */
+  public toExtension(XTENSION: string = "IMAGE"): FITSHeader {
+    return this.copyWith(this.#getBITPIX(), this.#getAxes(), {
+      XTENSION,
+      PCOUNT: this.getValue("PCOUNT") ?? 0,
+      GCOUNT: this.getValue("GCOUNT") ?? 1,
+    })
+  }
+
+  /**
+   * Creates a new primary header from this one, keeping the data type and axes length. Extension-only cards
+   * (XTENSION, PCOUNT and GCOUNT) are replaced by SIMPLE.
+   *
+   * @returns {FITSHeader} The primary header.
+   * @throws {TypeError} If the extension can't be represented as a primary HDU (i.e. PCOUNT is not 0 or GCOUNT is not
+   *                     1).
+   */
+  public toPrimary(): FITSHeader {
+    const PCOUNT = this.getValue("PCOUNT") ?? 0
+    const GCOUNT = this.getValue("GCOUNT") ?? 1
+    if (PCOUNT !== 0 || GCOUNT !== 1) {
+      throw new TypeError(`Cannot convert to a primary header: expected PCOUNT = 0 and GCOUNT = 1, but got ${PCOUNT} and ${GCOUNT}`)
+    }
+
+    return this.copyWith(this.#getBITPIX(), this.#getAxes(), { XTENSION: null, GROUPS: false })
+  }
+
   /**
    * Returns the FITS header as a JSON-serializable object.
    */
@@ -628,29 +1058,42 @@ export class FITSHeader {
   }
 
   /**
-   * Parses a FITS file to get its header.
+   * Parses a FITS file to get the header of one of its HDUs. Both primary and extension headers are supported.
    *
    * @param {ArrayBuffer} file The FITS file to parse.
-   * @returns {FITSHeaderParsedResult} The FITS header and the number of bytes read.
+   * @param {number} [offset] The offset where the header starts (in bytes, 0-based).
+   * @param {FITSParseOptions} [options] How to parse the header.
+   * @returns {FITSHeaderParsedResult} The FITS header and the number of bytes read (including the END card).
    * @throws {Error} If the file is not a valid FITS file.
    */
-  static fromBuffer(file: ArrayBuffer): FITSHeaderParsedResult {
+  static fromBuffer(file: ArrayBuffer, offset: number = 0, options: FITSParseOptions = {}): FITSHeaderParsedResult {
     const ascii = new TextDecoder("ascii")
     const cards: Card[] = []
 
-    let offset = 0
-    for (;; offset += Card.LENGTH) {
+    let bytesRead = 0
+    for (;; bytesRead += Card.LENGTH) {
       // Validate the record size
-      const buffer = file.slice(offset, offset + Card.LENGTH)
+      const buffer = file.slice(offset + bytesRead, offset + bytesRead + Card.LENGTH)
       if (buffer.byteLength < Card.LENGTH) {
         throw new Error("Unexpected end of file")
       }
 
       // Parse the record
       const record = ascii.decode(buffer)
-      const card = Card.fromImage(record)
+      let card: Card
+      try {
+        card = Card.fromImage(record)
+      }
+      catch (error) {
+        // A malformed END card can't be skipped, since the header would never end
+        if (!options.lenient || record.startsWith("END ")) {
+          throw error
+        }
+        card = Card.fromInvalidImage(record, (error as Error).message)
+      }
 
       if (card.keyword === "END") {
+        bytesRead += Card.LENGTH
         break
       }
       cards.push(card)
@@ -664,12 +1107,23 @@ export class FITSHeader {
     const header = new FITSHeader(cards)
 
     // Validate mandatory headers
-    const SIMPLE = header.getValues("SIMPLE")
-    if (SIMPLE.length !== 1) {
-      throw new Error("Missing SIMPLE header")
+    if (header.isPrimary) {
+      const SIMPLE = header.getValues("SIMPLE")
+      if (SIMPLE.length !== 1) {
+        throw new Error("Missing SIMPLE header")
+      }
+      else if (SIMPLE[0] !== true) {
+        throw new TypeError(`Unexpected SIMPLE value: ${SIMPLE[0]}`)
+      }
     }
-    else if (SIMPLE[0] !== true) {
-      throw new TypeError(`Unexpected SIMPLE value: ${SIMPLE[0]}`)
+    else {
+      const XTENSION = header.getValues("XTENSION")
+      if (XTENSION.length !== 1) {
+        throw new Error("Too many XTENSION headers")
+      }
+      else if (XTENSION[0].trim() === "") {
+        throw new TypeError("Unexpected empty XTENSION value")
+      }
     }
 
     const BITPIX = header.getValues("BITPIX")
@@ -693,30 +1147,87 @@ export class FITSHeader {
       if (values.length !== 1) {
         throw new RangeError(`Missing NAXIS${i} header`)
       }
-      else if (typeof values[0] !== "number" || !Number.isInteger(values[0]) || values[0] <= 0) {
+      else if (typeof values[0] !== "number" || !Number.isInteger(values[0]) || values[0] < 0) {
         throw new TypeError(`Unexpected NAXIS${i} value: ${values[0]}`)
       }
     }
 
+    if (header.isRandomGroups) {
+      if (NAXIS[0] < 1 || header.getValue("NAXIS1") !== 0) {
+        throw new TypeError(`Unexpected NAXIS1 value for random groups: ${header.getValue("NAXIS1")}`)
+      }
+    }
+
+    if (!header.isPrimary || header.isRandomGroups) {
+      const PCOUNT = header.getValues("PCOUNT")
+      if (PCOUNT.length !== 1) {
+        throw new Error("Missing PCOUNT header")
+      }
+      else if (PCOUNT[0] < 0) {
+        throw new TypeError(`Unexpected PCOUNT value: ${PCOUNT[0]}`)
+      }
+
+      const GCOUNT = header.getValues("GCOUNT")
+      if (GCOUNT.length !== 1) {
+        throw new Error("Missing GCOUNT header")
+      }
+      else if (GCOUNT[0] < 0) {
+        throw new TypeError(`Unexpected GCOUNT value: ${GCOUNT[0]}`)
+      }
+
+      // IMAGE extensions share the data layout of primary HDUs
+      const XTENSION = header.getValue("XTENSION")
+      if (XTENSION === "IMAGE") {
+        if (PCOUNT[0] !== 0) {
+          throw new TypeError(`Unexpected PCOUNT value for IMAGE extension: ${PCOUNT[0]}`)
+        }
+        if (GCOUNT[0] !== 1) {
+          throw new TypeError(`Unexpected GCOUNT value for IMAGE extension: ${GCOUNT[0]}`)
+        }
+      }
+
+      if (XTENSION === "BINTABLE" || XTENSION === "TABLE") {
+        if (BITPIX[0] !== 8) {
+          throw new TypeError(`Unexpected BITPIX value for ${XTENSION} extension: ${BITPIX[0]}`)
+        }
+        if (NAXIS[0] !== 2) {
+          throw new TypeError(`Unexpected NAXIS value for ${XTENSION} extension: ${NAXIS[0]}`)
+        }
+        if (XTENSION === "TABLE" && PCOUNT[0] !== 0) {
+          throw new TypeError(`Unexpected PCOUNT value for TABLE extension: ${PCOUNT[0]}`)
+        }
+        if (GCOUNT[0] !== 1) {
+          throw new TypeError(`Unexpected GCOUNT value for ${XTENSION} extension: ${GCOUNT[0]}`)
+        }
+
+        const TFIELDS = header.getValues("TFIELDS")
+        if (TFIELDS.length !== 1) {
+          throw new Error("Missing TFIELDS header")
+        }
+        else if (TFIELDS[0] < 0 || TFIELDS[0] > 999) {
+          throw new TypeError(`Unexpected TFIELDS value: ${TFIELDS[0]}`)
+        }
+      }
+    }
+
     const EXTEND = header.getValues("EXTEND")
     if (EXTEND.length > 1) {
       throw new Error("Too many EXTEND headers")
     }
-    else if (EXTEND[0] === true) {
-      throw new Error(`Extended FITS files are not supported`)
-    }
 
-    return { header, bytesRead: offset }
+    return { header, bytesRead }
   }
 
   /**
-   * Creates a new FITS header. It will contain the mandatory headers SIMPLE, BITPIX, and NAXIS.
+   * Creates a new FITS header. It will contain the mandatory headers SIMPLE, BITPIX, and NAXIS. If `XTENSION` is
+   * specified, it will be an extension header with XTENSION, BITPIX, NAXIS, PCOUNT and GCOUNT instead.
    *
    * @param {FITSBITPIX} BITPIX The number of bits per data value.
    * @param {number[]} axes The number of elements along each axis.
+   * @param {string | null} [XTENSION] The extension type, or `null` for a primary header.
    * @returns {FITSHeader} The FITS header.
    */
-  static basic(BITPIX: FITSBITPIX, axes: number[]): FITSHeader {
-    return new FITSHeader([]).copyWith(BITPIX, axes)
+  static basic(BITPIX: FITSBITPIX, axes: number[], XTENSION: string | null = null): FITSHeader {
+    return new FITSHeader([]).copyWith(BITPIX, axes, { XTENSION })
   }
 }
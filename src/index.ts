@@ -1,3 +1,21 @@
+export type { FITSASCIITableCell, FITSASCIITableColumn, FITSASCIITableColumnData, FITSASCIITableColumnInput, FITSASCIITableRow } from "./ascii-table.js"
+export { FITSASCIITable } from "./ascii-table.js"
+export type { FITSBinaryTableArray, FITSBinaryTableCell, FITSBinaryTableColumn, FITSBinaryTableColumnData, FITSBinaryTableColumnInput, FITSBinaryTableDescriptor, FITSBinaryTableRow } from "./binary-table.js"
+export { FITSBinaryTable } from "./binary-table.js"
 export type { FITSCardValue } from "./card.js"
+export type { FITSBufferOptions, FITSChecksumResult, FITSChecksumStatus } from "./checksum.js"
+export type { FITSCompressionOptions } from "./compression.js"
+export type { FITSBigIntTypedArray, FITSDataScaling, FITSDataSliceRange, FITSDataTypedArrayOptions, FITSPointValue } from "./data.js"
 export { FITSBITPIX_ALIAS as BITPIX } from "./data.js"
 export { FITS } from "./FITS.js"
+export { FITSFile } from "./FITSFile.js"
+export type { FITSParseOptions } from "./header.js"
+export { FITSLazyFile, FITSLazyHDU } from "./lazy.js"
+export type { FITSRandomGroup, FITSRandomGroupInput, FITSRandomGroupsArray, FITSRandomGroupsInput, FITSRandomGroupsParameter, FITSRandomGroupsParameterInput } from "./random-groups.js"
+export { FITSRandomGroups } from "./random-groups.js"
+export type { FITSByteRangeSource, FITSFileHandle } from "./source.js"
+export { FITSBlobSource, FITSFileHandleSource, FITSHTTPSource } from "./source.js"
+export type { FITSStreamDataEvent, FITSStreamEvent, FITSStreamHeaderEvent, FITSStreamOptions, FITSStreamSource } from "./stream.js"
+export type { FITSDiagnostic, FITSDiagnosticSeverity } from "./validate.js"
+export type { FITSWCSCelestial } from "./wcs.js"
+export { FITSWCS } from "./wcs.js"
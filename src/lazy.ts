@@ -0,0 +1,273 @@
+import type { FITSBITPIX, FITSDataSliceRange, FITSDataUnit, FITSPointValue } from "./data.js"
+import type { FITSHeaderParsedResult } from "./header.js"
+import type { FITSByteRangeSource } from "./source.js"
+import { FITSData, normalizeSliceRanges } from "./data.js"
+import { alignToBlock, BLOCK_SIZE, FITS, getHeaderDataByteLength } from "./FITS.js"
+import { FITSHeader, hasEndCard, isExtensionStart } from "./header.js"
+
+// Most headers fit in a few blocks, so they're read in batches to save requests
+const HEADER_BLOCKS_PER_READ = 4
+
+/**
+ * Reads the header that starts at the given offset, block by block until the END card.
+ *
+ * @param {FITSByteRangeSource} source The source of the file.
+ * @param {number} offset The offset of the header (in bytes, 0-based).
+ * @param {boolean} primary Whether the header is the primary one.
+ * @returns {Promise<FITSHeaderParsedResult | null>} The header and its size (in bytes, without padding), or `null` if
+ *                                                 there are no more extensions.
+ * @throws {Error} If the file ends before the END card, or the header is not valid.
+ */
+async function readHeaderAt(source: FITSByteRangeSource, offset: number, primary: boolean): Promise<FITSHeaderParsedResult | null> {
+  const blocks: Uint8Array[] = []
+
+  while (true) {
+    const length = HEADER_BLOCKS_PER_READ * BLOCK_SIZE
+    const bytes = await source.read(offset + blocks.length * BLOCK_SIZE, length)
+
+    if (!primary && blocks.length === 0 && !isExtensionStart(bytes)) {
+      return null
+    }
+
+    for (let i = 0; i + BLOCK_SIZE <= bytes.byteLength; i += BLOCK_SIZE) {
+      const block = bytes.subarray(i, i + BLOCK_SIZE)
+      blocks.push(block)
+      if (hasEndCard(block)) {
+        const buffer = new Uint8Array(blocks.length * BLOCK_SIZE)
+        blocks.forEach((headerBlock, n) => buffer.set(headerBlock, n * BLOCK_SIZE))
+        return FITSHeader.fromBuffer(buffer.buffer)
+      }
+    }
+
+    if (bytes.byteLength < length) {
+      throw new Error("Unexpected end of file")
+    }
+  }
+}
+
+/**
+ * Reads exactly the given number of bytes.
+ *
+ * @param {FITSByteRangeSource} source The source of the file.
+ * @param {number} offset The offset of the first byte (0-based).
+ * @param {number} length The number of bytes to read.
+ * @returns {Promise<Uint8Array>} The bytes.
+ * @throws {RangeError} If the file ends before the last byte.
+ */
+async function readExactly(source: FITSByteRangeSource, offset: number, length: number): Promise<Uint8Array> {
+  const bytes = await source.read(offset, length)
+  if (bytes.byteLength !== length) {
+    throw new RangeError(`Expected ${length} bytes of data, but got ${bytes.byteLength}`)
+  }
+  return bytes
+}
+
+/**
+ * An HDU whose header has been read, but whose data is only read when needed.
+ */
+export class FITSLazyHDU {
+  readonly #source: FITSByteRangeSource
+
+  /**
+   * **Warning**: This constructor does not read or check anything.
+   * It's intended to be called by {@link FITSLazyFile}.
+   *
+   * @param {FITSByteRangeSource} source The source of the file.
+   * @param {FITSHeader} header The header of the HDU.
+   * @param {number} offset The offset where the HDU starts (in bytes, 0-based).
+   * @param {number} dataOffset The offset where the data unit starts (in bytes, 0-based).
+   */
+  constructor(
+    source: FITSByteRangeSource,
+    readonly header: FITSHeader,
+    readonly offset: number,
+    readonly dataOffset: number,
+  ) {
+    this.#source = source
+  }
+
+  /**
+   * The size of the data unit in bytes, without padding.
+   */
+  public get dataByteLength(): number {
+    return getHeaderDataByteLength(this.header)
+  }
+
+  /**
+   * Returns whether the data unit of the HDU is an image (see {@link FITS.isImage}), which is required to read
+   * points and slices.
+   */
+  public isImage(): boolean {
+    const XTENSION = this.header.getValue("XTENSION")
+    return !this.header.isRandomGroups && XTENSION !== "BINTABLE" && XTENSION !== "TABLE"
+  }
+
+  /**
+   * Reads the whole HDU and parses it like {@link FITS.fromBufferAt}.
+   *
+   * @returns {Promise<FITS<FITSDataUnit>>} The HDU.
+   * @throws {Error} If the data unit is not complete or not valid.
+   */
+  public async load(): Promise<FITS<FITSDataUnit>> {
+    const bytes = await readExactly(this.#source, this.offset, this.dataOffset - this.offset + this.dataByteLength)
+    return FITS.fromBufferAt(bytes.slice().buffer, 0).fits
+  }
+
+  /**
+   * Reads a subset of the image, like {@link FITSData.slice}. Only the rows of the first axis that are inside the
+   * ranges are read, merging contiguous ones into a single read.
+   *
+   * @param {FITSDataSliceRange[]} ranges The 1-based, inclusive ranges along each axis. Missing ranges select the
+   *                                      whole axis.
+   * @returns {Promise<FITSData>} The sliced data.
+   * @throws {TypeError} If the HDU is not an image.
+   * @throws {RangeError} If there are more ranges than axes, or a range is empty or out of bounds.
+   */
+  public async slice(ranges: FITSDataSliceRange[]): Promise<FITSData> {
+    if (!this.isImage()) {
+      throw new TypeError("Only images can be read by points or slices")
+    }
+
+    const BITPIX = this.header.getValue("BITPIX") as FITSBITPIX
+    const NAXISn = Array.from({ length: this.header.getValue("NAXIS")! }, (_, i) => this.header.getValue(`NAXIS${i + 1}`)!)
+    const normalized = normalizeSliceRanges(ranges, NAXISn)
+    const bytesPerPoint = Math.abs(BITPIX) / 8
+
+    // Rows along the first axis are read whole (from start to end), and the step is applied afterwards
+    const [first, ...rest] = normalized
+    if (!first) {
+      return FITSData.fromHeader(this.header, new ArrayBuffer(0))
+    }
+    const rowAxes = [first.end - first.start + 1, ...rest.map(({ start, end, step }) => Math.floor((end - start) / step) + 1)]
+    const rowLength = rowAxes[0]! * bytesPerPoint
+    const output = new Uint8Array(rowAxes.reduce((accum, len) => accum * len, bytesPerPoint))
+
+    const strides: number[] = []
+    for (let i = 0, stride = bytesPerPoint; i < NAXISn.length; i++) {
+      strides.push(stride)
+      stride *= NAXISn[i]!
+    }
+
+    // Offsets and lengths of the reads, merged when they are contiguous in both the file and the output
+    const reads: { offset: number, length: number }[] = []
+    const coords = normalized.map(({ start }) => start)
+    for (let outputOffset = 0; outputOffset < output.length; outputOffset += rowLength) {
+      const offset = coords.reduce((accum, coord, i) => accum + (coord - 1) * strides[i]!, 0)
+      const last = reads.at(-1)
+      if (last && last.offset + last.length === offset) {
+        last.length += rowLength
+      }
+      else {
+        reads.push({ offset, length: rowLength })
+      }
+
+      for (let i = 1; i < coords.length; i++) {
+        const { start, end, step } = normalized[i]!
+        coords[i]! += step
+        if (coords[i]! <= end) {
+          break
+        }
+        coords[i] = start
+      }
+    }
+
+    let outputOffset = 0
+    for (const { offset, length } of reads) {
+      output.set(await readExactly(this.#source, this.dataOffset + offset, length), outputOffset)
+      outputOffset += length
+    }
+
+    const data = FITSData.fromHeader(this.header.copyWith(BITPIX, rowAxes), output.buffer)
+    return first.step === 1 ? data : data.slice([{ step: first.step }])
+  }
+
+  /**
+   * Reads one of the points of the image, like {@link FITSData.getPoint}.
+   *
+   * @param {...number} coords The 1-based coordinates of the data point.
+   * @returns {Promise<FITSPointValue>} The stored value of the data point.
+   * @throws {TypeError} If the HDU is not an image.
+   * @throws {RangeError} If the coordinates are out of bounds.
+   */
+  public async getPoint(...coords: number[]): Promise<FITSPointValue> {
+    const data = await this.#slicePoint(coords)
+    return data.getPoint(...coords.map(() => 1))
+  }
+
+  /**
+   * Reads the physical value of one of the points of the image, like {@link FITSData.getPhysicalPoint}.
+   *
+   * @param {...number} coords The 1-based coordinates of the data point.
+   * @returns {Promise<number>} The physical value of the data point.
+   * @throws {TypeError} If the HDU is not an image.
+   * @throws {RangeError} If the coordinates are out of bounds.
+   */
+  public async getPhysicalPoint(...coords: number[]): Promise<number> {
+    const data = await this.#slicePoint(coords)
+    return data.getPhysicalPoint(...coords.map(() => 1))
+  }
+
+  async #slicePoint(coords: number[]): Promise<FITSData> {
+    const NAXIS = this.header.getValue("NAXIS")
+    if (coords.length !== NAXIS) {
+      throw new RangeError(`Expected ${NAXIS} coordinates, but got ${coords.length}`)
+    }
+    return this.slice(coords.map(coord => ({ start: coord, end: coord })))
+  }
+}
+
+/**
+ * A FITS file that is read lazily from a {@link FITSByteRangeSource}: only the headers are read when it's opened, and
+ * each data unit is read when (and as much as) it's needed.
+ */
+export class FITSLazyFile {
+  private constructor(
+    /** The HDUs of the file, in order. The first one is always the primary HDU. */
+    readonly hdus: FITSLazyHDU[],
+  ) {}
+
+  /**
+   * Returns the primary HDU.
+   */
+  public get primary(): FITSLazyHDU {
+    return this.hdus[0]!
+  }
+
+  /**
+   * Returns the extensions (i.e. every HDU but the primary one).
+   */
+  public get extensions(): FITSLazyHDU[] {
+    return this.hdus.slice(1)
+  }
+
+  /**
+   * Opens a FITS file, reading the headers of all of its HDUs and skipping their data.
+   *
+   * @param {FITSByteRangeSource} source The source of the file.
+   * @returns {Promise<FITSLazyFile>} The FITS file.
+   * @throws {Error} If a header is not valid or the file ends before the END card.
+   */
+  static async open(source: FITSByteRangeSource): Promise<FITSLazyFile> {
+    const hdus: FITSLazyHDU[] = []
+
+    let offset = 0
+    while (true) {
+      const result = await readHeaderAt(source, offset, hdus.length === 0)
+      if (!result) {
+        break
+      }
+
+      const { header, bytesRead } = result
+      if (hdus.length === 0 && !header.isPrimary) {
+        throw new Error("The first HDU must be a primary HDU")
+      }
+
+      const dataOffset = offset + alignToBlock(bytesRead)
+      const hdu = new FITSLazyHDU(source, header, offset, dataOffset)
+      hdus.push(hdu)
+      offset = dataOffset + alignToBlock(hdu.dataByteLength)
+    }
+
+    return new FITSLazyFile(hdus)
+  }
+}
@@ -0,0 +1,455 @@
+/**
+ * @fileoverview
+ * Spherical projections are defined in "Representations of celestial coordinates in FITS" (Calabretta and Greisen,
+ * 2002). Each projection converts between intermediate world coordinates (x, y) on the plane of projection and native
+ * spherical coordinates (φ, θ), all of them in degrees. The zenithal, cylindrical, pseudo-cylindrical and conic
+ * families are supported, with their parameters given by PVi_m on the latitude axis.
+ *
+ * Points outside the boundary of a projection (or hidden by it) are converted to NaN.
+ */
+
+const R0 = 180 / Math.PI
+
+// Trigonometric functions in degrees
+
+export function sind(angle: number): number {
+  return Math.sin(angle / R0)
+}
+
+export function cosd(angle: number): number {
+  return Math.cos(angle / R0)
+}
+
+export function tand(angle: number): number {
+  return Math.tan(angle / R0)
+}
+
+// The arguments of inverse functions are clamped, since rounding errors can push them slightly out of [-1, 1]
+export function asind(value: number): number {
+  return Math.asin(Math.min(Math.max(value, -1), 1)) * R0
+}
+
+export function atand(value: number): number {
+  return Math.atan(value) * R0
+}
+
+export function atan2d(y: number, x: number): number {
+  return Math.atan2(y, x) * R0
+}
+
+/**
+ * A spherical projection.
+ */
+export interface FITSProjection {
+  /** The native longitude of the fiducial point, in degrees. */
+  phi0: number
+  /** The native latitude of the fiducial point, in degrees. */
+  theta0: number
+  /**
+   * Converts intermediate world coordinates to native spherical coordinates (the deprojection).
+   *
+   * @param {number} x The intermediate world coordinate of the longitude axis, in degrees.
+   * @param {number} y The intermediate world coordinate of the latitude axis, in degrees.
+   * @returns {[phi: number, theta: number]} The native longitude and latitude, in degrees.
+   */
+  toNative: (x: number, y: number) => [phi: number, theta: number]
+  /**
+   * Converts native spherical coordinates to intermediate world coordinates (the projection).
+   *
+   * @param {number} phi The native longitude, in degrees.
+   * @param {number} theta The native latitude, in degrees.
+   * @returns {[x: number, y: number]} The intermediate world coordinates, in degrees.
+   */
+  fromNative: (phi: number, theta: number) => [x: number, y: number]
+}
+
+/**
+ * Creates a projection from its parameters, i.e. the values of PVi_m on the latitude axis by `m` (`undefined` if not
+ * present).
+ */
+type FITSProjectionFactory = (parameters: (number | undefined)[]) => FITSProjection
+
+/**
+ * Creates a zenithal projection, where the native pole is the fiducial point and the radius R(θ) only depends on the
+ * native latitude (see Section "5.1. Zenithal (azimuthal) projections").
+ *
+ * @param {(theta: number) => number} getRadius Returns R(θ), or NaN if θ is not visible.
+ * @param {(radius: number) => number} getLatitude Returns θ(R), or NaN if R is out of bounds.
+ * @returns {FITSProjection} The projection.
+ */
+function zenithal(getRadius: (theta: number) => number, getLatitude: (radius: number) => number): FITSProjection {
+  return {
+    phi0: 0,
+    theta0: 90,
+    toNative: (x, y) => {
+      const radius = Math.hypot(x, y)
+      return [radius === 0 ? 0 : atan2d(x, -y), getLatitude(radius)]
+    },
+    fromNative: (phi, theta) => {
+      const radius = getRadius(theta)
+      return [radius * sind(phi), -radius * cosd(phi)]
+    },
+  }
+}
+
+/**
+ * Creates a conic projection, with its apex at the native pole and its standard parallels at θa ± η (see Section
+ * "5.5. Conic projections").
+ *
+ * @param {number} thetaA The native latitude θa (PVi_1), which is also the one of the fiducial point.
+ * @param {number} C The constant of the cone, which scales the native longitude.
+ * @param {(theta: number) => number} getRadius Returns R(θ), or NaN if θ is not valid.
+ * @param {(radius: number) => number} getLatitude Returns θ(R), or NaN if R is out of bounds.
+ * @returns {FITSProjection} The projection.
+ */
+function conic(thetaA: number, C: number, getRadius: (theta: number) => number, getLatitude: (radius: number) => number): FITSProjection {
+  const Y0 = getRadius(thetaA)
+  return {
+    phi0: 0,
+    theta0: thetaA,
+    toNative: (x, y) => {
+      // The radius has the sign of θa
+      const radius = Math.sign(thetaA) * Math.hypot(x, Y0 - y)
+      return [radius === 0 ? 0 : atan2d(x / radius, (Y0 - y) / radius) / C, getLatitude(radius)]
+    },
+    fromNative: (phi, theta) => {
+      const radius = getRadius(theta)
+      return [radius * sind(C * phi), -radius * cosd(C * phi) + Y0]
+    },
+  }
+}
+
+/**
+ * Returns the parameters of a conic projection: θa (PVi_1, required) and η (PVi_2, which defaults to 0).
+ *
+ * @param {(number | undefined)[]} parameters The parameters of the projection.
+ * @param {string} code The code of the projection.
+ * @returns {[thetaA: number, eta: number]} The parameters.
+ * @throws {TypeError} If θa is missing or not valid.
+ */
+function getConicParameters(parameters: (number | undefined)[], code: string): [thetaA: number, eta: number] {
+  const [, thetaA, eta = 0] = parameters
+  if (thetaA === undefined || thetaA === 0 || Math.abs(thetaA) >= 90) {
+    throw new TypeError(`The ${code} projection requires a PVi_1 between -90 and 90 (excluding 0), but got ${thetaA}`)
+  }
+  return [thetaA, eta]
+}
+
+const PROJECTIONS: Record<string, FITSProjectionFactory> = {
+  // Zenithal perspective (μ = PVi_1, γ = PVi_2)
+  AZP: ([, mu = 0, gamma = 0]) => {
+    if (mu === -1) {
+      throw new TypeError("The AZP projection requires PVi_1 to be different from -1")
+    }
+    // Points beyond the limb (for the far-side perspective) or the horizon are not visible
+    const limit = Math.abs(mu) > 1 ? asind(-1 / mu) : -90
+    return {
+      phi0: 0,
+      theta0: 90,
+      toNative: (x, y) => {
+        const yc = y * cosd(gamma)
+        const radius = Math.hypot(x, yc)
+        if (radius === 0) {
+          return [0, 90]
+        }
+
+        const rho = radius / (R0 * (mu + 1) + y * sind(gamma))
+        const psi = atan2d(1, rho)
+        const s = rho * mu / Math.sqrt(rho * rho + 1)
+        if (Math.abs(s) > 1) {
+          return [Number.NaN, Number.NaN]
+        }
+
+        // Of the two solutions, the one closer to the pole is kept
+        const omega = asind(s)
+        let a = psi - omega
+        let b = psi + omega + 180
+        if (a > 90) a -= 360
+        if (b > 90) b -= 360
+        const theta = Math.max(a, b)
+        return [atan2d(x, -yc), theta < -90 ? Number.NaN : theta]
+      },
+      fromNative: (phi, theta) => {
+        const denominator = mu + sind(theta) + cosd(theta) * cosd(phi) * tand(gamma)
+        if (denominator <= 0 || theta < limit) {
+          return [Number.NaN, Number.NaN]
+        }
+        const radius = R0 * (mu + 1) * cosd(theta) / denominator
+        return [radius * sind(phi), -radius * cosd(phi) / cosd(gamma)]
+      },
+    }
+  },
+  // Gnomonic
+  TAN: () => zenithal(
+    theta => theta > 0 ? R0 * cosd(theta) / sind(theta) : Number.NaN,
+    radius => atan2d(R0, radius),
+  ),
+  // Stereographic
+  STG: () => zenithal(
+    theta => theta > -90 ? 2 * R0 * cosd(theta) / (1 + sind(theta)) : Number.NaN,
+    radius => 90 - 2 * atand(radius / (2 * R0)),
+  ),
+  // Slant orthographic (ξ = PVi_1, η = PVi_2), which is the orthographic projection if both are 0
+  SIN: ([, xi = 0, eta = 0]) => ({
+    phi0: 0,
+    theta0: 90,
+    toNative: (x, y) => {
+      const X = x / R0
+      const Y = y / R0
+      const radius2 = X * X + Y * Y
+
+      let theta: number
+      let z: number
+      if (radius2 < 1e-10) {
+        // Close to the native pole, where sin(θ) is too close to 1 to give θ accurately
+        theta = 90 - R0 * Math.sqrt(radius2 / (1 + X * xi + Y * eta))
+        z = radius2 / 2
+      }
+      else {
+        // sin(θ) is the largest root of a quadratic equation, which is 1 - R² for the orthographic projection
+        const u = X - xi
+        const v = Y - eta
+        const a = xi * xi + eta * eta + 1
+        const b = xi * u + eta * v
+        const c = u * u + v * v - 1
+        const discriminant = b * b - a * c
+        if (discriminant < 0) {
+          return [Number.NaN, Number.NaN]
+        }
+        const sinTheta = (-b + Math.sqrt(discriminant)) / a
+        if (Math.abs(sinTheta) > 1 + 1e-12) {
+          return [Number.NaN, Number.NaN]
+        }
+        theta = asind(sinTheta)
+        z = 1 - sinTheta
+      }
+
+      const phi = X - xi * z === 0 && Y - eta * z === 0 ? 0 : atan2d(X - xi * z, -(Y - eta * z))
+      return [phi, theta]
+    },
+    fromNative: (phi, theta) => {
+      // Only the hemisphere that faces the observer is visible
+      if (theta < -atand(xi * sind(phi) - eta * cosd(phi))) {
+        return [Number.NaN, Number.NaN]
+      }
+      const z = 1 - sind(theta)
+      return [R0 * (cosd(theta) * sind(phi) + xi * z), -R0 * (cosd(theta) * cosd(phi) - eta * z)]
+    },
+  }),
+  // Zenithal equidistant
+  ARC: () => zenithal(
+    theta => 90 - theta,
+    radius => radius <= 180 ? 90 - radius : Number.NaN,
+  ),
+  // Zenithal equal-area
+  ZEA: () => zenithal(
+    theta => 2 * R0 * sind((90 - theta) / 2),
+    radius => radius <= 2 * R0 ? 90 - 2 * asind(radius / (2 * R0)) : Number.NaN,
+  ),
+
+  // Cylindrical perspective (μ = PVi_1, λ = PVi_2)
+  CYP: ([, mu = 1, lambda = 1]) => {
+    if (lambda === 0 || mu === -lambda) {
+      throw new TypeError(`The CYP projection requires PVi_2 to be different from 0 and -PVi_1`)
+    }
+    return {
+      phi0: 0,
+      theta0: 0,
+      toNative: (x, y) => {
+        const eta = y / (R0 * (mu + lambda))
+        const s = eta * mu / Math.sqrt(eta * eta + 1)
+        return [x / lambda, Math.abs(s) > 1 ? Number.NaN : atan2d(eta, 1) + asind(s)]
+      },
+      fromNative: (phi, theta) => {
+        const denominator = mu + cosd(theta)
+        return denominator === 0
+          ? [Number.NaN, Number.NaN]
+          : [lambda * phi, R0 * (mu + lambda) * sind(theta) / denominator]
+      },
+    }
+  },
+  // Cylindrical equal-area (λ = PVi_1)
+  CEA: ([, lambda = 1]) => {
+    if (lambda <= 0 || lambda > 1) {
+      throw new TypeError(`The CEA projection requires a PVi_1 between 0 (excluded) and 1, but got ${lambda}`)
+    }
+    return {
+      phi0: 0,
+      theta0: 0,
+      toNative: (x, y) => {
+        const s = lambda * y / R0
+        return [x, Math.abs(s) > 1 ? Number.NaN : asind(s)]
+      },
+      fromNative: (phi, theta) => [phi, R0 * sind(theta) / lambda],
+    }
+  },
+  // Plate carrée
+  CAR: () => ({
+    phi0: 0,
+    theta0: 0,
+    toNative: (x, y) => [x, Math.abs(y) > 90 ? Number.NaN : y],
+    fromNative: (phi, theta) => [phi, theta],
+  }),
+  // Mercator
+  MER: () => ({
+    phi0: 0,
+    theta0: 0,
+    toNative: (x, y) => [x, 2 * atand(Math.exp(y / R0)) - 90],
+    fromNative: (phi, theta) => Math.abs(theta) < 90
+      ? [phi, R0 * Math.log(tand((90 + theta) / 2))]
+      : [Number.NaN, Number.NaN],
+  }),
+
+  // Sanson-Flamsteed
+  SFL: () => ({
+    phi0: 0,
+    theta0: 0,
+    toNative: (x, y) => {
+      if (Math.abs(y) > 90) {
+        return [Number.NaN, Number.NaN]
+      }
+      const scale = cosd(y)
+      return [scale === 0 ? 0 : x / scale, y]
+    },
+    fromNative: (phi, theta) => [phi * cosd(theta), theta],
+  }),
+  // Parabolic
+  PAR: () => ({
+    phi0: 0,
+    theta0: 0,
+    toNative: (x, y) => {
+      const s = y / 180
+      if (Math.abs(s) > 1) {
+        return [Number.NaN, Number.NaN]
+      }
+      const scale = 1 - 4 * s * s
+      return [scale === 0 ? 0 : x / scale, 3 * asind(s)]
+    },
+    fromNative: (phi, theta) => [phi * (2 * cosd(2 * theta / 3) - 1), 180 * sind(theta / 3)],
+  }),
+  // Mollweide
+  MOL: () => ({
+    phi0: 0,
+    theta0: 0,
+    toNative: (x, y) => {
+      const s = y / (Math.SQRT2 * R0)
+      if (Math.abs(s) > 1) {
+        return [Number.NaN, Number.NaN]
+      }
+      const gamma = Math.asin(s)
+      const scale = Math.cos(gamma)
+      const phi = scale === 0 ? 0 : Math.PI * x / (2 * Math.SQRT2 * scale)
+      return [Math.abs(phi) > 180 ? Number.NaN : phi, asind((2 * gamma + Math.sin(2 * gamma)) / Math.PI)]
+    },
+    fromNative: (phi, theta) => {
+      // γ is the solution of π sin(θ) = 2γ + sin(2γ), found with Newton's method on 2γ
+      let angle = theta / R0
+      const target = Math.PI * sind(theta)
+      if (Math.abs(theta) >= 90 - 1e-9) {
+        angle = Math.sign(theta) * Math.PI
+      }
+      else {
+        for (let i = 0; i < 100; i++) {
+          const delta = (angle + Math.sin(angle) - target) / (1 + Math.cos(angle))
+          angle -= delta
+          if (Math.abs(delta) < 1e-13) break
+        }
+      }
+      const gamma = angle / 2
+      return [2 * Math.SQRT2 / Math.PI * phi * Math.cos(gamma), Math.SQRT2 * R0 * Math.sin(gamma)]
+    },
+  }),
+  // Hammer-Aitoff
+  AIT: () => ({
+    phi0: 0,
+    theta0: 0,
+    toNative: (x, y) => {
+      const u = x / (4 * R0)
+      const v = y / (2 * R0)
+      const z2 = 1 - u * u - v * v
+      if (z2 < 0.5 - 1e-12) {
+        return [Number.NaN, Number.NaN]
+      }
+      const z = Math.sqrt(z2)
+      return [2 * atan2d(z * x / (2 * R0), 2 * z2 - 1), asind(z * y / R0)]
+    },
+    fromNative: (phi, theta) => {
+      const gamma = R0 * Math.sqrt(2 / (1 + cosd(theta) * cosd(phi / 2)))
+      return [2 * gamma * cosd(theta) * sind(phi / 2), gamma * sind(theta)]
+    },
+  }),
+
+  // Conic perspective
+  COP: (parameters) => {
+    const [thetaA, eta] = getConicParameters(parameters, "COP")
+    const scale = R0 * cosd(eta)
+    return conic(
+      thetaA,
+      sind(thetaA),
+      theta => cosd(theta - thetaA) > 0 ? scale * (1 / tand(thetaA) - tand(theta - thetaA)) : Number.NaN,
+      radius => thetaA + atand(1 / tand(thetaA) - radius / scale),
+    )
+  },
+  // Conic equal-area
+  COE: (parameters) => {
+    const [thetaA, eta] = getConicParameters(parameters, "COE")
+    const sin1 = sind(thetaA - eta)
+    const sin2 = sind(thetaA + eta)
+    const gamma = sin1 + sin2
+    return conic(
+      thetaA,
+      gamma / 2,
+      theta => 2 * R0 / gamma * Math.sqrt(1 + sin1 * sin2 - gamma * sind(theta)),
+      (radius) => {
+        const s = 1 / gamma + sin1 * sin2 / gamma - gamma * (radius / (2 * R0)) ** 2
+        return Math.abs(s) > 1 ? Number.NaN : asind(s)
+      },
+    )
+  },
+  // Conic equidistant
+  COD: (parameters) => {
+    const [thetaA, eta] = getConicParameters(parameters, "COD")
+    // η cot(η) tends to 1 radian when η is 0
+    const scale = eta === 0 ? R0 : eta / tand(eta)
+    const offset = thetaA + scale / tand(thetaA)
+    return conic(
+      thetaA,
+      eta === 0 ? sind(thetaA) : sind(thetaA) * sind(eta) / (eta / R0),
+      theta => offset - theta,
+      radius => offset - radius,
+    )
+  },
+  // Conic orthomorphic
+  COO: (parameters) => {
+    const [thetaA, eta] = getConicParameters(parameters, "COO")
+    const theta1 = thetaA - eta
+    const theta2 = thetaA + eta
+    const C = theta1 === theta2
+      ? sind(theta1)
+      : Math.log(cosd(theta2) / cosd(theta1)) / Math.log(tand((90 - theta2) / 2) / tand((90 - theta1) / 2))
+    const psi = R0 * cosd(theta1) / (C * tand((90 - theta1) / 2) ** C)
+    return conic(
+      thetaA,
+      C,
+      theta => psi * tand((90 - theta) / 2) ** C,
+      radius => 90 - 2 * atand((radius / psi) ** (1 / C)),
+    )
+  },
+}
+
+/**
+ * Returns a spherical projection by its code (e.g. `TAN`).
+ *
+ * @param {string} code The code of the projection, as in the last three characters of CTYPEi.
+ * @param {(number | undefined)[]} parameters The values of PVi_m on the latitude axis, by `m` (`undefined` if not
+ *                                            present).
+ * @returns {FITSProjection} The projection.
+ * @throws {TypeError} If the projection is not supported, or its parameters are not valid.
+ */
+export function getProjection(code: string, parameters: (number | undefined)[]): FITSProjection {
+  const factory = PROJECTIONS[code]
+  if (!factory) {
+    throw new TypeError(`Unsupported projection: ${code}`)
+  }
+  return factory(parameters)
+}
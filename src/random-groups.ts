@@ -0,0 +1,393 @@
+/**
+ * @fileoverview
+ * The random-groups structure is defined in Section "6. Random-groups structure" of the FITS standard 4.0. It's only
+ * allowed in the primary HDU, which has `GROUPS = T` and `NAXIS1 = 0`. The data is a sequence of GCOUNT groups, each
+ * one made of PCOUNT parameters followed by an array with axes NAXIS2, ..., NAXISm.
+ */
+
+import type { FITSBITPIX, FITSDataUnit } from "./data.js"
+import type { FITSHeader, FITSHeaderEntry } from "./header.js"
+
+/**
+ * A group parameter, as described by its PTYPEn, PSCALn and PZEROn keywords.
+ */
+export interface FITSRandomGroupsParameter {
+  /** The name of the parameter (PTYPEn), or `null` if unnamed. */
+  name: string | null
+  /** The scaling factor (PSCALn). */
+  PSCAL: number
+  /** The zero point (PZEROn). */
+  PZERO: number
+}
+
+/**
+ * The stored values of a group array, typed according to BITPIX.
+ */
+export type FITSRandomGroupsArray = Uint8Array | Int16Array | Int32Array | BigInt64Array | Float32Array | Float64Array
+
+/**
+ * A single group: the physical values of its parameters and its array.
+ */
+export interface FITSRandomGroup {
+  parameters: Float64Array
+  data: FITSRandomGroupsArray
+}
+
+/**
+ * The definition of a group parameter to write.
+ */
+export interface FITSRandomGroupsParameterInput {
+  /** The name of the parameter (PTYPEn). */
+  name?: string | null
+  /** The scaling factor (PSCALn). */
+  PSCAL?: number
+  /** The zero point (PZEROn). */
+  PZERO?: number
+}
+
+/**
+ * A group to write. The parameters are expected as physical values, and the array as stored values.
+ */
+export interface FITSRandomGroupInput {
+  parameters: ArrayLike<number>
+  data: ArrayLike<number> | ArrayLike<bigint>
+}
+
+/**
+ * The random groups to write.
+ */
+export interface FITSRandomGroupsInput {
+  /** The bits per value of both parameters and arrays. */
+  BITPIX: FITSBITPIX
+  /** The axes of each group array (NAXIS2, ..., NAXISm). */
+  shape: number[]
+  /** The definitions of the parameters, which are the same for every group. */
+  parameters: FITSRandomGroupsParameterInput[]
+  /** The groups, in order. */
+  groups: FITSRandomGroupInput[]
+}
+
+interface FITSRandomGroupsConstructorOptions {
+  BITPIX: FITSBITPIX
+  NAXISn: number[]
+  PCOUNT: number
+  GCOUNT: number
+  parameters: FITSRandomGroupsParameter[]
+  dataBuffer: ArrayBuffer
+}
+
+/**
+ * Writes a stored value according to the BITPIX value.
+ *
+ * @param {DataView} view The view of the data unit.
+ * @param {number} offset The offset of the value (in bytes).
+ * @param {number | bigint} value The stored value.
+ * @param {FITSBITPIX} BITPIX The bits per value.
+ */
+function writeValue(view: DataView, offset: number, value: number | bigint, BITPIX: FITSBITPIX): void {
+  if (BITPIX === 64) {
+    view.setBigInt64(offset, typeof value === "bigint" ? value : BigInt(Math.round(value)), false)
+    return
+  }
+  if (typeof value === "bigint") {
+    throw new TypeError(`Unexpected bigint value for BITPIX = ${BITPIX}`)
+  }
+
+  switch (BITPIX) {
+    case 8:
+      view.setUint8(offset, Math.round(value))
+      break
+    case 16:
+      view.setInt16(offset, Math.round(value), false)
+      break
+    case 32:
+      view.setInt32(offset, Math.round(value), false)
+      break
+    case -32:
+      view.setFloat32(offset, value, false)
+      break
+    case -64:
+      view.setFloat64(offset, value, false)
+      break
+    default:
+      throw new TypeError(`Unexpected BITPIX value ${BITPIX}`)
+  }
+}
+
+export class FITSRandomGroups implements FITSDataUnit {
+  readonly #dataBuffer: ArrayBuffer
+  readonly #dataView: DataView
+
+  /** The bits per value of both parameters and arrays. */
+  public readonly BITPIX: FITSBITPIX
+
+  /** The number of axes, including the first one (always 0). */
+  public readonly NAXIS: number
+
+  /**
+   * The first element is always 0 (NAXIS1), and the rest are the axes of each group array (NAXIS2, ..., NAXISm).
+   */
+  public readonly NAXISn: number[]
+
+  /** The number of parameters of each group. */
+  public readonly PCOUNT: number
+
+  /** The number of groups. */
+  public readonly GCOUNT: number
+
+  /**
+   * The parameters of each group, in order. The n-th parameter is described by the PTYPEn, PSCALn and PZEROn keywords.
+   */
+  public readonly parameters: FITSRandomGroupsParameter[]
+
+  constructor(opts: FITSRandomGroupsConstructorOptions) {
+    this.BITPIX = opts.BITPIX
+    this.NAXIS = opts.NAXISn.length
+    this.NAXISn = opts.NAXISn
+    this.PCOUNT = opts.PCOUNT
+    this.GCOUNT = opts.GCOUNT
+    this.parameters = opts.parameters
+    this.#dataBuffer = opts.dataBuffer
+    this.#dataView = new DataView(this.#dataBuffer)
+  }
+
+  /** The axes of each group array (NAXIS2, ..., NAXISm). */
+  public get groupShape(): number[] {
+    return this.NAXISn.slice(1)
+  }
+
+  /** The number of values of each group array. */
+  public get groupLength(): number {
+    return this.groupShape.reduce((accum, len) => accum * len, 1)
+  }
+
+  /**
+   * Returns the offset of a group from the start of the data unit.
+   *
+   * @param {number} group The 1-based number of the group.
+   * @returns {number} The offset of the group (in bytes).
+   * @throws {RangeError} If the group is out of bounds.
+   */
+  #getGroupOffset(group: number): number {
+    if (!Number.isInteger(group) || group < 1 || group > this.GCOUNT) {
+      throw new RangeError(`Group ${group} out of bounds: there are ${this.GCOUNT} groups`)
+    }
+    return (group - 1) * (this.PCOUNT + this.groupLength) * Math.abs(this.BITPIX) / 8
+  }
+
+  /**
+   * Reads consecutive stored values according to the BITPIX value.
+   *
+   * @param {number} offset The offset of the first value (in bytes).
+   * @param {number} count The number of values.
+   * @returns {FITSRandomGroupsArray} The stored values.
+   */
+  #readValues(offset: number, count: number): FITSRandomGroupsArray {
+    const read = <T extends { [i: number]: number | bigint }>(output: T, size: number, get: (offset: number) => T[number]): T => {
+      for (let i = 0; i < count; i++) {
+        output[i] = get(offset + i * size)
+      }
+      return output
+    }
+
+    switch (this.BITPIX) {
+      case 8:
+        return read(new Uint8Array(count), 1, offset => this.#dataView.getUint8(offset))
+      case 16:
+        return read(new Int16Array(count), 2, offset => this.#dataView.getInt16(offset, false))
+      case 32:
+        return read(new Int32Array(count), 4, offset => this.#dataView.getInt32(offset, false))
+      case 64:
+        return read(new BigInt64Array(count), 8, offset => this.#dataView.getBigInt64(offset, false))
+      case -32:
+        return read(new Float32Array(count), 4, offset => this.#dataView.getFloat32(offset, false))
+      case -64:
+        return read(new Float64Array(count), 8, offset => this.#dataView.getFloat64(offset, false))
+      default:
+        throw new TypeError(`Unexpected BITPIX value ${this.BITPIX}`)
+    }
+  }
+
+  /**
+   * Returns the physical values of the parameters of a group (`PZEROn + PSCALn * stored`).
+   *
+   * @param {number} group The 1-based number of the group.
+   * @returns {Float64Array} The values of the parameters, in order.
+   * @throws {RangeError} If the group is out of bounds.
+   */
+  public getParameters(group: number): Float64Array {
+    const stored = this.#readValues(this.#getGroupOffset(group), this.PCOUNT)
+    return Float64Array.from(stored as ArrayLike<number | bigint>, (value, i) => {
+      const { PSCAL, PZERO } = this.parameters[i]!
+      return PZERO + PSCAL * Number(value)
+    })
+  }
+
+  /**
+   * Returns the physical value of a parameter of a group. When several parameters share the same name, their values
+   * are added together, as the standard allows splitting a value into several parameters to increase its precision.
+   *
+   * @param {number} group The 1-based number of the group.
+   * @param {string | number} parameter The name of the parameter (case-insensitive) or its 1-based number.
+   * @returns {number} The value of the parameter.
+   * @throws {RangeError} If the group is out of bounds.
+   * @throws {ReferenceError} If the parameter does not exist.
+   */
+  public getParameter(group: number, parameter: string | number): number {
+    const values = this.getParameters(group)
+
+    if (typeof parameter === "number") {
+      if (!Number.isInteger(parameter) || parameter < 1 || parameter > this.PCOUNT) {
+        throw new ReferenceError(`Parameter ${parameter} out of bounds: there are ${this.PCOUNT} parameters`)
+      }
+      return values[parameter - 1]!
+    }
+
+    const name = parameter.trim().toUpperCase()
+    let found = false
+    let sum = 0
+    this.parameters.forEach((p, i) => {
+      if (p.name?.toUpperCase() === name) {
+        found = true
+        sum += values[i]!
+      }
+    })
+    if (!found) {
+      throw new ReferenceError(`No parameter named "${parameter}"`)
+    }
+    return sum
+  }
+
+  /**
+   * Returns the array of a group, with the stored values. The values follow the same order as images, i.e. the first
+   * axis (NAXIS2) varies the fastest.
+   *
+   * @param {number} group The 1-based number of the group.
+   * @returns {FITSRandomGroupsArray} The values of the array.
+   * @throws {RangeError} If the group is out of bounds.
+   */
+  public getGroupArray(group: number): FITSRandomGroupsArray {
+    const offset = this.#getGroupOffset(group) + this.PCOUNT * Math.abs(this.BITPIX) / 8
+    return this.#readValues(offset, this.groupLength)
+  }
+
+  /**
+   * Returns the parameters and array of a group.
+   *
+   * @param {number} group The 1-based number of the group.
+   * @returns {FITSRandomGroup} The group.
+   * @throws {RangeError} If the group is out of bounds.
+   */
+  public getGroup(group: number): FITSRandomGroup {
+    return { parameters: this.getParameters(group), data: this.getGroupArray(group) }
+  }
+
+  /**
+   * Returns all the groups as a generator.
+   */
+  public* getGroups(): Generator<FITSRandomGroup, void, unknown> {
+    for (let group = 1; group <= this.GCOUNT; group++) {
+      yield this.getGroup(group)
+    }
+  }
+
+  public toString(): string {
+    return `${this.GCOUNT} groups of ${this.PCOUNT} parameters and ${this.groupShape.join("x")} arrays (BITPIX = ${this.BITPIX})`
+  }
+
+  public toJSON(): unknown {
+    return Array.from(this.getGroups(), ({ parameters, data }) => ({
+      parameters: Array.from(parameters),
+      data: Array.from(data as ArrayLike<number | bigint>, value => typeof value === "bigint" ? value.toString() : value),
+    }))
+  }
+
+  public toBuffer(): ArrayBuffer {
+    return structuredClone(this.#dataBuffer)
+  }
+
+  /**
+   * Returns the keywords that describe the parameters of the groups (PTYPEn, PSCALn and PZEROn).
+   */
+  public getParameterKeywords(): FITSHeaderEntry[] {
+    const keywords: FITSHeaderEntry[] = []
+    this.parameters.forEach((parameter, i) => {
+      const n = i + 1
+      if (parameter.name !== null) keywords.push({ keyword: `PTYPE${n}`, value: parameter.name, comment: `Name of parameter ${n}` })
+      if (parameter.PSCAL !== 1) keywords.push({ keyword: `PSCAL${n}`, value: parameter.PSCAL, comment: `Scaling factor of parameter ${n}` })
+      if (parameter.PZERO !== 0) keywords.push({ keyword: `PZERO${n}`, value: parameter.PZERO, comment: `Zero point of parameter ${n}` })
+    })
+    return keywords
+  }
+
+  /**
+   * Creates a random-groups data unit from a random-groups primary header and its data.
+   *
+   * @param {FITSHeader} header The primary header.
+   * @param {ArrayBuffer} dataBuffer The data of the HDU.
+   * @returns {FITSRandomGroups} The random groups.
+   */
+  public static fromHeader(header: FITSHeader, dataBuffer: ArrayBuffer): FITSRandomGroups {
+    const BITPIX = header.getValue("BITPIX") as FITSBITPIX
+    const NAXIS = header.getValue("NAXIS")!
+    const NAXISn = Array.from({ length: NAXIS }, (_, i) => header.getValue(`NAXIS${i + 1}`)!)
+    const PCOUNT = header.getValue("PCOUNT")!
+    const GCOUNT = header.getValue("GCOUNT")!
+
+    const parameters = Array.from({ length: PCOUNT }, (_, i): FITSRandomGroupsParameter => ({
+      name: header.getValue(`PTYPE${i + 1}`) ?? null,
+      PSCAL: header.getValue(`PSCAL${i + 1}`) ?? 1,
+      PZERO: header.getValue(`PZERO${i + 1}`) ?? 0,
+    }))
+
+    return new FITSRandomGroups({ BITPIX, NAXISn, PCOUNT, GCOUNT, parameters, dataBuffer })
+  }
+
+  /**
+   * Creates new random groups. Every group must have one value per parameter and a full array.
+   *
+   * **Warning**: This method does not create the header of the HDU.
+   * It's intended to be called by {@link FITS}.
+   *
+   * @param {FITSRandomGroupsInput} input The definitions of the parameters and the groups.
+   * @returns {FITSRandomGroups} The random groups.
+   * @throws {RangeError} If a group doesn't match the parameters or the shape.
+   */
+  public static fromGroups(input: FITSRandomGroupsInput): FITSRandomGroups {
+    const { BITPIX, shape } = input
+    const parameters = input.parameters.map((parameter): FITSRandomGroupsParameter => ({
+      name: parameter.name ?? null,
+      PSCAL: parameter.PSCAL ?? 1,
+      PZERO: parameter.PZERO ?? 0,
+    }))
+
+    const PCOUNT = parameters.length
+    const GCOUNT = input.groups.length
+    const groupLength = shape.reduce((accum, len) => accum * len, 1)
+    const bytesPerValue = Math.abs(BITPIX) / 8
+    const dataBuffer = new ArrayBuffer(GCOUNT * (PCOUNT + groupLength) * bytesPerValue)
+    const view = new DataView(dataBuffer)
+
+    let offset = 0
+    input.groups.forEach((group, g) => {
+      if (group.parameters.length !== PCOUNT) {
+        throw new RangeError(`Expected ${PCOUNT} parameters in group ${g + 1}, but got ${group.parameters.length}`)
+      }
+      if (group.data.length !== groupLength) {
+        throw new RangeError(`Expected ${groupLength} values in group ${g + 1}, but got ${group.data.length}`)
+      }
+
+      for (let i = 0; i < PCOUNT; i++) {
+        const { PSCAL, PZERO } = parameters[i]!
+        writeValue(view, offset, (group.parameters[i]! - PZERO) / PSCAL, BITPIX)
+        offset += bytesPerValue
+      }
+      for (let i = 0; i < groupLength; i++) {
+        writeValue(view, offset, group.data[i]!, BITPIX)
+        offset += bytesPerValue
+      }
+    })
+
+    return new FITSRandomGroups({ BITPIX, NAXISn: [0, ...shape], PCOUNT, GCOUNT, parameters, dataBuffer })
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * A source of bytes that can be read at any offset, like a file on disk or on a server that accepts HTTP Range
+ * requests. It's used by {@link FITSLazyFile} to read only the parts of a file that are needed.
+ */
+export interface FITSByteRangeSource {
+  /**
+   * Reads up to `length` bytes starting at `offset` (0-based). Fewer bytes are only returned at the end of the
+   * source.
+   */
+  read: (offset: number, length: number) => Promise<Uint8Array>
+}
+
+/**
+ * The subset of a Node.js `FileHandle` (from `node:fs/promises`) used by {@link FITSFileHandleSource}.
+ */
+export interface FITSFileHandle {
+  read: (buffer: Uint8Array, offset: number, length: number, position: number) => Promise<{ bytesRead: number }>
+}
+
+/**
+ * Reads bytes from a `Blob`, like a `File` from an `<input type="file">` element.
+ */
+export class FITSBlobSource implements FITSByteRangeSource {
+  constructor(
+    readonly blob: Blob,
+  ) {}
+
+  public async read(offset: number, length: number): Promise<Uint8Array> {
+    const buffer = await this.blob.slice(offset, offset + length).arrayBuffer()
+    return new Uint8Array(buffer)
+  }
+}
+
+/**
+ * Reads bytes from a Node.js file handle, as returned by `open` from `node:fs/promises`. The handle is not closed.
+ */
+export class FITSFileHandleSource implements FITSByteRangeSource {
+  constructor(
+    readonly handle: FITSFileHandle,
+  ) {}
+
+  public async read(offset: number, length: number): Promise<Uint8Array> {
+    const output = new Uint8Array(length)
+
+    // A single read may return fewer bytes than requested, even before the end of the file
+    let bytesRead = 0
+    while (bytesRead < length) {
+      const result = await this.handle.read(output, bytesRead, length - bytesRead, offset + bytesRead)
+      if (result.bytesRead === 0) {
+        break
+      }
+      bytesRead += result.bytesRead
+    }
+
+    return output.subarray(0, bytesRead)
+  }
+}
+
+/**
+ * Reads bytes from a URL with HTTP Range requests (`Range: bytes=start-end`). The server must answer with
+ * `206 Partial Content`.
+ */
+export class FITSHTTPSource implements FITSByteRangeSource {
+  constructor(
+    readonly url: string | URL,
+    /** Options for every request (e.g. credentials). Its `Range` header is replaced. */
+    readonly init: RequestInit = {},
+  ) {}
+
+  /**
+   * Reads a range of bytes with a single request.
+   *
+   * @param {number} offset The offset of the first byte (0-based).
+   * @param {number} length The number of bytes to read.
+   * @returns {Promise<Uint8Array>} The bytes, which are fewer than requested at the end of the file.
+   * @throws {Error} If the request fails or the server doesn't support range requests.
+   */
+  public async read(offset: number, length: number): Promise<Uint8Array> {
+    if (length === 0) {
+      return new Uint8Array()
+    }
+
+    const headers = new Headers(this.init.headers)
+    headers.set("Range", `bytes=${offset}-${offset + length - 1}`)
+    const response = await fetch(this.url, { ...this.init, headers })
+
+    // The range starts after the end of the file
+    if (response.status === 416) {
+      return new Uint8Array()
+    }
+    if (response.status !== 206) {
+      await response.body?.cancel()
+      throw new Error(response.ok
+        ? `The server doesn't support range requests for ${this.url}`
+        : `Request for ${this.url} failed with status ${response.status}`)
+    }
+
+    return new Uint8Array(await response.arrayBuffer())
+  }
+}
@@ -0,0 +1,248 @@
+import type { FITSBITPIX } from "./data.js"
+import { alignToBlock, BLOCK_SIZE, getHeaderDataByteLength } from "./FITS.js"
+import { FITSHeader, hasEndCard, isExtensionStart } from "./header.js"
+
+/**
+ * A source of bytes that arrive in chunks of any size, like the body of a `fetch` response or a Node.js read stream.
+ */
+export type FITSStreamSource = ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>
+
+export interface FITSStreamOptions {
+  /**
+   * How the data units are split:
+   * - `blocks`: in chunks of whole 2880-byte blocks, as soon as they arrive (the padding of the last one is removed).
+   * - `rows`: one chunk per row (`NAXIS1` values of images and tables, or one group of random groups), followed by
+   *   the rest of the data unit (e.g. the heap of binary tables) in chunks of blocks.
+   *
+   * Defaults to `blocks`.
+   */
+  chunks?: "blocks" | "rows"
+}
+
+/**
+ * Emitted as soon as the END card of a header arrives.
+ */
+export interface FITSStreamHeaderEvent {
+  type: "header"
+  /** The index of the HDU (0 for the primary HDU). */
+  index: number
+  header: FITSHeader
+  /** The size of the data unit that follows, without padding. */
+  dataByteLength: number
+}
+
+/**
+ * Emitted for each chunk of a data unit, in order.
+ */
+export interface FITSStreamDataEvent {
+  type: "data"
+  /** The index of the HDU (0 for the primary HDU). */
+  index: number
+  /** The offset of the chunk in the data unit (in bytes, 0-based). */
+  offset: number
+  /** The bytes of the chunk, as stored in the file (big-endian). */
+  bytes: Uint8Array
+}
+
+export type FITSStreamEvent = FITSStreamHeaderEvent | FITSStreamDataEvent
+
+/**
+ * A queue of chunks that lets bytes be taken in any amount, copying them only when they span several chunks.
+ */
+class ChunkQueue {
+  #chunks: Uint8Array[] = []
+  #length = 0
+
+  public get length(): number {
+    return this.#length
+  }
+
+  public push(chunk: Uint8Array): void {
+    if (chunk.byteLength > 0) {
+      this.#chunks.push(chunk)
+      this.#length += chunk.byteLength
+    }
+  }
+
+  /**
+   * Removes the given number of bytes from the start of the queue and returns them.
+   *
+   * @param {number} length The number of bytes to take. It must not exceed {@link length}.
+   * @returns {Uint8Array} The bytes.
+   */
+  public take(length: number): Uint8Array {
+    const first = this.#chunks[0]
+    if (first && first.byteLength >= length) {
+      this.#shift(length)
+      return first.subarray(0, length)
+    }
+
+    const output = new Uint8Array(length)
+    for (let offset = 0; offset < length;) {
+      const chunk = this.#chunks[0]!
+      const size = Math.min(chunk.byteLength, length - offset)
+      output.set(chunk.subarray(0, size), offset)
+      this.#shift(size)
+      offset += size
+    }
+    return output
+  }
+
+  #shift(length: number): void {
+    const first = this.#chunks[0]!
+    if (first.byteLength === length) {
+      this.#chunks.shift()
+    }
+    else {
+      this.#chunks[0] = first.subarray(length)
+    }
+    this.#length -= length
+  }
+}
+
+/**
+ * Reads the chunks of a source, releasing (or cancelling, if the parsing stops early) the stream at the end.
+ *
+ * @param {FITSStreamSource} source The source of bytes.
+ * @returns An async generator that yields the chunks.
+ */
+async function* readChunks(source: FITSStreamSource): AsyncGenerator<Uint8Array, void, unknown> {
+  if (!("getReader" in source)) {
+    yield* source
+    return
+  }
+
+  const reader = source.getReader()
+  let done = false
+  try {
+    while (true) {
+      const result = await reader.read()
+      if (result.done) {
+        done = true
+        return
+      }
+      yield result.value
+    }
+  }
+  finally {
+    if (!done) {
+      await reader.cancel()
+    }
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Returns the size in bytes of each row of a data unit (see {@link FITSStreamOptions.chunks}) and the number of rows.
+ *
+ * @param {FITSHeader} header The header of the HDU.
+ * @returns {{ rowLength: number, rowCount: number }} The size and number of rows.
+ */
+function getRows(header: FITSHeader): { rowLength: number, rowCount: number } {
+  const bytesPerValue = Math.abs(header.getValue("BITPIX") as FITSBITPIX) / 8
+  const NAXISn = Array.from({ length: header.getValue("NAXIS")! }, (_, i) => header.getValue(`NAXIS${i + 1}`)!)
+  const PCOUNT = header.getValue("PCOUNT") ?? 0
+  const GCOUNT = header.getValue("GCOUNT") ?? 1
+  if (NAXISn.length === 0) {
+    return { rowLength: 0, rowCount: 0 }
+  }
+
+  const rest = NAXISn.slice(1).reduce((accum, len) => accum * len, 1)
+  if (header.isRandomGroups) {
+    return { rowLength: bytesPerValue * (PCOUNT + rest), rowCount: GCOUNT }
+  }
+  return { rowLength: bytesPerValue * NAXISn[0]!, rowCount: GCOUNT * rest }
+}
+
+/**
+ * Parses a FITS file incrementally, with bounded memory. Each header is emitted as soon as its END card arrives, and
+ * is followed by the chunks of its data unit. As in {@link FITSFile.fromBuffer}, anything after the last HDU that
+ * isn't an extension is ignored (and the rest of the source is not read).
+ *
+ * Only the structure of the headers is validated (see {@link FITSHeader.fromBuffer}): the data units are not parsed.
+ *
+ * @param {FITSStreamSource} source The source of bytes, e.g. a `ReadableStream<Uint8Array>`.
+ * @param {FITSStreamOptions} [options] The options.
+ * @returns An async generator that yields the headers and the chunks of data of each HDU, in order.
+ * @throws {Error} If the file ends before a header or data unit is complete, or a header is not valid.
+ */
+export async function* parseStream(source: FITSStreamSource, options: FITSStreamOptions = {}): AsyncGenerator<FITSStreamEvent, void, unknown> {
+  const chunks = readChunks(source)
+  const queue = new ChunkQueue()
+  let ended = false
+
+  // Reads from the source until the queue has the given number of bytes, or the source ends
+  async function fill(length: number): Promise<boolean> {
+    while (queue.length < length && !ended) {
+      const result = await chunks.next()
+      if (result.done) {
+        ended = true
+      }
+      else {
+        queue.push(result.value)
+      }
+    }
+    return queue.length >= length
+  }
+
+  try {
+    for (let index = 0; ; index++) {
+      // Headers are made of whole blocks, so they're read one block at a time until the END card
+      const blocks: Uint8Array[] = []
+      do {
+        if (!await fill(BLOCK_SIZE)) {
+          // Trailing bytes that aren't an extension are ignored, even if they don't fill a block
+          if (index > 0 && blocks.length === 0 && !isExtensionStart(queue.take(Math.min(queue.length, 8)))) {
+            return
+          }
+          throw new Error("Unexpected end of file")
+        }
+
+        const block = queue.take(BLOCK_SIZE).slice()
+        if (index > 0 && blocks.length === 0 && !isExtensionStart(block)) {
+          return
+        }
+
+        blocks.push(block)
+      } while (!hasEndCard(blocks.at(-1)!))
+
+      const headerBuffer = new Uint8Array(blocks.length * BLOCK_SIZE)
+      blocks.forEach((block, i) => headerBuffer.set(block, i * BLOCK_SIZE))
+      const { header } = FITSHeader.fromBuffer(headerBuffer.buffer)
+      const dataByteLength = getHeaderDataByteLength(header)
+      yield { type: "header", index, header, dataByteLength }
+
+      let offset = 0
+      const { rowLength, rowCount } = getRows(header)
+      if (options.chunks === "rows" && rowLength > 0) {
+        for (let row = 0; row < rowCount; row++) {
+          if (!await fill(rowLength)) {
+            throw new Error("Unexpected end of file")
+          }
+          yield { type: "data", index, offset, bytes: queue.take(rowLength) }
+          offset += rowLength
+        }
+      }
+
+      // The rest of the data unit (or all of it) is emitted in blocks, without the padding
+      const paddedLength = alignToBlock(dataByteLength)
+      while (offset < paddedLength) {
+        const boundary = alignToBlock(offset + 1)
+        if (!await fill(boundary - offset)) {
+          throw new Error("Unexpected end of file")
+        }
+
+        // Every chunk ends at a block boundary, and takes as many blocks as are available
+        const end = Math.max(boundary, Math.floor((offset + queue.length) / BLOCK_SIZE) * BLOCK_SIZE)
+        const bytes = queue.take(Math.min(end, paddedLength) - offset)
+        if (offset < dataByteLength) {
+          yield { type: "data", index, offset, bytes: bytes.subarray(0, dataByteLength - offset) }
+        }
+        offset += bytes.byteLength
+      }
+    }
+  }
+  finally {
+    await chunks.return()
+  }
+}
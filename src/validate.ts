@@ -0,0 +1,277 @@
+/**
+ * @fileoverview
+ * Checks whether a file conforms to the FITS standard 4.0, like `fitsverify` does. Unlike the parser, which stops at
+ * the first problem (or ignores the ones it can work around), the validator goes on and reports every finding. Only
+ * problems that make the rest of the file impossible to locate (e.g. a missing END card) stop it.
+ */
+
+import { Card, keywordIsCommentary } from "./card.js"
+import { alignToBlock, BLOCK_SIZE, getHeaderDataByteLength } from "./FITS.js"
+import { FITSHeader, isExtensionStart, isFITSCardInteger, isFITSCardLogical, isFITSCardReal, isFITSCardString } from "./header.js"
+
+/**
+ * How serious a finding is: errors break the standard, while warnings point at legal but unusual or ambiguous
+ * contents.
+ */
+export type FITSDiagnosticSeverity = "error" | "warning"
+
+/**
+ * A problem found by {@link FITSFile.validate}.
+ */
+export interface FITSDiagnostic {
+  /** How serious the problem is. */
+  severity: FITSDiagnosticSeverity
+  /** The 0-based index of the HDU in the file. */
+  hdu: number
+  /** The 0-based index of the record in the header of the HDU, or `null` if the problem is not in a single record. */
+  card: number | null
+  /** What the problem is. */
+  message: string
+}
+
+// Extension types registered by the IAU FITS Working Group, besides the standard ones
+const STANDARD_XTENSIONS = ["IMAGE", "TABLE", "BINTABLE"]
+const REGISTERED_XTENSIONS = ["A3DTABLE", "IUEIMAGE", "FOREIGN", "DUMP"]
+
+// Keywords whose value must be written in fixed format (Section "4.2. Value")
+const FIXED_FORMAT_KEYWORDS = /^(?:SIMPLE|XTENSION|BITPIX|NAXIS\d{0,3}|PCOUNT|GCOUNT|GROUPS|EXTEND|TFIELDS)$/
+
+/**
+ * A header record and what could be made of it.
+ */
+interface FITSRecord {
+  image: string
+  keyword: string
+  /** The parsed card, or `null` if the record is not valid. */
+  card: Card | null
+}
+
+/**
+ * Returns the text of the value of a record, without its comment, or `null` if the record has no value indicator.
+ *
+ * @param {string} image The record.
+ * @returns {string | null} The text of the value.
+ */
+function getValueText(image: string): string | null {
+  if (image.slice(8, 10) !== "= ") {
+    return null
+  }
+  const text = image.slice(10).trimStart()
+  return text.startsWith("'") ? text.slice(0, text.lastIndexOf("'") + 1) : text.split("/")[0]!.trim()
+}
+
+/**
+ * Checks the records of a header one by one: their characters, keywords, values and the types of the reserved
+ * keywords.
+ *
+ * @param {FITSRecord[]} records The records of the header, without END.
+ * @param {(card: number, message: string, severity?: FITSDiagnosticSeverity) => void} report Reports a problem.
+ */
+function validateRecords(records: FITSRecord[], report: (card: number, message: string, severity?: FITSDiagnosticSeverity) => void): void {
+  const seen = new Set<string>()
+  for (let i = 0; i < records.length; i++) {
+    const { image, keyword, card } = records[i]!
+
+    const illegal = /[^\x20-\x7E]/.exec(image)
+    if (illegal) {
+      report(i, `Illegal character 0x${illegal[0].charCodeAt(0).toString(16).padStart(2, "0").toUpperCase()} in column ${illegal.index + 1}`)
+    }
+    if (!/^[A-Z\d_-]* *$/.test(image.slice(0, 8))) {
+      report(i, `Illegal keyword "${image.slice(0, 8).trimEnd()}"`)
+      continue
+    }
+    if (!card) {
+      report(i, `Cannot parse the value of ${keyword}`)
+      continue
+    }
+
+    if (keyword !== "CONTINUE" && !keywordIsCommentary(keyword) && !card.isHierarch) {
+      if (seen.has(keyword)) {
+        report(i, `Duplicate ${keyword} keyword`)
+      }
+      seen.add(keyword)
+    }
+
+    const text = getValueText(image)
+    if (text === null || card.value === null || card.isHierarch) {
+      continue
+    }
+    if (isFITSCardInteger(keyword) && !/^[+-]?\d+$/.test(text)) {
+      report(i, `Expected ${keyword} to be an integer, but got ${text}`)
+    }
+    else if (isFITSCardReal(keyword) && typeof card.value !== "number") {
+      report(i, `Expected ${keyword} to be a real number, but got ${text}`)
+    }
+    else if (isFITSCardString(keyword) && typeof card.value !== "string") {
+      report(i, `Expected ${keyword} to be a string, but got ${text}`)
+    }
+    else if (isFITSCardLogical(keyword) && typeof card.value !== "boolean") {
+      report(i, `Expected ${keyword} to be a logical value, but got ${text}`)
+    }
+
+    // Fixed-format values end in column 30, or start in column 11 for strings (with the closing quote in column 20 or
+    // after)
+    if (FIXED_FORMAT_KEYWORDS.test(keyword)) {
+      const fixed = typeof card.value === "string"
+        ? image[10] === "'" && image.indexOf("'", 11) >= 19
+        : /^ *\S+$/.test(image.slice(10, 30))
+      if (!fixed) {
+        report(i, `The value of ${keyword} is not in fixed format`)
+      }
+    }
+  }
+}
+
+/**
+ * Checks the mandatory keywords of a header: whether they are present, in the right order and with valid values.
+ *
+ * @param {FITSRecord[]} records The records of the header, without END.
+ * @param {boolean} primary Whether it's the header of the primary HDU.
+ * @param {(card: number | null, message: string, severity?: FITSDiagnosticSeverity) => void} report Reports a
+ *                                                                                                    problem.
+ */
+function validateMandatoryKeywords(records: FITSRecord[], primary: boolean, report: (card: number | null, message: string, severity?: FITSDiagnosticSeverity) => void): void {
+  const find = (keyword: string): number => records.findIndex(record => record.keyword === keyword)
+  const getValue = (keyword: string): unknown => records[find(keyword)]?.card?.value
+  const isCount = (value: unknown, max: number = Infinity): boolean =>
+    typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= max
+
+  const XTENSION = getValue("XTENSION")
+  const NAXIS = getValue("NAXIS")
+  const groups = primary && getValue("GROUPS") === true
+  const table = XTENSION === "TABLE" || XTENSION === "BINTABLE"
+  const expected = [
+    primary ? "SIMPLE" : "XTENSION",
+    "BITPIX",
+    "NAXIS",
+    ...Array.from({ length: isCount(NAXIS, 999) ? NAXIS as number : 0 }, (_, i) => `NAXIS${i + 1}`),
+    ...groups ? ["GROUPS"] : [],
+    ...!primary || groups ? ["PCOUNT", "GCOUNT"] : [],
+    ...table ? ["TFIELDS"] : [],
+  ]
+  expected.forEach((keyword, position) => {
+    const index = find(keyword)
+    if (index === -1) {
+      report(null, `Missing ${keyword} keyword`)
+    }
+    else if (index !== position) {
+      report(index, `${keyword} must be keyword number ${position + 1} of the header`)
+    }
+  })
+
+  const check = (keyword: string, valid: (value: unknown) => boolean, severity: FITSDiagnosticSeverity = "error"): void => {
+    const index = find(keyword)
+    const value = records[index]?.card?.value
+    if (index !== -1 && !valid(value)) {
+      report(index, `Unexpected ${keyword} value: ${value}`, severity)
+    }
+  }
+  check("SIMPLE", value => value === true)
+  check("XTENSION", value => typeof value === "string" && [...STANDARD_XTENSIONS, ...REGISTERED_XTENSIONS].includes(value))
+  check("XTENSION", value => !REGISTERED_XTENSIONS.includes(value as string), "warning")
+  check("BITPIX", value => [8, 16, 32, 64, -32, -64].includes(value as number))
+  check("NAXIS", value => isCount(value, 999))
+  for (let i = 1; i <= (isCount(NAXIS, 999) ? NAXIS as number : 0); i++) {
+    check(`NAXIS${i}`, value => isCount(value) && (!groups || i !== 1 || value === 0))
+  }
+  // Only binary tables (with a heap) and random groups can have parameters or several groups
+  check("PCOUNT", value => isCount(value) && (value === 0 || groups || (XTENSION !== "IMAGE" && XTENSION !== "TABLE")))
+  check("GCOUNT", value => isCount(value) && (value === 1 || groups || !STANDARD_XTENSIONS.includes(XTENSION as string)))
+  check("TFIELDS", value => isCount(value, 999))
+}
+
+/**
+ * Validates a FITS file against the FITS standard 4.0. See {@link FITSFile.validate}.
+ *
+ * @param {ArrayBuffer} file The FITS file to check.
+ * @returns {FITSDiagnostic[]} Every problem found, in the order of the file.
+ */
+export function validateFile(file: ArrayBuffer): FITSDiagnostic[] {
+  const bytes = new Uint8Array(file)
+  const toText = (start: number, end: number): string => String.fromCharCode(...bytes.subarray(start, end))
+  const diagnostics: FITSDiagnostic[] = []
+
+  if (file.byteLength === 0) {
+    return [{ severity: "error", hdu: 0, card: null, message: "The file is empty" }]
+  }
+  if (file.byteLength % BLOCK_SIZE !== 0) {
+    diagnostics.push({ severity: "error", hdu: 0, card: null, message: `The size of the file (${file.byteLength} bytes) is not a multiple of ${BLOCK_SIZE}` })
+  }
+
+  let offset = 0
+  for (let hdu = 0; offset < file.byteLength; hdu++) {
+    const report = (card: number | null, message: string, severity: FITSDiagnosticSeverity = "error"): void => {
+      diagnostics.push({ severity, hdu, card, message })
+    }
+
+    if (hdu > 0 && !isExtensionStart(bytes.subarray(offset))) {
+      report(null, `Ignoring ${file.byteLength - offset} bytes after the last HDU`, "warning")
+      break
+    }
+
+    const records: FITSRecord[] = []
+    let end = -1
+    for (let position = offset; position + Card.LENGTH <= file.byteLength; position += Card.LENGTH) {
+      const image = toText(position, position + Card.LENGTH)
+      const keyword = image.slice(0, 8).trimEnd()
+      if (keyword === "END") {
+        end = position
+        break
+      }
+
+      let card: Card | null = null
+      try {
+        card = Card.fromImage(image)
+      }
+      catch {
+        // Reported by validateRecords
+      }
+      records.push({ image, keyword: card?.keyword ?? keyword, card })
+    }
+    if (end === -1) {
+      report(null, "Missing END card")
+      break
+    }
+
+    validateRecords(records, report)
+    validateMandatoryKeywords(records, hdu === 0, report)
+
+    // END is followed by spaces, up to the end of its block
+    const headerEnd = offset + alignToBlock(end + Card.LENGTH - offset)
+    if (/[^ ]/.test(toText(end + 3, end + Card.LENGTH))) {
+      report(records.length, "END must be followed by spaces")
+    }
+    if (/[^ ]/.test(toText(end + Card.LENGTH, headerEnd))) {
+      report(records.length, "The header must be padded with spaces after END")
+    }
+
+    // The data unit can only be located when the header can be parsed
+    let dataLength: number
+    try {
+      const { header } = FITSHeader.fromBuffer(file, offset)
+      dataLength = getHeaderDataByteLength(header)
+    }
+    catch (error) {
+      if (!diagnostics.some(diagnostic => diagnostic.hdu === hdu && diagnostic.severity === "error")) {
+        report(null, `Cannot parse the header: ${(error as Error).message}`)
+      }
+      break
+    }
+
+    const dataEnd = headerEnd + dataLength
+    const blockEnd = headerEnd + alignToBlock(dataLength)
+    if (dataEnd > file.byteLength) {
+      report(null, `Expected ${dataLength} bytes of data, but got ${Math.max(file.byteLength - headerEnd, 0)}`)
+      break
+    }
+
+    // ASCII tables are padded with spaces, and the rest of the data units with zeros
+    const fill = records[0]?.card?.value === "TABLE" && records[0].keyword === "XTENSION" ? 0x20 : 0
+    if (bytes.subarray(dataEnd, blockEnd).some(byte => byte !== fill)) {
+      report(null, `The data unit must be padded with ${fill === 0 ? "zeros" : "spaces"}`)
+    }
+    offset = blockEnd
+  }
+
+  return diagnostics
+}
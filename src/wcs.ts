@@ -0,0 +1,475 @@
+/**
+ * @fileoverview
+ * World coordinate systems are defined in Section "8. World coordinate systems" of the FITS standard 4.0, following
+ * "Representations of world coordinates in FITS" (Greisen and Calabretta, 2002). Pixel coordinates p are turned into
+ * intermediate world coordinates x by a linear transformation, x = M (p - CRPIX), where M is either CDi_j or
+ * CDELTi × PCi_j. World coordinates are then CRVAL + x for linear axes.
+ *
+ * Celestial axes come in pairs (e.g. `RA---TAN` and `DEC--TAN`): their intermediate world coordinates are deprojected
+ * to native spherical coordinates (see {@link getProjection}), which are then rotated to celestial coordinates, as
+ * described in "Representations of celestial coordinates in FITS" (Calabretta and Greisen, 2002).
+ */
+
+import type { FITSHeader } from "./header.js"
+import type { FITSProjection } from "./projections.js"
+import { asind, atan2d, cosd, getProjection, sind } from "./projections.js"
+
+/**
+ * The celestial axes of a WCS and how they are projected.
+ */
+export interface FITSWCSCelestial {
+  /** The 0-based index of the longitude axis (e.g. `RA---TAN`). */
+  lng: number
+  /** The 0-based index of the latitude axis (e.g. `DEC--TAN`). */
+  lat: number
+  /** The code of the spherical projection (e.g. `TAN`). */
+  projection: string
+  /** The native longitude of the celestial pole, in degrees (LONPOLE, or its default). */
+  LONPOLE: number
+  /** The celestial latitude of the native pole, in degrees (LATPOLE, resolved from the reference point). */
+  LATPOLE: number
+}
+
+// CTYPEi of celestial axes: a 4-character coordinate type, a hyphen and a 3-letter projection code (possibly followed
+// by a distortion code, such as -SIP, which is not supported)
+const celestialTypeRegExp = /^(RA--|DEC-|[A-Z]LON|[A-Z]LAT|[A-Z]{2}LN|[A-Z]{2}LT)-[A-Z\d]{3}(-[A-Z\d]{3})?$/
+
+// Angular units allowed for celestial axes, in degrees
+const ANGLE_UNITS: Record<string, number> = {
+  "": 1,
+  "deg": 1,
+  "arcmin": 1 / 60,
+  "arcsec": 1 / 3600,
+  "mas": 1 / 3_600_000,
+  "rad": 180 / Math.PI,
+}
+
+// Tolerance for the angles of the celestial poles, in degrees
+const POLE_TOLERANCE = 1e-10
+
+/**
+ * Returns the value of a numeric WCS card, or a default value if it's not present.
+ *
+ * @param {FITSHeader} header The header to read.
+ * @param {string} keyword The keyword of the card.
+ * @param {number} fallback The value to use if the card is not present.
+ * @returns {number} The value of the card.
+ * @throws {TypeError} If the value of the card is not a number.
+ */
+function getNumber(header: FITSHeader, keyword: string, fallback: number): number {
+  const value = header.getValue(keyword)
+  if (value === undefined || value === null) {
+    return fallback
+  }
+  if (typeof value !== "number") {
+    throw new TypeError(`Expected ${keyword} to be a number, but got ${value}`)
+  }
+  return value
+}
+
+/**
+ * Inverts a square matrix with Gauss-Jordan elimination.
+ *
+ * @param {number[][]} matrix The matrix to invert, by rows.
+ * @returns {number[][]} The inverse matrix, by rows.
+ * @throws {RangeError} If the matrix is singular.
+ */
+function invertMatrix(matrix: number[][]): number[][] {
+  const n = matrix.length
+  const rows = matrix.map((row, i) => [...row, ...Array.from({ length: n }, (_, j) => i === j ? 1 : 0)])
+
+  for (let column = 0; column < n; column++) {
+    // Partial pivoting, for stability
+    let pivot = column
+    for (let row = column + 1; row < n; row++) {
+      if (Math.abs(rows[row]![column]!) > Math.abs(rows[pivot]![column]!)) {
+        pivot = row
+      }
+    }
+    if (rows[pivot]![column] === 0) {
+      throw new RangeError("The linear transformation of the WCS is singular")
+    }
+    [rows[column], rows[pivot]] = [rows[pivot]!, rows[column]!]
+
+    const scale = rows[column]![column]!
+    rows[column] = rows[column]!.map(value => value / scale)
+    for (let row = 0; row < n; row++) {
+      const factor = rows[row]![column]!
+      if (row !== column && factor !== 0) {
+        rows[row] = rows[row]!.map((value, j) => value - factor * rows[column]![j]!)
+      }
+    }
+  }
+
+  return rows.map(row => row.slice(n))
+}
+
+/**
+ * Finds the celestial axes of a WCS from their types, if any.
+ *
+ * @param {string[]} CTYPE The type of each axis.
+ * @returns {{ lng: number, lat: number, projection: string } | null} The 0-based indices of the longitude and latitude
+ *                                                                     axes and the projection code, or `null` if there
+ *                                                                     are no celestial axes.
+ * @throws {TypeError} If the celestial axes are not paired, use different projections, or have distortions.
+ */
+function findCelestialAxes(CTYPE: string[]): { lng: number, lat: number, projection: string } | null {
+  let lng = -1
+  let lat = -1
+  for (let i = 0; i < CTYPE.length; i++) {
+    const match = celestialTypeRegExp.exec(CTYPE[i]!)
+    if (!match) {
+      continue
+    }
+    if (match[2] !== undefined) {
+      throw new TypeError(`Unsupported distortion ${match[2].slice(1)} in ${CTYPE[i]}: only undistorted celestial axes are supported`)
+    }
+
+    const isLatitude = match[1] === "DEC-" || /LA?T$/.test(match[1]!)
+    if ((isLatitude ? lat : lng) !== -1) {
+      throw new TypeError(`Duplicate celestial axis: ${CTYPE[i]}`)
+    }
+    if (isLatitude) lat = i
+    else lng = i
+  }
+
+  if (lng === -1 && lat === -1) {
+    return null
+  }
+  if (lng === -1 || lat === -1) {
+    throw new TypeError(`Unmatched celestial axis: ${CTYPE[lng === -1 ? lat : lng]}`)
+  }
+
+  // RA pairs with DEC, xLON with xLAT and xyLN with xyLT
+  const lngType = CTYPE[lng]!.slice(0, 4)
+  const latType = CTYPE[lat]!.slice(0, 4)
+  const paired = lngType === "RA--"
+    ? latType === "DEC-"
+    : lngType.endsWith("LON") ? latType === `${lngType[0]}LAT` : latType === `${lngType.slice(0, 2)}LT`
+  if (!paired || CTYPE[lng]!.slice(5, 8) !== CTYPE[lat]!.slice(5, 8)) {
+    throw new TypeError(`Mismatched celestial axes: ${CTYPE[lng]} and ${CTYPE[lat]}`)
+  }
+
+  return { lng, lat, projection: CTYPE[lng]!.slice(5, 8) }
+}
+
+/**
+ * The celestial coordinates of the native pole, and the native longitude of the celestial pole, which define the
+ * rotation between native and celestial spherical coordinates.
+ */
+interface FITSNativePole {
+  /** The celestial longitude of the native pole (αp), in degrees. */
+  alpha: number
+  /** The celestial latitude of the native pole (δp), in degrees. */
+  delta: number
+  /** The native longitude of the celestial pole (φp), in degrees. */
+  phi: number
+}
+
+/**
+ * Computes the celestial coordinates of the native pole from the ones of the fiducial point (see Section "2.4.
+ * Coordinate rotation" of the paper).
+ *
+ * @param {number} alpha0 The celestial longitude of the fiducial point (CRVAL of the longitude axis), in degrees.
+ * @param {number} delta0 The celestial latitude of the fiducial point (CRVAL of the latitude axis), in degrees.
+ * @param {FITSProjection} projection The projection, which has the native coordinates of the fiducial point.
+ * @param {number | undefined} LONPOLE The native longitude of the celestial pole, if given.
+ * @param {number} LATPOLE The celestial latitude of the native pole, used to choose between two solutions.
+ * @returns {FITSNativePole} The native pole.
+ * @throws {RangeError} If there is no valid solution.
+ */
+function getNativePole(alpha0: number, delta0: number, projection: FITSProjection, LONPOLE: number | undefined, LATPOLE: number): FITSNativePole {
+  const { phi0, theta0 } = projection
+  // By default, the celestial pole is in the direction of increasing native latitude at the fiducial point
+  const phi = LONPOLE ?? (delta0 < theta0 ? 180 : 0) + phi0
+
+  if (theta0 === 90) {
+    return { alpha: alpha0, delta: delta0, phi }
+  }
+
+  // δp = u ± v, and the solution closer to LATPOLE is kept
+  const x = cosd(theta0) * cosd(phi - phi0)
+  const y = sind(theta0)
+  const z = Math.hypot(x, y)
+  let delta: number
+  if (z === 0) {
+    if (sind(delta0) !== 0) {
+      throw new RangeError("Invalid celestial WCS: there is no valid latitude for the native pole")
+    }
+    delta = LATPOLE
+  }
+  else {
+    const ratio = sind(delta0) / z
+    if (Math.abs(ratio) > 1 + POLE_TOLERANCE) {
+      throw new RangeError("Invalid celestial WCS: there is no valid latitude for the native pole")
+    }
+    const u = atan2d(y, x)
+    const v = Math.acos(Math.min(Math.max(ratio, -1), 1)) * 180 / Math.PI
+    const wrap = (angle: number): number => angle > 180 ? angle - 360 : angle < -180 ? angle + 360 : angle
+    const solutions = [wrap(u + v), wrap(u - v)].filter(solution => Math.abs(solution) <= 90 + POLE_TOLERANCE)
+    if (solutions.length === 0) {
+      throw new RangeError("Invalid celestial WCS: there is no valid latitude for the native pole")
+    }
+    delta = solutions.reduce((best, solution) => Math.abs(LATPOLE - solution) < Math.abs(LATPOLE - best) ? solution : best)
+  }
+  delta = Math.min(Math.max(delta, -90), 90)
+
+  let alpha: number
+  const w = cosd(delta) * cosd(delta0)
+  if (Math.abs(w) < POLE_TOLERANCE) {
+    // One of the celestial poles is the fiducial point, or the native pole
+    alpha = Math.abs(cosd(delta0)) < POLE_TOLERANCE
+      ? alpha0
+      : delta > 0 ? alpha0 + phi - phi0 - 180 : alpha0 - phi + phi0
+  }
+  else {
+    alpha = alpha0 - atan2d(sind(phi - phi0) * cosd(theta0) / cosd(delta0), (sind(theta0) - sind(delta) * sind(delta0)) / w)
+  }
+
+  // The longitude of the native pole has the same sign as the one of the fiducial point
+  if (alpha0 >= 0) {
+    alpha = alpha < 0 ? alpha + 360 : alpha > 360 ? alpha - 360 : alpha
+  }
+  else {
+    alpha = alpha > 0 ? alpha - 360 : alpha < -360 ? alpha + 360 : alpha
+  }
+
+  return { alpha, delta, phi }
+}
+
+/**
+ * Normalizes a celestial longitude to [0, 360], or to [-360, 0] if the longitude of the native pole is negative.
+ *
+ * @param {number} longitude The longitude, in degrees.
+ * @param {FITSNativePole} pole The native pole.
+ * @returns {number} The normalized longitude.
+ */
+function normalizeLongitude(longitude: number, pole: FITSNativePole): number {
+  longitude %= 360
+  if (pole.alpha >= 0) {
+    return longitude < 0 ? longitude + 360 : longitude
+  }
+  return longitude > 0 ? longitude - 360 : longitude
+}
+
+/**
+ * A world coordinate system (WCS), which converts between pixel and world coordinates. Pixel coordinates are 1-based,
+ * like in {@link FITSData.getPoint}, so the center of the first pixel is at `1`. Celestial coordinates are in
+ * degrees, and the rest of them in the units of their axis.
+ */
+export class FITSWCS {
+  #inverse: number[][] | null = null
+  readonly #projection: FITSProjection | null
+  readonly #pole: FITSNativePole | null
+
+  private constructor(
+    /** The number of axes of the WCS (WCSAXES, or NAXIS if it's not present). */
+    readonly NAXIS: number,
+    /** The pixel coordinates of the reference point, along each axis. They default to `0`. */
+    readonly CRPIX: number[],
+    /** The world coordinates of the reference point, along each axis. They default to `0`. */
+    readonly CRVAL: number[],
+    /** The type of each axis, or an empty string if it's not present. */
+    readonly CTYPE: string[],
+    /**
+     * The units of the world coordinates of each axis, or an empty string if they are not present. Celestial axes are
+     * always in degrees (`deg`), since other angular units are converted.
+     */
+    readonly CUNIT: string[],
+    /**
+     * The linear transformation from pixel offsets to intermediate world coordinates, by rows: CDi_j, or CDELTi ×
+     * PCi_j (with the rotation of CROTAi when there is no matrix).
+     */
+    readonly CD: number[][],
+    /** The celestial axes, or `null` if there are none. */
+    readonly celestial: FITSWCSCelestial | null,
+    projection: FITSProjection | null,
+    pole: FITSNativePole | null,
+  ) {
+    this.#projection = projection
+    this.#pole = pole
+  }
+
+  /**
+   * Converts pixel coordinates to world coordinates. Celestial coordinates that fall outside of the projection are
+   * NaN.
+   *
+   * @param {number[]} pixel The 1-based pixel coordinates, in the order of the axes `(p1, p2, ..., pNAXIS)`.
+   * @returns {number[]} The world coordinates, in the units of {@link CUNIT}.
+   * @throws {RangeError} If the number of coordinates doesn't match the number of axes.
+   */
+  public pixelToWorld(pixel: number[]): number[] {
+    if (pixel.length !== this.NAXIS) {
+      throw new RangeError(`Expected ${this.NAXIS} pixel coordinates, but got ${pixel.length}`)
+    }
+
+    const offsets = pixel.map((p, j) => p - this.CRPIX[j]!)
+    const intermediate = this.CD.map(row => row.reduce((accum, value, j) => accum + value * offsets[j]!, 0))
+    const world = intermediate.map((x, i) => this.CRVAL[i]! + x)
+
+    if (this.celestial) {
+      const { lng, lat } = this.celestial
+      const pole = this.#pole!
+      const [phi, theta] = this.#projection!.toNative(intermediate[lng]!, intermediate[lat]!)
+
+      // Rotation from native (φ, θ) to celestial (α, δ) coordinates
+      const cosTheta = cosd(theta)
+      const sinTheta = sind(theta)
+      const dphi = phi - pole.phi
+      world[lng] = normalizeLongitude(pole.alpha + atan2d(
+        -cosTheta * sind(dphi),
+        sinTheta * cosd(pole.delta) - cosTheta * sind(pole.delta) * cosd(dphi),
+      ), pole)
+      world[lat] = asind(sinTheta * sind(pole.delta) + cosTheta * cosd(pole.delta) * cosd(dphi))
+    }
+
+    return world
+  }
+
+  /**
+   * Converts world coordinates to pixel coordinates. The pixel coordinates are not rounded, nor checked to be inside
+   * the image. Celestial coordinates that are not visible in the projection give NaN for every axis.
+   *
+   * @param {number[]} world The world coordinates, in the order of the axes and in the units of {@link CUNIT}.
+   * @returns {number[]} The 1-based pixel coordinates.
+   * @throws {RangeError} If the number of coordinates doesn't match the number of axes.
+   * @throws {RangeError} If the linear transformation can't be inverted.
+   */
+  public worldToPixel(world: number[]): number[] {
+    if (world.length !== this.NAXIS) {
+      throw new RangeError(`Expected ${this.NAXIS} world coordinates, but got ${world.length}`)
+    }
+
+    const intermediate = world.map((w, i) => w - this.CRVAL[i]!)
+
+    if (this.celestial) {
+      const { lng, lat } = this.celestial
+      const pole = this.#pole!
+
+      // Rotation from celestial (α, δ) to native (φ, θ) coordinates
+      const cosDelta = cosd(world[lat]!)
+      const sinDelta = sind(world[lat]!)
+      const dalpha = world[lng]! - pole.alpha
+      let phi = pole.phi + atan2d(
+        -cosDelta * sind(dalpha),
+        sinDelta * cosd(pole.delta) - cosDelta * sind(pole.delta) * cosd(dalpha),
+      )
+      phi = phi > 180 ? phi - 360 : phi < -180 ? phi + 360 : phi
+      const theta = asind(sinDelta * sind(pole.delta) + cosDelta * cosd(pole.delta) * cosd(dalpha))
+
+      const [x, y] = this.#projection!.fromNative(phi, theta)
+      intermediate[lng] = x
+      intermediate[lat] = y
+    }
+
+    this.#inverse ??= invertMatrix(this.CD)
+    return this.#inverse.map((row, j) => this.CRPIX[j]! + row.reduce((accum, value, i) => accum + value * intermediate[i]!, 0))
+  }
+
+  public toJSON(): unknown {
+    return {
+      NAXIS: this.NAXIS,
+      CRPIX: this.CRPIX,
+      CRVAL: this.CRVAL,
+      CTYPE: this.CTYPE,
+      CUNIT: this.CUNIT,
+      CD: this.CD,
+      celestial: this.celestial,
+    }
+  }
+
+  /**
+   * Reads the WCS of an HDU from its header. Either CDi_j or PCi_j (with CDELTi) can be used, and PCi_j takes
+   * precedence if both are present. Without any of them, the legacy CROTAi of the latitude axis (or CROTA2, if there
+   * are no celestial axes) rotates the celestial axes (or the first two), as described in Section 6.1 of
+   * "Representations of celestial coordinates in FITS".
+   *
+   * Celestial axes are paired by their CTYPEi (`RA`/`DEC`, `xLON`/`xLAT` or `xyLN`/`xyLT`), and their projection
+   * parameters are read from PVi_m of the latitude axis. LONPOLE and LATPOLE (or PVi_3 and PVi_4 of the longitude
+   * axis) are optional, and so are the native coordinates of the fiducial point (PVi_1 and PVi_2 of the longitude
+   * axis).
+   *
+   * @param {FITSHeader} header The header of the HDU.
+   * @param {string} [alternative] The letter of an alternative WCS (`A` to `Z`), or an empty string for the primary
+   *                               one.
+   * @returns {FITSWCS} The WCS.
+   * @throws {RangeError} If the alternative is not valid, or the celestial pole can't be placed.
+   * @throws {TypeError} If a card of the WCS is not valid, the celestial axes are not paired, or their projection or
+   *                     distortion is not supported.
+   */
+  static fromHeader(header: FITSHeader, alternative: string = ""): FITSWCS {
+    if (!/^[A-Z]?$/.test(alternative)) {
+      throw new RangeError(`Invalid alternative WCS: expected a letter from A to Z, but got "${alternative}"`)
+    }
+
+    const a = alternative
+    const NAXIS = getNumber(header, `WCSAXES${a}`, header.getValue("NAXIS") ?? 0)
+    const axes = Array.from({ length: NAXIS }, (_, i) => i + 1)
+
+    const CRPIX = axes.map(i => getNumber(header, `CRPIX${i}${a}`, 0))
+    const CRVAL = axes.map(i => getNumber(header, `CRVAL${i}${a}`, 0))
+    const CTYPE = axes.map(i => String(header.getValue(`CTYPE${i}${a}`) ?? "").trim())
+    const CUNIT = axes.map(i => String(header.getValue(`CUNIT${i}${a}`) ?? "").trim())
+    const CDELT = axes.map(i => getNumber(header, `CDELT${i}${a}`, 1))
+    const celestialAxes = findCelestialAxes(CTYPE)
+
+    const hasMatrix = (matrix: "PC" | "CD"): boolean =>
+      axes.some(i => axes.some(j => header.getValue(`${matrix}${i}_${j}${a}`) !== undefined))
+
+    let CD: number[][]
+    if (hasMatrix("CD") && !hasMatrix("PC")) {
+      CD = axes.map(i => axes.map(j => getNumber(header, `CD${i}_${j}${a}`, 0)))
+    }
+    else {
+      const PC = axes.map(i => axes.map(j => getNumber(header, `PC${i}_${j}${a}`, i === j ? 1 : 0)))
+
+      const [i, j] = celestialAxes ? [celestialAxes.lng, celestialAxes.lat] : [0, 1]
+      const CROTA = a === "" && NAXIS >= 2 && !hasMatrix("PC") ? getNumber(header, `CROTA${j + 1}`, 0) : 0
+      if (CROTA !== 0) {
+        PC[i]![i] = cosd(CROTA)
+        PC[i]![j] = -sind(CROTA) * CDELT[j]! / CDELT[i]!
+        PC[j]![i] = sind(CROTA) * CDELT[i]! / CDELT[j]!
+        PC[j]![j] = cosd(CROTA)
+      }
+
+      CD = PC.map((row, i) => row.map(value => CDELT[i]! * value))
+    }
+
+    if (!celestialAxes) {
+      return new FITSWCS(NAXIS, CRPIX, CRVAL, CTYPE, CUNIT, CD, null, null, null)
+    }
+
+    // Celestial coordinates are converted to degrees
+    const { lng, lat } = celestialAxes
+    for (const i of [lng, lat]) {
+      const scale = ANGLE_UNITS[CUNIT[i]!]
+      if (scale === undefined) {
+        throw new TypeError(`Unexpected CUNIT${i + 1}${a} value for a celestial axis: ${CUNIT[i]}`)
+      }
+      CRVAL[i] = CRVAL[i]! * scale
+      CD[i] = CD[i]!.map(value => value * scale)
+      CUNIT[i] = "deg"
+    }
+
+    const getOptionalNumber = (keyword: string): number | undefined => {
+      const value = getNumber(header, keyword, Number.NaN)
+      return Number.isNaN(value) ? undefined : value
+    }
+    const parameters = Array.from({ length: 4 }, (_, m) => getOptionalNumber(`PV${lat + 1}_${m}${a}`))
+    const projection = getProjection(celestialAxes.projection, parameters)
+
+    // The fiducial point can be moved, but not the origin of the plane of projection
+    if ((getOptionalNumber(`PV${lng + 1}_0${a}`) ?? 0) !== 0) {
+      throw new TypeError(`Unsupported PV${lng + 1}_0${a} value: the offset of the plane of projection is not supported`)
+    }
+    projection.phi0 = getOptionalNumber(`PV${lng + 1}_1${a}`) ?? projection.phi0
+    projection.theta0 = getOptionalNumber(`PV${lng + 1}_2${a}`) ?? projection.theta0
+
+    const LONPOLE = getOptionalNumber(`LONPOLE${a}`) ?? getOptionalNumber(`PV${lng + 1}_3${a}`)
+    const LATPOLE = getOptionalNumber(`LATPOLE${a}`) ?? getOptionalNumber(`PV${lng + 1}_4${a}`) ?? 90
+    const pole = getNativePole(CRVAL[lng]!, CRVAL[lat]!, projection, LONPOLE, LATPOLE)
+
+    const celestial = { ...celestialAxes, LONPOLE: pole.phi, LATPOLE: pole.delta }
+    return new FITSWCS(NAXIS, CRPIX, CRVAL, CTYPE, CUNIT, CD, celestial, projection, pole)
+  }
+}
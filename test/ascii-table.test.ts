@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest"
+
+import { FITS, FITSFile } from "../src"
+import { concatBlocks } from "../src/FITS"
+
+function buildTable(rows: string[], columns: [name: string, TBCOL: number, TFORM: string][]): ArrayBuffer {
+  const primary = FITS.fromDataArray([], 8, [])
+  const header = primary.header.copyWith(8, [rows[0]!.length, rows.length], { XTENSION: "TABLE" })
+  header.append("TFIELDS", columns.length)
+  columns.forEach(([name, TBCOL, TFORM], i) => {
+    header.append(`TTYPE${i + 1}`, name)
+    header.append(`TBCOL${i + 1}`, TBCOL)
+    header.append(`TFORM${i + 1}`, TFORM)
+  })
+  header.append("TNULL2", "-999")
+  header.append("TSCAL3", 2)
+  header.append("TZERO3", 10)
+
+  return concatBlocks([
+    primary.header.copyWith(8, [], { EXTEND: true }).toBuffer(),
+    header.toBuffer(),
+    new TextEncoder().encode(rows.join("")).buffer,
+  ])
+}
+
+describe("ascii table reader", () => {
+  const buffer = buildTable(
+    [
+      "Vega        1   1.5  1.25D+02 ",
+      "Sirius   -999  -2.0   -3.5E-1 ",
+      "Deneb          15          42 ",
+    ],
+    [["NAME", 1, "A8"], ["COUNT", 10, "I4"], ["FLUX", 15, "F5.1"], ["DIST", 20, "E10.2"]],
+  )
+
+  it("parses the column definitions", () => {
+    const [table] = FITSFile.fromBuffer(buffer).extensions
+    if (!table.isASCIITable()) throw new TypeError("Expected an ASCII table")
+
+    expect(table.data.rowLength).toBe(30)
+    expect(table.data.rowCount).toBe(3)
+    expect(table.data.columns[3]).toMatchObject({ name: "DIST", type: "E", width: 10, decimals: 2, TBCOL: 20 })
+    expect(table.data.columns[1]).toMatchObject({ TNULL: "-999", TSCAL: 1, TZERO: 0 })
+  })
+
+  it("reads fields by position", () => {
+    const [table] = FITSFile.fromBuffer(buffer).extensions
+    if (!table.isASCIITable()) throw new TypeError("Expected an ASCII table")
+
+    expect(table.data.getColumn("NAME")).toEqual(["Vega", "Sirius", "Deneb"])
+    expect(table.data.getColumn("COUNT")).toEqual(new Float64Array([1, Number.NaN, Number.NaN]))
+    expect(table.data.getColumn("FLUX")).toEqual(new Float64Array([13, 6, 13]))
+    // The last value has no decimal point, so its last two digits are the fractional part
+    expect(table.data.getColumn("DIST")).toEqual(new Float64Array([125, -0.35, 0.42]))
+    expect(table.data.getRow(1)).toEqual({ NAME: "Vega", COUNT: 1, FLUX: 13, DIST: 125 })
+    expect(table.data.toString()).toBe("3 rows x 4 columns ASCII table")
+  })
+
+  it("rejects fields outside the row", () => {
+    const invalid = buildTable(["abc"], [["A", 1, "A2"], ["B", 3, "I2"], ["C", 1, "F1.0"]])
+    expect(() => FITSFile.fromBuffer(invalid)).toThrow("Field 2 (TBCOL2 = 3, TFORM2 = 'I2') doesn't fit in NAXIS1 = 3")
+  })
+})
+
+describe("ascii table writer", () => {
+  it("writes the header cards and round-trips columnar data", () => {
+    const table = FITS.fromASCIIColumns([
+      { name: "NAME", data: ["Vega", "Sirius", "Deneb"] },
+      { name: "ID", data: [1, -20, Number.NaN], TNULL: "NULL" },
+      { name: "MAG", data: new Float32Array([0.03, -1.46, 1.25]), unit: "mag" },
+      { name: "DIST", data: [7.68, 2.64, 802] },
+      { name: "TEMP", data: [9.5, 10, Number.NaN], TFORM: "F8.2", TSCAL: 0.5, TNULL: "*" },
+    ])
+
+    expect(table.header.getValue("XTENSION")).toBe("TABLE")
+    expect(table.header.getValue("TFIELDS")).toBe(5)
+    expect(table.header.getValue("TFORM1")).toBe("A6")
+    expect(table.header.getValue("TFORM2")).toBe("I4")
+    expect(table.header.getValue("TFORM3")).toBe("E15.7")
+    expect(table.header.getValue("TFORM4")).toBe("D25.17")
+    expect([1, 2, 3, 4, 5].map(n => table.header.getValue(`TBCOL${n}`))).toEqual([1, 8, 13, 29, 55])
+    expect(table.header.getValue("NAXIS1")).toBe(62)
+    expect(table.header.getValue("TUNIT3")).toBe("mag")
+
+    const buffer = FITSFile.fromHDUs(FITS.fromDataArray([], 8, []), [table]).toBuffer()
+    const [parsed] = FITSFile.fromBuffer(buffer).extensions
+    if (!parsed.isASCIITable()) throw new TypeError("Expected an ASCII table")
+
+    expect(new TextDecoder().decode(parsed.data.toBuffer()).slice(0, 62))
+      .toBe("Vega      1   2.9999999E-02   7.67999999999999972E+00    19.00")
+    expect(parsed.data.getColumn("NAME")).toEqual(["Vega", "Sirius", "Deneb"])
+    expect(parsed.data.getColumn("ID")).toEqual(new Float64Array([1, -20, Number.NaN]))
+    expect(new Float32Array(parsed.data.getColumn("MAG") as Float64Array)).toEqual(new Float32Array([0.03, -1.46, 1.25]))
+    expect(parsed.data.getColumn("DIST")).toEqual(new Float64Array([7.68, 2.64, 802]))
+    expect(parsed.data.getColumn("TEMP")).toEqual(new Float64Array([9.5, 10, Number.NaN]))
+  })
+
+  it("validates the columns", () => {
+    expect(() => FITS.fromASCIIColumns([
+      { name: "A", data: [1, 2] },
+      { name: "B", data: [1] },
+    ])).toThrow(RangeError)
+    expect(() => FITS.fromASCIIColumns([{ name: "S", data: ["too long"], TFORM: "A4" }])).toThrow(RangeError)
+    expect(() => FITS.fromASCIIColumns([{ name: "N", data: [123456], TFORM: "I3" }])).toThrow(RangeError)
+    expect(() => FITS.fromASCIIColumns([{ name: "N", data: [Number.NaN], TFORM: "I3" }])).toThrow(TypeError)
+    expect(() => FITS.fromASCIIColumns([{ name: "N", data: [1], TFORM: "F8" }])).toThrow(TypeError)
+  })
+})
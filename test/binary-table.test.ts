@@ -0,0 +1,284 @@
+import { describe, expect, it } from "vitest"
+
+import { FITS, FITSFile } from "../src"
+import { concatBlocks } from "../src/FITS"
+
+function buildTable(): ArrayBuffer {
+  const primary = FITS.fromDataArray([], 8, [])
+  // ID 1J (4) + NAME 6A (6) + FLUX 1E (4) + POS 2D (16) + FLAG 1L (1) + BITS 3X (1) + COUNT 1I (2) + CPX 1C (8)
+  // + BIG 1K (8) + QUAL 1B (1) = 51 bytes
+  const header = primary.header.copyWith(8, [51, 2], { XTENSION: "BINTABLE" })
+  header.append("TFIELDS", 10)
+  const columns = [
+    ["ID", "1J"],
+    ["NAME", "6A"],
+    ["FLUX", "E"],
+    ["POS", "2D"],
+    ["FLAG", "1L"],
+    ["BITS", "3X"],
+    ["COUNT", "1I"],
+    ["CPX", "1C"],
+    ["BIG", "1K"],
+    ["QUAL", "1B"],
+  ]
+  columns.forEach(([name, form], i) => {
+    header.append(`TTYPE${i + 1}`, name)
+    header.append(`TFORM${i + 1}`, form)
+  })
+  header.append("TUNIT3", "Jy")
+  header.append("TZERO7", 32768)
+  header.append("TSCAL10", 0.5)
+  header.append("TZERO10", 1)
+  header.append("TNULL10", 255)
+
+  const data = new ArrayBuffer(51 * 2)
+  const view = new DataView(data)
+  const ascii = new TextEncoder()
+  const rows = [
+    { id: 1, name: "alpha", flux: 1.5, pos: [10.25, -5.5], flag: 0x54, bits: 0b1010_0000, count: 0, cpx: [1, -1], big: 2n ** 40n, qual: 4 },
+    { id: -2, name: "beta", flux: -0.25, pos: [0, 90], flag: 0x00, bits: 0b0110_0000, count: 65535 - 32768, cpx: [0.5, 2], big: -3n, qual: 255 },
+  ]
+  rows.forEach((row, i) => {
+    const start = i * 51
+    view.setInt32(start, row.id)
+    new Uint8Array(data, start + 4, 6).set(ascii.encode(row.name))
+    view.setFloat32(start + 10, row.flux)
+    view.setFloat64(start + 14, row.pos[0])
+    view.setFloat64(start + 22, row.pos[1])
+    view.setUint8(start + 30, row.flag)
+    view.setUint8(start + 31, row.bits)
+    view.setInt16(start + 32, row.count)
+    view.setFloat32(start + 34, row.cpx[0])
+    view.setFloat32(start + 38, row.cpx[1])
+    view.setBigInt64(start + 42, row.big)
+    view.setUint8(start + 50, row.qual)
+  })
+
+  return concatBlocks([
+    primary.header.copyWith(8, [], { EXTEND: true }).toBuffer(),
+    header.toBuffer(),
+    data,
+  ])
+}
+
+describe("binary table reader", () => {
+  it("parses the column definitions", () => {
+    const [table] = FITSFile.fromBuffer(buildTable()).extensions
+    expect(table.isBinaryTable()).toBe(true)
+    if (!table.isBinaryTable()) return
+
+    expect(table.data.rowCount).toBe(2)
+    expect(table.data.rowLength).toBe(51)
+    expect(table.data.columns.map(({ name, type, repeat, offset, width }) => ({ name, type, repeat, offset, width }))).toEqual([
+      { name: "ID", type: "J", repeat: 1, offset: 0, width: 4 },
+      { name: "NAME", type: "A", repeat: 6, offset: 4, width: 6 },
+      { name: "FLUX", type: "E", repeat: 1, offset: 10, width: 4 },
+      { name: "POS", type: "D", repeat: 2, offset: 14, width: 16 },
+      { name: "FLAG", type: "L", repeat: 1, offset: 30, width: 1 },
+      { name: "BITS", type: "X", repeat: 3, offset: 31, width: 1 },
+      { name: "COUNT", type: "I", repeat: 1, offset: 32, width: 2 },
+      { name: "CPX", type: "C", repeat: 1, offset: 34, width: 8 },
+      { name: "BIG", type: "K", repeat: 1, offset: 42, width: 8 },
+      { name: "QUAL", type: "B", repeat: 1, offset: 50, width: 1 },
+    ])
+    expect(table.data.columns[2]!.unit).toBe("Jy")
+  })
+
+  it("returns typed columns", () => {
+    const [table] = FITSFile.fromBuffer(buildTable()).extensions
+    if (!table.isBinaryTable()) throw new TypeError("Expected a binary table")
+
+    expect(table.data.getColumn("ID")).toEqual(new Int32Array([1, -2]))
+    expect(table.data.getColumn("name")).toEqual(["alpha", "beta"])
+    expect(table.data.getColumn(3)).toEqual(new Float32Array([1.5, -0.25]))
+    expect(table.data.getColumn("POS")).toEqual(new Float64Array([10.25, -5.5, 0, 90]))
+    expect(table.data.getColumn("FLAG")).toEqual([true, null])
+    expect(table.data.getColumn("BITS")).toEqual(new Uint8Array([1, 0, 1, 0, 1, 1]))
+    expect(table.data.getColumn("COUNT")).toEqual(new Uint16Array([32768, 65535]))
+    expect(table.data.getColumn("CPX")).toEqual(new Float32Array([1, -1, 0.5, 2]))
+    expect(table.data.getColumn("BIG")).toEqual(new BigInt64Array([2n ** 40n, -3n]))
+    expect(table.data.getColumn("QUAL")).toEqual(new Float64Array([3, Number.NaN]))
+    expect(() => table.data.getColumn("MISSING")).toThrow(ReferenceError)
+  })
+
+  it("returns rows and cells", () => {
+    const [table] = FITSFile.fromBuffer(buildTable()).extensions
+    if (!table.isBinaryTable()) throw new TypeError("Expected a binary table")
+
+    expect(table.data.getCell(2, "CPX")).toEqual([0.5, 2])
+    expect(table.data.getCell(1, "POS")).toEqual(new Float64Array([10.25, -5.5]))
+    expect(table.data.getRow(1)).toEqual({
+      ID: 1,
+      NAME: "alpha",
+      FLUX: 1.5,
+      POS: new Float64Array([10.25, -5.5]),
+      FLAG: true,
+      BITS: new Uint8Array([1, 0, 1]),
+      COUNT: 32768,
+      CPX: [1, -1],
+      BIG: 2n ** 40n,
+      QUAL: 3,
+    })
+    expect(Array.from(table.data.getRows(), row => row.ID)).toEqual([1, -2])
+    expect(() => table.data.getRow(3)).toThrow(RangeError)
+    expect(JSON.stringify(table.data)).toContain(`"BIG":"-3"`)
+  })
+
+  it("rejects columns that don't match NAXIS1", () => {
+    const primary = FITS.fromDataArray([], 8, [])
+    const header = primary.header.copyWith(8, [5, 0], { XTENSION: "BINTABLE" })
+    header.append("TFIELDS", 1)
+    header.append("TFORM1", "1J")
+
+    const buffer = concatBlocks([primary.header.copyWith(8, [], { EXTEND: true }).toBuffer(), header.toBuffer()])
+    expect(() => FITSFile.fromBuffer(buffer)).toThrow("Expected the fields to add up to NAXIS1 = 5 bytes, but got 4")
+  })
+})
+
+describe("binary table writer", () => {
+  it("writes the header cards and round-trips columnar data", () => {
+    const table = FITS.fromColumns([
+      { name: "ID", data: new Int32Array([1, 2, 3]) },
+      { name: "NAME", data: ["Vega", "Sirius", "Deneb"] },
+      { name: "FLUX", data: new Float64Array([0.03, -1.46, 1.25]), unit: "mag" },
+      { name: "POS", data: new Float32Array([1, 2, 3, 4, 5, 6]), TDIM: [2] },
+      { name: "VAR", data: [true, false, null] },
+      { name: "COUNT", data: new Uint16Array([0, 40000, 65535]) },
+      { name: "FLAGS", data: new Uint8Array([1, 0, 1, 0, 0, 0, 1, 1, 1]), TFORM: "3X" },
+    ])
+
+    expect(table.header.getValue("XTENSION")).toBe("BINTABLE")
+    expect(table.header.getValue("NAXIS1")).toBe(4 + 6 + 8 + 8 + 1 + 2 + 1)
+    expect(table.header.getValue("NAXIS2")).toBe(3)
+    expect(table.header.getValue("TFIELDS")).toBe(7)
+    expect(table.header.getValues("TFORM1")).toEqual(["1J"])
+    expect(table.header.getValue("TFORM2")).toBe("6A")
+    expect(table.header.getValue("TFORM4")).toBe("2E")
+    expect(table.header.getValue("TDIM4")).toBe("(2)")
+    expect(table.header.getValue("TZERO6")).toBe(32768)
+    expect(table.header.getValue("TUNIT3")).toBe("mag")
+
+    const buffer = FITSFile.fromHDUs(FITS.fromDataArray([], 8, []), [table]).toBuffer()
+    const [parsed] = FITSFile.fromBuffer(buffer).extensions
+    if (!parsed.isBinaryTable()) throw new TypeError("Expected a binary table")
+
+    expect(parsed.data.getColumn("ID")).toEqual(new Int32Array([1, 2, 3]))
+    expect(parsed.data.getColumn("NAME")).toEqual(["Vega", "Sirius", "Deneb"])
+    expect(parsed.data.getColumn("FLUX")).toEqual(new Float64Array([0.03, -1.46, 1.25]))
+    expect(parsed.data.getColumn("POS")).toEqual(new Float32Array([1, 2, 3, 4, 5, 6]))
+    expect(parsed.data.getColumn("VAR")).toEqual([true, false, null])
+    expect(parsed.data.getColumn("COUNT")).toEqual(new Uint16Array([0, 40000, 65535]))
+    expect(parsed.data.getColumn("FLAGS")).toEqual(new Uint8Array([1, 0, 1, 0, 0, 0, 1, 1, 1]))
+  })
+
+  it("applies scaling and null values", () => {
+    const table = FITS.fromColumns([
+      { name: "TEMP", data: new Float64Array([20.5, Number.NaN, -3]), TFORM: "1I", TSCAL: 0.5, TZERO: 100, TNULL: -32768 },
+      { name: "BIG", data: new BigUint64Array([0n, 1n, 2n ** 64n - 1n]) },
+    ])
+
+    expect(table.header.getValue("TSCAL1")).toBe(0.5)
+    expect(table.header.getValue("TZERO1")).toBe(100)
+    expect(table.header.getValue("TNULL1")).toBe(-32768)
+    expect(table.header.getValue("TFORM2")).toBe("1K")
+    expect(table.data.getColumn("TEMP")).toEqual(new Float64Array([20.5, Number.NaN, -3]))
+    expect(table.data.getColumn("BIG")).toEqual(new BigUint64Array([0n, 1n, 2n ** 64n - 1n]))
+  })
+
+  it("replaces the field definitions of a copied header", () => {
+    const original = FITS.fromColumns([{ name: "A", data: new Int16Array([1]) }, { name: "B", data: new Int16Array([2]) }])
+    original.header.set("EXTNAME", "EVENTS")
+
+    const copy = FITS.fromColumns([{ name: "C", data: new Float32Array([3, 4]) }], original.header)
+    expect(copy.header.getValue("EXTNAME")).toBe("EVENTS")
+    expect(copy.header.getValue("TFIELDS")).toBe(1)
+    expect(copy.header.getValue("TTYPE1")).toBe("C")
+    expect(copy.header.getValue("TTYPE2")).toBeUndefined()
+  })
+
+  it("validates the columns", () => {
+    expect(() => FITS.fromColumns([
+      { name: "A", data: new Int16Array([1, 2]) },
+      { name: "B", data: new Int16Array([1]) },
+    ])).toThrow(RangeError)
+    expect(() => FITS.fromColumns([{ name: "S", data: ["too long"], TFORM: "4A" }])).toThrow(RangeError)
+    expect(() => FITS.fromColumns([{ name: "N", data: new Float64Array([Number.NaN]), TFORM: "J" }])).toThrow(TypeError)
+  })
+})
+
+describe("variable-length arrays", () => {
+  it("writes the heap and round-trips one array per row", () => {
+    const table = FITS.fromColumns([
+      { name: "ID", data: new Int16Array([1, 2, 3]) },
+      { name: "SPEC", data: [new Float32Array([1.5, 2.5]), new Float32Array([]), new Float32Array([3, 4, 5])] },
+      { name: "CHAN", data: [new Uint16Array([40000]), new Uint16Array([1, 2]), new Uint16Array([])] },
+      { name: "NOTE", data: ["a", "bc", ""] },
+    ])
+
+    expect(table.header.getValue("TFORM2")).toBe("1PE(3)")
+    expect(table.header.getValue("TFORM3")).toBe("1PI(2)")
+    expect(table.header.getValue("TZERO3")).toBe(32768)
+    expect(table.header.getValue("NAXIS1")).toBe(2 + 8 + 8 + 2)
+    expect(table.header.getValue("PCOUNT")).toBe(5 * 4 + 3 * 2)
+    expect(table.header.getValue("THEAP")).toBe(20 * 3)
+
+    const buffer = FITSFile.fromHDUs(FITS.fromDataArray([], 8, []), [table]).toBuffer()
+    const [parsed] = FITSFile.fromBuffer(buffer).extensions
+    if (!parsed.isBinaryTable()) throw new TypeError("Expected a binary table")
+
+    expect(parsed.data.PCOUNT).toBe(26)
+    expect(parsed.data.columns[1]).toMatchObject({ type: "E", repeat: 1, descriptor: "P", maxLength: 3, width: 8 })
+    expect(parsed.data.getColumn("SPEC")).toEqual([new Float32Array([1.5, 2.5]), new Float32Array([]), new Float32Array([3, 4, 5])])
+    expect(parsed.data.getColumn("CHAN")).toEqual([new Uint16Array([40000]), new Uint16Array([1, 2]), new Uint16Array([])])
+    expect(parsed.data.getCell(1, "CHAN")).toEqual(new Uint16Array([40000]))
+    expect(parsed.data.getRow(3)).toEqual({ ID: 3, SPEC: new Float32Array([3, 4, 5]), CHAN: new Uint16Array([]), NOTE: "" })
+  })
+
+  it("reads 64-bit descriptors and a heap after a gap", () => {
+    const primary = FITS.fromDataArray([], 8, [])
+    // 2 rows of 1QJ (16 bytes), a gap of 8 bytes and a heap of 3 integers
+    const header = primary.header.copyWith(8, [16, 2], { XTENSION: "BINTABLE", PCOUNT: 8 + 12 })
+    header.append("TFIELDS", 1)
+    header.append("TTYPE1", "COUNTS")
+    header.append("TFORM1", "1QJ(2)")
+    header.append("THEAP", 40)
+
+    const data = new DataView(new ArrayBuffer(32 + 8 + 12))
+    data.setBigInt64(0, 1n)
+    data.setBigInt64(8, 8n)
+    data.setBigInt64(16, 2n)
+    data.setBigInt64(24, 0n)
+    data.setInt32(40, 7)
+    data.setInt32(44, 8)
+    data.setInt32(48, 9)
+
+    const [table] = FITSFile.fromBuffer(concatBlocks([
+      primary.header.copyWith(8, [], { EXTEND: true }).toBuffer(),
+      header.toBuffer(),
+      data.buffer,
+    ])).extensions
+    if (!table.isBinaryTable()) throw new TypeError("Expected a binary table")
+
+    expect(table.data.THEAP).toBe(40)
+    expect(table.data.getColumn("COUNTS")).toEqual([new Int32Array([9]), new Int32Array([7, 8])])
+  })
+
+  it("rejects descriptors that point outside the heap", () => {
+    const primary = FITS.fromDataArray([], 8, [])
+    const header = primary.header.copyWith(8, [8, 1], { XTENSION: "BINTABLE", PCOUNT: 4 })
+    header.append("TFIELDS", 1)
+    header.append("TFORM1", "1PJ")
+
+    const data = new DataView(new ArrayBuffer(12))
+    data.setInt32(0, 2)
+
+    const [table] = FITSFile.fromBuffer(concatBlocks([
+      primary.header.copyWith(8, [], { EXTEND: true }).toBuffer(),
+      header.toBuffer(),
+      data.buffer,
+    ])).extensions
+    if (!table.isBinaryTable()) throw new TypeError("Expected a binary table")
+
+    expect(() => table.data.getColumn(1)).toThrow(RangeError)
+  })
+})
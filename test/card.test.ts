@@ -341,3 +341,28 @@ describe("card.buildString (FITS string cards)", () => {
     )
   })
 })
+
+describe("card.fromImage - undefined values", () => {
+  it("parses cards without a value", () => {
+    const card = Card.fromImage("EXPTIME =                      / Exposure time not known")
+    expect(card.keyword).toBe("EXPTIME")
+    expect(card.value).toBeNull()
+    expect(card.comment).toBe("Exposure time not known")
+    expect(Card.fromImage("EXPTIME =  / Unknown").value).toBeNull()
+    expect(Card.fromImage("EXPTIME =").comment).toBeNull()
+  })
+
+  it("round-trips cards created without a value", () => {
+    const card = Card.fromValue("EXPTIME", null, "Unknown")
+    const parsed = Card.fromImage(card.image)
+    expect(parsed.value).toBeNull()
+    expect(parsed.comment).toBe("Unknown")
+    expect(parsed.isValid).toBe(true)
+  })
+
+  it("rejects lowercase keywords and malformed values", () => {
+    expect(() => Card.fromImage("exptime =                   30")).toThrow("invalid keyword `exptime`")
+    expect(() => Card.fromImage("OBSERVER= John Smith")).toThrow("Failed to parse card image")
+    expect(() => Card.fromImage("EXPTIME = 30.0s / Exposure time")).toThrow("Failed to parse card image")
+  })
+})
@@ -0,0 +1,69 @@
+import { readFile } from "node:fs/promises"
+import { describe, expect, it } from "vitest"
+
+import { FITS, FITSFile } from "../src"
+
+// checksum.fits was written by astropy with `checksum=True`: an INT16 primary image, a binary table and an image of
+// zeros (whose DATASUM is 0)
+async function readFixture(): Promise<ArrayBuffer> {
+  const file = await readFile(new URL("./checksum.fits", import.meta.url))
+  return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength)
+}
+
+// Replaces the first occurrence of some text in the headers of a file
+function replaceText(buffer: ArrayBuffer, search: string, replacement: string): ArrayBuffer {
+  const bytes = new Uint8Array(buffer.slice(0))
+  const offset = new TextDecoder("ascii").decode(bytes).indexOf(search)
+  bytes.set(new TextEncoder().encode(replacement), offset)
+  return bytes.buffer
+}
+
+describe("checksums", () => {
+  it("verifies the checksums of every HDU", async () => {
+    expect(FITSFile.verifyChecksums(await readFixture())).toEqual([
+      { index: 0, CHECKSUM: "valid", DATASUM: "valid" },
+      { index: 1, CHECKSUM: "valid", DATASUM: "valid" },
+      { index: 2, CHECKSUM: "valid", DATASUM: "valid" },
+    ])
+  })
+
+  it("detects changes in the header", async () => {
+    const buffer = replaceText(await readFixture(), "'M31", "'M32")
+    expect(FITSFile.verifyChecksums(buffer)[0]).toEqual({ index: 0, CHECKSUM: "invalid", DATASUM: "valid" })
+  })
+
+  it("detects changes in the data", async () => {
+    const buffer = await readFixture()
+    new Uint8Array(buffer)[2880 + 11] ^= 1
+
+    expect(FITSFile.verifyChecksums(buffer)[0]).toEqual({ index: 0, CHECKSUM: "invalid", DATASUM: "invalid" })
+    expect(FITSFile.verifyChecksums(buffer)[1]).toEqual({ index: 1, CHECKSUM: "valid", DATASUM: "valid" })
+  })
+
+  it("reports missing checksums", () => {
+    const buffer = FITS.fromDataArray([1, 2, 3], 8, [3]).toBuffer()
+    expect(FITSFile.verifyChecksums(buffer)).toEqual([{ index: 0, CHECKSUM: "missing", DATASUM: "missing" }])
+  })
+
+  it("writes the checksums of every HDU", async () => {
+    const file = FITSFile.fromBuffer(await readFixture())
+    file.hdus[1]!.header.set("EXTNAME", "CATALOG")
+    const buffer = file.toBuffer({ checksum: true })
+    const copy = FITSFile.fromBuffer(buffer)
+
+    expect(FITSFile.verifyChecksums(buffer).every(({ CHECKSUM, DATASUM }) => CHECKSUM === "valid" && DATASUM === "valid")).toBe(true)
+    expect(copy.hdus.map(hdu => hdu.header.getValue("DATASUM"))).toEqual(["232001040", "922688702", "0"])
+    expect(copy.hdus[1]!.header.getValues("CHECKSUM")).toHaveLength(1)
+    expect(copy.hdus[1]!.header.getComment("CHECKSUM")).toBe("HDU checksum")
+  })
+
+  it("writes the checksums of a single HDU", () => {
+    const fits = FITS.fromDataArray([1, 2, 3, 4, 5, 6], 16, [3, 2])
+    fits.header.set("OBJECT", "M51")
+    const buffer = fits.toBuffer({ checksum: true })
+
+    expect(FITSFile.verifyChecksums(buffer)).toEqual([{ index: 0, CHECKSUM: "valid", DATASUM: "valid" }])
+    expect(fits.header.getValue("CHECKSUM")).toBeUndefined()
+    expect(FITS.fromBuffer(buffer, 2).header.getValue("CHECKSUM")).toMatch(/^[\dA-Z]{16}$/i)
+  })
+})
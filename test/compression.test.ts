@@ -0,0 +1,308 @@
+import type { FITSBinaryTable, FITSCompressionOptions } from "../src"
+import { readFile } from "node:fs/promises"
+
+import { describe, expect, it } from "vitest"
+import { FITS, FITSFile } from "../src"
+
+// The fixtures have images compressed with astropy, followed by astropy's own decompression of each one, in the same
+// order. rice.fits has six RICE_1 images, gzip.fits has seven GZIP_1/GZIP_2 images and a RICE_1 one with tiles that
+// couldn't be quantized, and hcompress-plio.fits has five HCOMPRESS_1 images (some of them scaled and smoothed) and two
+// PLIO_1 masks
+async function readFixture(name: string = "rice.fits"): Promise<FITSFile> {
+  const file = await readFile(new URL(`./${name}`, import.meta.url))
+  return FITSFile.fromBuffer(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength))
+}
+
+async function expectReferences(name: string, count: number): Promise<void> {
+  const file = await readFixture(name)
+  for (let i = 1; i <= count; i++) {
+    const hdu = file.hdus[i]!
+    const reference = file.hdus[i + count]!
+
+    expect(hdu.isImage(), `HDU ${i}`).toBe(true)
+    expect(hdu.header.getValue("BITPIX")).toBe(reference.header.getValue("BITPIX"))
+    expect(getValues(hdu), `HDU ${i}`).toEqual(getValues(reference))
+  }
+}
+
+function getValues(hdu: FITSFile["hdus"][number]): number[] {
+  if (!hdu.isImage()) {
+    throw new TypeError("Expected an image")
+  }
+  return Array.from(hdu.data.getData(), ({ value }) => Number(value))
+}
+
+// A tile-compressed image whose tiles are stored in the UNCOMPRESSED_DATA column
+function buildUncompressed(ZCMPTYPE: string): FITS<FITSBinaryTable> {
+  const table = FITS.fromColumns([
+    { name: "COMPRESSED_DATA", data: [new Uint8Array(0), new Uint8Array(0)] },
+    { name: "UNCOMPRESSED_DATA", data: [new Int16Array([1, 2, 3]), new Int16Array([4, 5, 6])] },
+  ])
+  table.header.set("ZIMAGE", true)
+  table.header.set("ZTENSION", "IMAGE")
+  table.header.set("ZBITPIX", 16)
+  table.header.set("ZNAXIS", 2)
+  table.header.set("ZNAXIS1", 3)
+  table.header.set("ZNAXIS2", 2)
+  table.header.set("ZTILE1", 3)
+  table.header.set("ZTILE2", 1)
+  table.header.set("ZCMPTYPE", ZCMPTYPE)
+  table.header.set("ZHECKSUM", "9ZmHCYlF9YlFAYlF", { comment: "HDU checksum" })
+  table.header.set("CHECKSUM", "0000000000000000")
+  table.header.set("EXTNAME", "SCI")
+  return table
+}
+
+// A 37x23 image: a gradient with some noise, from a linear congruential generator
+function buildNoisyImage(BITPIX: -32 | -64 | 8 | 16 | 32): FITS {
+  let seed = 12345
+  const values = Array.from({ length: 37 * 23 }, (_, i) => {
+    seed = (seed * 1103515245 + 12345) % 2147483648
+    const value = (i % 37) * 3 + Math.floor(i / 37) * 5 + (seed / 2147483648) * 20
+    return BITPIX < 0 ? value - 100 : Math.floor(value)
+  })
+  return FITS.fromDataArray(values, BITPIX, [37, 23])
+}
+
+// Writes a compressed image as the only extension of a file, and reads it back
+function roundTrip(fits: FITS, options?: FITSCompressionOptions): FITSFile["hdus"][number] {
+  const buffer = FITSFile.fromHDUs(FITS.fromDataArray([], 8, []), [fits.compress(options)]).toBuffer()
+  return FITSFile.fromBuffer(buffer).hdus[1]!
+}
+
+describe("tile compression", () => {
+  it.each(["INT16", "UINT8", "INT32", "DITHER1", "NODITHER", "DITHER2"])("decompresses %s like astropy", async (name) => {
+    const file = await readFixture()
+    const index = file.hdus.findIndex(hdu => hdu.header.getValue("EXTNAME") === name)
+    const hdu = file.hdus[index]!
+    const reference = file.hdus[index + 6]!
+
+    expect(hdu.isImage()).toBe(true)
+    expect(hdu.header.getValue("BITPIX")).toBe(reference.header.getValue("BITPIX"))
+    expect(hdu.header.getValue("NAXIS1")).toBe(37)
+    expect(hdu.header.getValue("NAXIS2")).toBe(23)
+    expect(getValues(hdu)).toEqual(getValues(reference))
+  })
+
+  it("decompresses GZIP_1 and GZIP_2 images like astropy", async () => {
+    await expectReferences("gzip.fits", 8)
+  })
+
+  it("decompresses HCOMPRESS_1 and PLIO_1 images like astropy", async () => {
+    await expectReferences("hcompress-plio.fits", 7)
+  })
+
+  it("keeps 64-bit integers exact with GZIP_2", async () => {
+    const file = await readFixture("gzip.fits")
+    const hdu = file.hdus.find(hdu => hdu.header.getValue("EXTNAME") === "GZIP2_INT64")!
+    if (!hdu.isImage()) {
+      throw new TypeError("Expected an image")
+    }
+
+    expect(hdu.data.getPoint(37, 23)).toBe(36n * 2n ** 40n + 22n - 2n ** 45n)
+  })
+
+  it("restores undefined pixels of quantized images as NaN", async () => {
+    const file = await readFixture()
+    const hdu = file.hdus.find(hdu => hdu.header.getValue("EXTNAME") === "DITHER1")!
+    if (!hdu.isImage()) {
+      throw new TypeError("Expected an image")
+    }
+
+    expect(hdu.data.getPoint(5, 4)).toBeNaN()
+    expect(hdu.data.getPoint(31, 16)).toBeNaN()
+    expect(getValues(hdu).filter(Number.isNaN)).toHaveLength(2)
+  })
+
+  it("rebuilds the header of the image", async () => {
+    const file = await readFixture()
+    const { header } = file.hdus[1]!
+
+    expect(header.isPrimary).toBe(false)
+    expect(header.getValue("XTENSION")).toBe("IMAGE")
+    expect(header.getValue("BITPIX")).toBe(16)
+    expect(header.getValue("NAXIS")).toBe(2)
+    expect(header.getValue("PCOUNT")).toBe(0)
+    expect(header.getValue("GCOUNT")).toBe(1)
+    expect(header.getValue("EXTNAME")).toBe("INT16")
+    for (const keyword of ["ZIMAGE", "ZBITPIX", "ZNAXIS1", "ZTILE1", "ZCMPTYPE", "ZNAME1", "ZVAL1", "TFIELDS", "TTYPE1", "TFORM1"]) {
+      expect(header.getValue(keyword)).toBeUndefined()
+    }
+  })
+
+  it("writes decompressed images as ordinary images", async () => {
+    const file = await readFixture()
+    const copy = FITSFile.fromBuffer(file.toBuffer())
+
+    expect(copy.hdus).toHaveLength(file.hdus.length)
+    expect(copy.hdus[1]!.header.getValue("XTENSION")).toBe("IMAGE")
+    expect(getValues(copy.hdus[1]!)).toEqual(getValues(file.hdus[1]!))
+  })
+
+  it("reads tiles stored without compression", () => {
+    const buffer = FITSFile.fromHDUs(FITS.fromDataArray([], 8, []), [buildUncompressed("RICE_1")]).toBuffer()
+    const hdu = FITSFile.fromBuffer(buffer).hdus[1]!
+
+    expect(getValues(hdu)).toEqual([1, 2, 3, 4, 5, 6])
+    expect(hdu.header.getValue("EXTNAME")).toBe("SCI")
+  })
+
+  it("restores the checksums of the original image", () => {
+    const buffer = FITSFile.fromHDUs(FITS.fromDataArray([], 8, []), [buildUncompressed("RICE_1")]).toBuffer()
+    const { header } = FITSFile.fromBuffer(buffer).hdus[1]!
+
+    expect(header.getValue("CHECKSUM")).toBe("9ZmHCYlF9YlFAYlF")
+    expect(header.getComment("CHECKSUM")).toBe("HDU checksum")
+    expect(header.getValues("CHECKSUM")).toHaveLength(1)
+    expect(header.getValue("ZHECKSUM")).toBeUndefined()
+  })
+
+  it("decompresses whole gzip files", async () => {
+    const file = await readFile(new URL("./WOBJ01.fits", import.meta.url))
+    const stream = new Blob([file]).stream().pipeThrough(new CompressionStream("gzip"))
+    const compressed = await new Response(stream).arrayBuffer()
+
+    expect(() => FITS.fromBuffer(compressed, null)).toThrow("The file is gzip-compressed: decompress it first with FITSFile.decompress")
+    expect(() => FITSFile.fromBuffer(compressed)).toThrow("The file is gzip-compressed: decompress it first with FITSFile.decompress")
+    const fits = FITS.fromBuffer(await FITSFile.decompress(compressed), 3)
+    expect(fits.header.getValue("OBJECT")).toBe("HD86490")
+    expect(new Uint8Array(await FITSFile.decompress(compressed))).toEqual(new Uint8Array(file))
+  })
+
+  it("returns uncompressed files as is", async () => {
+    const buffer = FITS.fromDataArray([1, 2, 3], 8, [3]).toBuffer()
+    expect(await FITSFile.decompress(buffer)).toBe(buffer)
+  })
+
+  it("throws on unsupported algorithms", () => {
+    const table = buildUncompressed("NOCOMPRESS")
+    const hdu = FITS.fromColumns([
+      { name: "COMPRESSED_DATA", data: [new Uint8Array([1]), new Uint8Array([1])] },
+    ], table.header)
+    const buffer = FITSFile.fromHDUs(FITS.fromDataArray([], 8, []), [hdu]).toBuffer()
+
+    expect(() => FITSFile.fromBuffer(buffer)).toThrow("Unsupported compression algorithm: NOCOMPRESS")
+  })
+
+  it("throws when the number of tiles doesn't match the image", () => {
+    const table = buildUncompressed("RICE_1")
+    table.header.set("ZTILE2", undefined)
+    table.header.set("ZNAXIS2", 3)
+    const buffer = FITSFile.fromHDUs(FITS.fromDataArray([], 8, []), [table]).toBuffer()
+
+    expect(() => FITSFile.fromBuffer(buffer)).toThrow("Expected 3 tiles, but got 2")
+  })
+})
+
+describe("image compression", () => {
+  it.each([8, 16, 32] as const)("compresses BITPIX = %i images without loss with RICE_1", (BITPIX) => {
+    const fits = buildNoisyImage(BITPIX)
+    const hdu = roundTrip(fits)
+
+    expect(hdu.header.getValue("BITPIX")).toBe(BITPIX)
+    expect(getValues(hdu)).toEqual(getValues(fits))
+  })
+
+  it.each(["GZIP_1", "GZIP_2"] as const)("compresses images without loss with %s", (ZCMPTYPE) => {
+    const int64 = FITS.fromTypedArray(new BigInt64Array([-(2n ** 62n), 0n, 1n, 2n ** 62n + 3n, -5n, 7n]), 64, [3, 2])
+    const floats = buildNoisyImage(-64)
+
+    expect(getValues(roundTrip(int64, { ZCMPTYPE }))).toEqual(getValues(int64))
+    expect(getValues(roundTrip(floats, { ZCMPTYPE, ZQUANTIZ: null }))).toEqual(getValues(floats))
+  })
+
+  it.each(["SUBTRACTIVE_DITHER_1", "SUBTRACTIVE_DITHER_2", "NO_DITHER"] as const)("quantizes floating-point images with %s", (ZQUANTIZ) => {
+    const fits = buildNoisyImage(-32)
+    const compressed = fits.compress({ ZQUANTIZ })
+    const ZSCALE = compressed.data.getColumn("ZSCALE") as Float64Array
+    const hdu = roundTrip(fits, { ZQUANTIZ })
+
+    expect(compressed.header.getValue("ZQUANTIZ")).toBe(ZQUANTIZ)
+    expect(ZSCALE.every(scale => scale > 0 && scale < 5)).toBe(true)
+    const original = getValues(fits)
+    getValues(hdu).forEach((value, i) => {
+      expect(Math.abs(value - original[i]!)).toBeLessThanOrEqual(ZSCALE[Math.floor(i / 37)]! / 2 + 1e-4)
+    })
+  })
+
+  it("keeps undefined pixels and exact zeros with SUBTRACTIVE_DITHER_2", () => {
+    const fits = buildNoisyImage(-64)
+    fits.data.setPoint(null, 5, 4)
+    fits.data.setPoint(0, 6, 4)
+    const hdu = roundTrip(fits, { ZQUANTIZ: "SUBTRACTIVE_DITHER_2", ZDITHER0: 42 })
+    if (!hdu.isImage()) {
+      throw new TypeError("Expected an image")
+    }
+
+    expect(hdu.data.getPoint(5, 4)).toBeNaN()
+    expect(hdu.data.getPoint(6, 4)).toBe(0)
+    expect(getValues(hdu).filter(Number.isNaN)).toHaveLength(1)
+  })
+
+  it("estimates the noise like CFITSIO for positive quantization levels", () => {
+    // The expected ZSCALE values were computed with astropy (CFITSIO)
+    const values = Array.from({ length: 300 }, (_, i) => 100 + 0.05 * i + (i * i * 7919 % 1009) / 100)
+    const compressed = FITS.fromTypedArray(Float32Array.from(values), -32, [300]).compress({ quantizeLevel: 8, ZTILE: [100] })
+
+    expect(Array.from(compressed.data.getColumn("ZSCALE") as Float64Array)).toEqual([0.16266692455120088, 0.3420268448583603, 0.1626663473210335])
+  })
+
+  it("uses a fixed ZSCALE with negative quantization levels", () => {
+    const compressed = buildNoisyImage(-32).compress({ quantizeLevel: -0.25 })
+    expect(Array.from(compressed.data.getColumn("ZSCALE") as Float64Array)).toEqual(Array.from({ length: 23 }, () => 0.25))
+  })
+
+  it("compresses tiles that can't be quantized without loss", () => {
+    const values = Array.from({ length: 37 * 23 }, (_, i) => i < 37 ? 1.5 : Math.sin(i) * 10)
+    const fits = FITS.fromDataArray(values, -64, [37, 23])
+    const compressed = fits.compress()
+    const hdu = roundTrip(fits)
+
+    expect((compressed.data.getColumn("GZIP_COMPRESSED_DATA") as Uint8Array[])[0]!.length).toBeGreaterThan(0)
+    expect(getValues(hdu).slice(0, 37)).toEqual(values.slice(0, 37))
+  })
+
+  it("splits images in tiles of any size", () => {
+    const fits = FITS.fromDataArray(Array.from({ length: 7 * 5 * 3 }, (_, i) => i * 7 - 100), 16, [7, 5, 3])
+    const compressed = fits.compress({ ZTILE: [3, 2, 2] })
+    const hdu = roundTrip(fits, { ZTILE: [3, 2, 2] })
+
+    expect(compressed.data.rowCount).toBe(3 * 3 * 2)
+    expect(getValues(hdu)).toEqual(getValues(fits))
+  })
+
+  it("writes the compression keywords and keeps the rest of the header", () => {
+    const fits = buildNoisyImage(-32)
+    fits.header.set("OBJECT", "M31")
+    fits.header.set("CHECKSUM", "9ZmHCYlF9YlFAYlF")
+    const { header } = fits.compress()
+
+    expect(header.getValue("XTENSION")).toBe("BINTABLE")
+    expect(header.getValue("ZIMAGE")).toBe(true)
+    expect(header.getValue("ZSIMPLE")).toBe(true)
+    expect(header.getValue("ZBITPIX")).toBe(-32)
+    expect(header.getValue("ZNAXIS1")).toBe(37)
+    expect(header.getValue("ZTILE2")).toBe(1)
+    expect(header.getValue("ZCMPTYPE")).toBe("RICE_1")
+    expect(header.getValue("ZNAME2")).toBe("BYTEPIX")
+    expect(header.getValue("ZVAL2")).toBe(4)
+    expect(header.getValue("ZDITHER0")).toBe(1)
+    expect(header.getValue("ZHECKSUM")).toBe("9ZmHCYlF9YlFAYlF")
+    expect(header.getValue("CHECKSUM")).toBeUndefined()
+    expect(header.getValue("OBJECT")).toBe("M31")
+
+    const hdu = roundTrip(fits)
+    expect(hdu.header.getValue("OBJECT")).toBe("M31")
+    expect(hdu.header.getValue("CHECKSUM")).toBe("9ZmHCYlF9YlFAYlF")
+  })
+
+  it("throws on options that can't compress the image", () => {
+    const fits = buildNoisyImage(-32)
+
+    expect(() => fits.compress({ ZQUANTIZ: null })).toThrow("RICE_1 can only compress integers of up to 32 bits")
+    expect(() => fits.compress({ ZTILE: [37] })).toThrow("Expected 2 tile sizes, but got 1")
+    expect(() => fits.compress({ ZTILE: [0, 1] })).toThrow("Unexpected ZTILE1 value: 0")
+    expect(() => fits.compress({ ZDITHER0: 0 })).toThrow("Unexpected ZDITHER0 value: 0")
+    expect(() => FITS.fromDataArray([], 8, []).compress()).toThrow("Cannot compress an image without axes")
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest"
+
+import { FITS } from "../src"
+
+describe("slices and cutouts", () => {
+  // A 4x3x2 cube whose values encode their coordinates: 100 * n3 + 10 * n2 + n1
+  const values = Array.from({ length: 24 }, (_, i) => 100 * (Math.floor(i / 12) + 1) + 10 * (Math.floor(i / 4) % 3 + 1) + i % 4 + 1)
+
+  it("slices ranges with optional steps", () => {
+    const cube = FITS.fromDataArray(values, 16, [4, 3, 2])
+
+    const stamp = cube.data.slice([{ start: 2, end: 3 }, { start: 2 }])
+    expect(stamp.NAXISn).toEqual([2, 2, 2])
+    expect(stamp.toTypedArray()).toEqual(new Int16Array([122, 123, 132, 133, 222, 223, 232, 233]))
+
+    const strided = cube.data.slice([{ step: 2 }, { start: 3, end: 3 }, { start: 2, end: 2 }])
+    expect(strided.NAXISn).toEqual([2, 1, 1])
+    expect(strided.toTypedArray()).toEqual(new Int16Array([231, 233]))
+
+    expect(cube.data.slice([]).toBuffer()).toEqual(cube.data.toBuffer())
+  })
+
+  it("validates the ranges", () => {
+    const { data } = FITS.fromDataArray(values, 16, [4, 3, 2])
+    expect(() => data.slice([{}, {}, {}, {}])).toThrow("Expected at most 3 ranges, but got 4")
+    expect(() => data.slice([{ start: 0 }])).toThrow("Range 0:4 out of bounds (axis 1 has 4 points)")
+    expect(() => data.slice([{ start: 3, end: 2 }])).toThrow(RangeError)
+    expect(() => data.slice([{ step: 0 }])).toThrow(RangeError)
+  })
+
+  it("keeps the scaling and undefined values", () => {
+    const image = FITS.fromPhysicalArray([1, null, 3, 4.5], 16, [2, 2], { BSCALE: 0.5, BZERO: 0 })
+    const cutout = image.cutout([{ start: 2 }])
+    expect(cutout.header.getValue("NAXIS1")).toBe(1)
+    expect(cutout.header.getValue("BSCALE")).toBe(0.5)
+    expect(cutout.header.getValue("BLANK")).toBe(-32768)
+    expect(cutout.data.toTypedArray({ physical: true })).toEqual(new Float64Array([Number.NaN, 4.5]))
+  })
+
+  it("updates the WCS of the cutout header", () => {
+    const cube = FITS.fromDataArray(values, -32, [4, 3, 2])
+    cube.header.set("OBJECT", "M51")
+    cube.header.addAxis(1, { ctype: "RA---TAN", crpix: 2.5, crval: 202.47, cdelt: -0.001 })
+    cube.header.addAxis(2, { ctype: "DEC--TAN", crpix: 1, crval: 47.19, cdelt: 0.001 })
+    cube.header.set("PC1_2", 0.5)
+    cube.header.set("PC2_1", -0.5)
+    cube.header.set("CRPIX1A", 10)
+    cube.header.set("CD1_1A", 2)
+    cube.header.set("CD1_2A", 3)
+
+    const cutout = cube.cutout([{ start: 2, step: 2 }, { start: 2 }, { start: 2 }])
+    const { header } = cutout
+    expect(header.getValue("NAXIS1")).toBe(2)
+    expect(header.getValue("NAXIS3")).toBe(1)
+    expect(header.getValue("OBJECT")).toBe("M51")
+    expect(header.getValue("CRPIX1")).toBe(1.25)
+    expect(header.getValue("CDELT1")).toBe(-0.002)
+    expect(header.getValue("CRPIX2")).toBe(0)
+    expect(header.getValue("CDELT2")).toBe(0.001)
+    expect(header.getValue("PC1_2")).toBe(0.25)
+    expect(header.getValue("PC2_1")).toBe(-1)
+    // CRPIX3 defaults to 0
+    expect(header.getValue("CRPIX3")).toBe(-1)
+    // The alternative WCS uses a CD matrix, so CDELTnA is not added
+    expect(header.getValue("CRPIX1A")).toBe(5)
+    expect(header.getValue("CDELT1A")).toBeUndefined()
+    expect(header.getValue("CD1_1A")).toBe(4)
+    expect(header.getValue("CD1_2A")).toBe(3)
+
+    expect(cutout.data.toTypedArray()).toEqual(new Float32Array([222, 224, 232, 234]))
+  })
+})
@@ -0,0 +1,144 @@
+import type { FITSDataUnit, FITSPointValue } from "../src/data"
+import { readFile } from "node:fs/promises"
+import { describe, expect, it } from "vitest"
+
+import { FITS, FITSFile } from "../src"
+import { concatBlocks } from "../src/FITS"
+
+function getImageValues(hdu: FITS<FITSDataUnit>): FITSPointValue[] {
+  if (!hdu.isImage()) {
+    throw new TypeError("Expected an image HDU")
+  }
+  return Array.from(hdu.data.getData(), ({ value }) => value)
+}
+
+describe("multi-HDU files", () => {
+  it("writes and reads a primary HDU followed by image extensions", () => {
+    const primary = FITS.fromDataArray([], 8, [])
+    primary.header.set("OBJECT", "M51")
+    const sci = FITS.fromTypedArray(new Float32Array([1.5, 2.5, 3.5, 4.5]), -32, [2, 2])
+    sci.header.set("EXTNAME", "SCI")
+    const dq = FITS.fromTypedArray(new Int16Array([0, 1, 0]), 16, [3])
+    dq.header.set("EXTNAME", "DQ")
+
+    const buffer = FITSFile.fromHDUs(primary, [sci, dq]).toBuffer()
+    expect(buffer.byteLength % 2880).toBe(0)
+
+    const parsed = FITSFile.fromBuffer(buffer)
+    expect(parsed.hdus).toHaveLength(3)
+    expect(parsed.primary.header.isPrimary).toBe(true)
+    expect(parsed.primary.header.getValue("EXTEND")).toBe(true)
+    expect(parsed.primary.header.getValue("OBJECT")).toBe("M51")
+
+    const [parsedSci, parsedDq] = parsed.extensions
+    expect(parsedSci.header.isPrimary).toBe(false)
+    expect(parsedSci.header.getValue("XTENSION")).toBe("IMAGE")
+    expect(parsedSci.header.getValue("PCOUNT")).toBe(0)
+    expect(parsedSci.header.getValue("GCOUNT")).toBe(1)
+    expect(parsedSci.header.getValue("EXTNAME")).toBe("SCI")
+    expect(parsedSci.header.getValue("SIMPLE")).toBeUndefined()
+    expect(getImageValues(parsedSci)).toEqual([1.5, 2.5, 3.5, 4.5])
+    expect(parsedDq.header.getValue("EXTNAME")).toBe("DQ")
+    expect(getImageValues(parsedDq)).toEqual([0, 1, 0])
+  })
+
+  it("skips the data of extensions using PCOUNT and GCOUNT", () => {
+    const primary = FITS.fromDataArray([], 8, [])
+    const foreignHeader = primary.header.copyWith(8, [4, 2], { XTENSION: "FOREIGN", PCOUNT: 3000 })
+    const image = FITS.fromTypedArray(new Int32Array([7, 8]), 32, [2])
+
+    const buffer = concatBlocks([
+      primary.header.copyWith(8, [], { EXTEND: true }).toBuffer(),
+      foreignHeader.toBuffer(),
+      new Uint8Array(8 + 3000).fill(1).buffer,
+      image.header.copyWith(32, [2], { XTENSION: "IMAGE" }).toBuffer(),
+      image.data.toBuffer(),
+    ])
+
+    const parsed = FITSFile.fromBuffer(buffer)
+    expect(parsed.hdus.map(hdu => hdu.header.getValue("XTENSION"))).toEqual([undefined, "FOREIGN", "IMAGE"])
+    expect(parsed.hdus[1]!.data.PCOUNT).toBe(3000)
+    expect(parsed.hdus[1]!.data.toBuffer().byteLength).toBe(3008)
+    expect(getImageValues(parsed.hdus[2]!)).toEqual([7, 8])
+  })
+
+  it("reads single-HDU files", async () => {
+    const file = await readFile(new URL("./WOBJ01.fits", import.meta.url))
+    const parsed = FITSFile.fromBuffer(file.buffer)
+
+    expect(parsed.hdus).toHaveLength(1)
+    expect(parsed.primary.toJSON()).toEqual(FITS.fromBuffer(file.buffer, null).toJSON())
+  })
+
+  it("rejects files that don't start with a primary HDU", () => {
+    const image = FITS.fromTypedArray(new Int32Array([7, 8]), 32, [2])
+    const buffer = concatBlocks([image.header.copyWith(32, [2], { XTENSION: "IMAGE" }).toBuffer(), image.data.toBuffer()])
+
+    expect(() => FITSFile.fromBuffer(buffer)).toThrow("The first HDU must be a primary HDU")
+  })
+
+  it("rejects HDUs that can't be written in their position", () => {
+    const primary = FITS.fromDataArray([], 8, [])
+    const table = FITS.fromColumns([{ name: "FLUX", data: new Float32Array([1.5]) }])
+    const groups = FITS.fromRandomGroups({ BITPIX: 16, shape: [1], parameters: [{ name: "UU" }], groups: [{ parameters: [1], data: [2] }] })
+
+    expect(() => FITSFile.fromHDUs(table, [primary])).toThrow("The primary HDU must contain an image or random groups")
+    expect(() => FITSFile.fromHDUs(primary, [table, groups])).toThrow("extension 2 contains them")
+    expect(FITSFile.fromHDUs(groups, [table]).hdus).toHaveLength(2)
+  })
+})
+
+describe("image extensions", () => {
+  it("converts headers between primary and extension forms", () => {
+    const primary = FITS.fromTypedArray(new Int16Array([1, 2, 3, 4, 5, 6]), 16, [3, 2])
+    primary.header.set("OBJECT", "NGC 1068")
+    primary.header.appendHistory("Reduced")
+
+    const extension = primary.toImageExtension()
+    expect(extension.header.isPrimary).toBe(false)
+    expect(extension.header.toJSON()).toEqual({
+      XTENSION: ["IMAGE"],
+      BITPIX: [16],
+      NAXIS: [2],
+      NAXIS1: [3],
+      NAXIS2: [2],
+      PCOUNT: [0],
+      GCOUNT: [1],
+      OBJECT: ["NGC 1068"],
+      HISTORY: ["Reduced"],
+    })
+    expect(extension.data).toBe(primary.data)
+
+    const back = extension.toPrimary()
+    expect(back.header.isPrimary).toBe(true)
+    expect(back.header.toJSON()).toEqual(primary.header.toJSON())
+  })
+
+  it("only converts images to primary HDUs", () => {
+    const table = FITS.fromColumns([{ name: "FLUX", data: new Float32Array([1.5]) }]) as FITS<FITSDataUnit> as FITS
+
+    expect(() => table.toPrimary()).toThrow("Cannot convert to a primary HDU: the data unit is not an image")
+  })
+
+  it("keeps the extension form when copying headers", () => {
+    const header = FITS.fromTypedArray(new Float32Array([1]), -32, [1]).toImageExtension().header
+    const copy = FITS.fromTypedArray(new Float64Array([1, 2]), -64, [2], header)
+
+    expect(copy.header.getValue("XTENSION")).toBe("IMAGE")
+    expect(copy.header.getValue("BITPIX")).toBe(-64)
+    expect(copy.header.getValue("NAXIS1")).toBe(2)
+  })
+
+  it("rejects IMAGE extensions with PCOUNT or GCOUNT set", () => {
+    const primary = FITS.fromDataArray([], 8, [])
+    const image = FITS.fromTypedArray(new Int32Array([7, 8]), 32, [2])
+
+    const buffer = concatBlocks([
+      primary.header.copyWith(8, [], { EXTEND: true }).toBuffer(),
+      image.header.copyWith(32, [2], { XTENSION: "IMAGE", PCOUNT: 4 }).toBuffer(),
+      new ArrayBuffer(12),
+    ])
+
+    expect(() => FITSFile.fromBuffer(buffer)).toThrow("Unexpected PCOUNT value for IMAGE extension: 4")
+  })
+})
@@ -0,0 +1,133 @@
+import type { AddressInfo } from "node:net"
+import type { FITSByteRangeSource } from "../src"
+import { open, readFile } from "node:fs/promises"
+import { createServer } from "node:http"
+import { describe, expect, it } from "vitest"
+
+import { FITS, FITSBlobSource, FITSFile, FITSFileHandleSource, FITSHTTPSource, FITSLazyFile } from "../src"
+
+function buildFile(): ArrayBuffer {
+  // A 40x30x2 cube whose values encode their coordinates: 10000 * n3 + 100 * n2 + n1
+  const values = Array.from({ length: 2400 }, (_, i) => 10000 * (Math.floor(i / 1200) + 1) + 100 * (Math.floor(i / 40) % 30 + 1) + i % 40 + 1)
+  const cube = FITS.fromPhysicalArray(values, 32, [40, 30, 2], { BSCALE: 2, BZERO: 0 })
+  cube.header.set("OBJECT", "M51")
+  const table = FITS.fromColumns([{ name: "ID", data: new Int32Array([1, 2, 3]) }])
+  return FITSFile.fromHDUs(cube, [table]).toBuffer()
+}
+
+// Wraps a source to record the ranges that are read
+function recordReads(source: FITSByteRangeSource): { source: FITSByteRangeSource, reads: [number, number][] } {
+  const reads: [number, number][] = []
+  return {
+    reads,
+    source: {
+      read: async (offset, length) => {
+        reads.push([offset, length])
+        return source.read(offset, length)
+      },
+    },
+  }
+}
+
+describe("lazy reader", () => {
+  const buffer = buildFile()
+
+  it("reads only the headers when opening a file", async () => {
+    const { source, reads } = recordReads(new FITSBlobSource(new Blob([buffer])))
+    const file = await FITSLazyFile.open(source)
+
+    expect(file.hdus).toHaveLength(2)
+    expect(file.primary.header.getValue("OBJECT")).toBe("M51")
+    expect(file.primary.dataOffset).toBe(2880)
+    expect(file.primary.dataByteLength).toBe(9600)
+    expect(file.extensions[0]!.header.getValue("XTENSION")).toBe("BINTABLE")
+    expect(file.extensions[0]!.isImage()).toBe(false)
+    expect(reads.map(([offset]) => offset)).toEqual([0, 2880 + 11520, buffer.byteLength])
+  })
+
+  it("reads points and slices from the touched ranges", async () => {
+    const { source, reads } = recordReads(new FITSBlobSource(new Blob([buffer])))
+    const file = await FITSLazyFile.open(source)
+    reads.length = 0
+
+    expect(await file.primary.getPoint(4, 2, 2)).toBe(10102)
+    expect(await file.primary.getPhysicalPoint(4, 2, 2)).toBe(20204)
+    expect(reads).toEqual([[2880 + 4 * (1200 + 40 + 3), 4], [2880 + 4 * (1200 + 40 + 3), 4]])
+    reads.length = 0
+
+    const stamp = await file.primary.slice([{ start: 2, end: 6, step: 2 }, { start: 29 }, { start: 2 }])
+    expect(stamp.NAXISn).toEqual([3, 2, 1])
+    expect(stamp.toTypedArray({ physical: true })).toEqual(new Float64Array([22902, 22904, 22906, 23002, 23004, 23006]))
+    expect(reads).toHaveLength(2)
+
+    // Whole rows are contiguous, so a plane is read at once
+    reads.length = 0
+    const plane = await file.primary.slice([{}, {}, { start: 1, end: 1 }])
+    expect(plane.toBuffer()).toEqual((await file.primary.load()).data.toBuffer().slice(0, 4800))
+    expect(reads[0]).toEqual([2880, 4800])
+
+    await expect(file.primary.getPoint(1, 1)).rejects.toThrow("Expected 3 coordinates, but got 2")
+    await expect(file.primary.getPoint(41, 1, 1)).rejects.toThrow(RangeError)
+    await expect(file.extensions[0]!.getPoint(1, 1)).rejects.toThrow(TypeError)
+  })
+
+  it("loads whole HDUs", async () => {
+    const file = await FITSLazyFile.open(new FITSBlobSource(new Blob([buffer])))
+    const table = await file.extensions[0]!.load()
+    if (!table.isBinaryTable()) throw new TypeError("Expected a binary table")
+    expect(table.data.getColumn("ID")).toEqual(new Int32Array([1, 2, 3]))
+  })
+
+  it("reads from Node.js file handles", async () => {
+    const url = new URL("./WOBJ01.fits", import.meta.url)
+    const handle = await open(url)
+    try {
+      const file = await FITSLazyFile.open(new FITSFileHandleSource(handle))
+      const expected = FITS.fromBuffer((await readFile(url)).buffer, null)
+      expect(file.primary.header.toJSON()).toEqual(expected.header.toJSON())
+      const origin = expected.data.NAXISn.map(() => 1)
+      expect(await file.primary.getPoint(...origin)).toBe(expected.data.getPoint(...origin))
+    }
+    finally {
+      await handle.close()
+    }
+  })
+
+  it("reads with HTTP Range requests", async () => {
+    const server = createServer((request, response) => {
+      const match = /^bytes=(\d+)-(\d+)$/.exec(request.headers.range ?? "")
+      if (request.url !== "/ranges" || !match) {
+        response.writeHead(200).end(new Uint8Array(buffer))
+        return
+      }
+
+      const start = Number(match[1])
+      const end = Math.min(Number(match[2]), buffer.byteLength - 1)
+      if (start >= buffer.byteLength) {
+        response.writeHead(416).end()
+        return
+      }
+      response.writeHead(206, { "Content-Range": `bytes ${start}-${end}/${buffer.byteLength}` })
+      response.end(new Uint8Array(buffer.slice(start, end + 1)))
+    })
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve))
+
+    try {
+      const { port } = server.address() as AddressInfo
+      const file = await FITSLazyFile.open(new FITSHTTPSource(`http://127.0.0.1:${port}/ranges`))
+      expect(file.hdus).toHaveLength(2)
+      expect(await file.primary.getPhysicalPoint(40, 30, 2)).toBe(23040)
+
+      await expect(FITSLazyFile.open(new FITSHTTPSource(`http://127.0.0.1:${port}/full`)))
+        .rejects
+        .toThrow("The server doesn't support range requests")
+    }
+    finally {
+      await new Promise(resolve => server.close(resolve))
+    }
+  })
+
+  it("rejects truncated headers", async () => {
+    await expect(FITSLazyFile.open(new FITSBlobSource(new Blob([buffer.slice(0, 2000)])))).rejects.toThrow("Unexpected end of file")
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest"
+
+import { FITS, FITSFile } from "../src"
+
+// Builds a file with a single 8-bit image of 3 values, whose header has some extra records
+function buildFile(records: string[]): ArrayBuffer {
+  const text = [
+    "SIMPLE  =                    T",
+    "BITPIX  =                    8",
+    "NAXIS   =                    1",
+    "NAXIS1  =                    3",
+    ...records,
+    "END",
+  ].map(record => record.padEnd(80, " ")).join("")
+  const output = new Uint8Array(2 * 2880)
+  output.set(Array.from(text.padEnd(2880, " "), character => character.charCodeAt(0)))
+  output.set([1, 2, 3], 2880)
+  return output.buffer
+}
+
+const MALFORMED = [
+  "OBJECT  = 'M31'",
+  "exptime =                 30.0 / Lowercase keyword",
+  "OBSERVER= John Smith / Unquoted string",
+  "AIRMASS = 1.25x / Trailing garbage",
+  "FILTER  = 'V'",
+]
+
+describe("lenient parsing", () => {
+  it("rejects malformed cards by default", () => {
+    expect(() => FITS.fromBuffer(buildFile(MALFORMED), null)).toThrow("Failed to parse card image")
+    expect(() => FITSFile.fromBuffer(buildFile(MALFORMED))).toThrow("Failed to parse card image")
+  })
+
+  it("keeps malformed cards as invalid cards", () => {
+    const fits = FITS.fromBuffer(buildFile(MALFORMED), null, { lenient: true })
+
+    expect(Array.from(fits.data.getData(), ({ value }) => value)).toEqual([1, 2, 3])
+    expect(fits.header.getValue("OBJECT")).toBe("M31")
+    expect(fits.header.getValue("FILTER")).toBe("V")
+    expect(fits.header.getValues("EXPTIME")).toEqual([])
+    expect(fits.header.getValue("OBSERVER")).toBeUndefined()
+    expect(fits.header.warnings).toHaveLength(3)
+    expect(fits.header.warnings[0]).toContain("invalid keyword `exptime`")
+    expect(fits.header.warnings[1]).toContain("OBSERVER= John Smith")
+    expect(fits.header.warnings[2]).toContain("AIRMASS = 1.25x")
+  })
+
+  it("writes invalid cards back with their raw image", () => {
+    const fits = FITSFile.fromBuffer(buildFile(MALFORMED), { lenient: true }).hdus[0]!
+    fits.header.set("AIRMASS", 1.25)
+    const text = new TextDecoder("ascii").decode(fits.toBuffer().slice(0, 2880))
+
+    expect(text).toContain("exptime =                 30.0 / Lowercase keyword".padEnd(80, " "))
+    expect(text).toContain("OBSERVER= John Smith / Unquoted string".padEnd(80, " "))
+    expect(text).not.toContain("1.25x")
+    expect(FITS.fromBuffer(fits.toBuffer(), null, { lenient: true }).header.warnings).toHaveLength(2)
+  })
+
+  it("still requires valid mandatory keywords and END card", () => {
+    const naxis = new Uint8Array(buildFile([]))
+    naxis.set(Array.from("naxis1", character => character.charCodeAt(0)), 3 * 80)
+    const end = new Uint8Array(buildFile([]))
+    end.set([0x41], 4 * 80 + 20)
+
+    expect(() => FITS.fromBuffer(naxis.buffer, null, { lenient: true })).toThrow("Missing NAXIS1 header")
+    expect(() => FITS.fromBuffer(end.buffer, null, { lenient: true })).toThrow("END can't have any non-space characters")
+  })
+
+  it("parses cards without a value in strict mode", () => {
+    const fits = FITS.fromBuffer(buildFile(["EXPTIME =                      / Unknown", "DATE-OBS=", "OBJECT  = 'M31'"]), null)
+    expect(fits.header.getValue("EXPTIME")).toBeNull()
+    expect(fits.header.getComment("EXPTIME")).toBe("Unknown")
+    expect(fits.header.getValue("OBJECT")).toBe("M31")
+    expect(fits.header.warnings).toEqual([])
+
+    fits.header.set("AIRMASS", null, { comment: "Not measured" })
+    const copy = FITS.fromBuffer(fits.toBuffer(), null)
+    expect(copy.header.getValue("AIRMASS")).toBeNull()
+    expect(copy.header.getComment("AIRMASS")).toBe("Not measured")
+  })
+})
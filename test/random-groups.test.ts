@@ -0,0 +1,92 @@
+import type { FITSRandomGroups } from "../src"
+import { describe, expect, it } from "vitest"
+
+import { FITS, FITSFile } from "../src"
+
+describe("random groups", () => {
+  function buildGroups(): FITS<FITSRandomGroups> {
+    return FITS.fromRandomGroups({
+      BITPIX: 16,
+      shape: [3, 2],
+      parameters: [
+        { name: "UU", PSCAL: 0.5 },
+        { name: "DATE", PZERO: 2451545 },
+        { name: "DATE", PSCAL: 0.25 },
+      ],
+      groups: [
+        { parameters: [10, 2451546, 0.5], data: [1, 2, 3, 4, 5, 6] },
+        { parameters: [-3, 2451547, 0.75], data: [-1, -2, -3, -4, -5, -6] },
+      ],
+    })
+  }
+
+  it("writes the structural and parameter cards", () => {
+    const { header } = buildGroups()
+
+    expect(header.isRandomGroups).toBe(true)
+    expect(header.toJSON()).toEqual({
+      SIMPLE: [true],
+      BITPIX: [16],
+      NAXIS: [3],
+      NAXIS1: [0],
+      NAXIS2: [3],
+      NAXIS3: [2],
+      GROUPS: [true],
+      PCOUNT: [3],
+      GCOUNT: [2],
+      PTYPE1: ["UU"],
+      PSCAL1: [0.5],
+      PTYPE2: ["DATE"],
+      PZERO2: [2451545],
+      PTYPE3: ["DATE"],
+      PSCAL3: [0.25],
+    })
+  })
+
+  it("round-trips parameters and group arrays", () => {
+    const groups = buildGroups()
+    groups.header.set("OBJECT", "3C 286")
+    const image = FITS.fromTypedArray(new Int16Array([7]), 16, [1])
+
+    const parsed = FITSFile.fromBuffer(FITSFile.fromHDUs(groups, [image]).toBuffer())
+    const { primary } = parsed
+    if (!primary.isRandomGroups()) throw new TypeError("Expected random groups")
+
+    expect(primary.header.getValue("EXTEND")).toBe(true)
+    expect(primary.header.getValue("OBJECT")).toBe("3C 286")
+    expect(primary.data.groupShape).toEqual([3, 2])
+    expect(primary.data.parameters[0]).toEqual({ name: "UU", PSCAL: 0.5, PZERO: 0 })
+    expect(primary.data.getParameters(1)).toEqual(new Float64Array([10, 2451546, 0.5]))
+    expect(primary.data.getParameter(2, "uu")).toBe(-3)
+    expect(primary.data.getParameter(2, "DATE")).toBe(2451547.75)
+    expect(primary.data.getParameter(2, 3)).toBe(0.75)
+    expect(primary.data.getGroupArray(2)).toEqual(new Int16Array([-1, -2, -3, -4, -5, -6]))
+    expect(Array.from(primary.data.getGroups(), group => group.data[0])).toEqual([1, -1])
+    expect(primary.data.toString()).toBe("2 groups of 3 parameters and 3x2 arrays (BITPIX = 16)")
+    expect(parsed.extensions).toHaveLength(1)
+  })
+
+  it("points FITS.fromBuffer to FITSFile.fromBuffer", () => {
+    const buffer = FITSFile.fromHDUs(buildGroups(), []).toBuffer()
+
+    expect(() => FITS.fromBuffer(buffer, null)).toThrow("read it with FITSFile.fromBuffer and check isRandomGroups()")
+    expect(FITSFile.fromBuffer(buffer).primary.isRandomGroups()).toBe(true)
+  })
+
+  it("validates groups and parameters", () => {
+    const { data } = buildGroups()
+    expect(() => data.getGroupArray(3)).toThrow(RangeError)
+    expect(() => data.getParameter(1, "VV")).toThrow(ReferenceError)
+    expect(() => FITS.fromRandomGroups({
+      BITPIX: 32,
+      shape: [2],
+      parameters: [{ name: "UU" }],
+      groups: [{ parameters: [1], data: [1, 2, 3] }],
+    })).toThrow("Expected 2 values in group 1, but got 3")
+  })
+
+  it("requires NAXIS1 = 0", () => {
+    const header = buildGroups().header.copyWith(16, [1, 3, 2])
+    expect(() => FITSFile.fromBuffer(header.toBuffer())).toThrow("Unexpected NAXIS1 value for random groups: 1")
+  })
+})
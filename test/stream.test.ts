@@ -0,0 +1,107 @@
+import type { FITSStreamEvent } from "../src"
+import { describe, expect, it } from "vitest"
+
+import { FITS, FITSFile } from "../src"
+
+function buildFile(): ArrayBuffer {
+  const primary = FITS.fromTypedArray(new Int16Array(Array.from({ length: 3000 }, (_, i) => i)), 16, [1000, 3])
+  primary.header.set("OBJECT", "M51")
+  const table = FITS.fromColumns([
+    { name: "ID", data: new Int32Array([1, 2]) },
+    { name: "SPEC", data: [new Float32Array([1, 2, 3]), new Float32Array([4])] },
+  ])
+  return FITSFile.fromHDUs(primary, [table]).toBuffer()
+}
+
+// Splits a buffer in chunks of the given size, as they'd arrive from the network
+function toStream(buffer: ArrayBuffer, chunkSize: number): ReadableStream<Uint8Array> {
+  let offset = 0
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= buffer.byteLength) {
+        controller.close()
+        return
+      }
+      controller.enqueue(new Uint8Array(buffer.slice(offset, offset + chunkSize)))
+      offset += chunkSize
+    },
+  })
+}
+
+async function collect(events: AsyncIterable<FITSStreamEvent>): Promise<FITSStreamEvent[]> {
+  const output: FITSStreamEvent[] = []
+  for await (const event of events) {
+    output.push(event)
+  }
+  return output
+}
+
+function concat(events: FITSStreamEvent[], index: number): Uint8Array {
+  const chunks = events.filter(event => event.type === "data" && event.index === index).map(event => event.type === "data" ? event.bytes : new Uint8Array())
+  const output = new Uint8Array(chunks.reduce((accum, chunk) => accum + chunk.byteLength, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    output.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return output
+}
+
+describe("stream parser", () => {
+  const buffer = buildFile()
+  const file = FITSFile.fromBuffer(buffer)
+
+  it("emits headers and block-aligned data chunks", async () => {
+    const events = await collect(FITSFile.parseStream(toStream(buffer, 1000)))
+
+    const headers = events.filter(event => event.type === "header")
+    expect(headers.map(({ index, dataByteLength }) => [index, dataByteLength])).toEqual([[0, 6000], [1, 40]])
+    expect(headers[0]!.header.getValue("OBJECT")).toBe("M51")
+    expect(headers[1]!.header.getValue("XTENSION")).toBe("BINTABLE")
+
+    const chunks = events.filter(event => event.type === "data")
+    expect(chunks.every(({ offset }) => offset % 2880 === 0)).toBe(true)
+    expect(concat(events, 0)).toEqual(new Uint8Array(file.hdus[0]!.data.toBuffer()))
+    expect(concat(events, 1)).toEqual(new Uint8Array(file.hdus[1]!.data.toBuffer()))
+  })
+
+  it("emits rows and the binary table heap", async () => {
+    async function* chunks(): AsyncGenerator<Uint8Array> {
+      for (let offset = 0; offset < buffer.byteLength; offset += 7) {
+        yield new Uint8Array(buffer, offset, Math.min(7, buffer.byteLength - offset))
+      }
+    }
+
+    const events = await collect(FITSFile.parseStream(chunks(), { chunks: "rows" }))
+    const primaryRows = events.filter(event => event.type === "data" && event.index === 0)
+    expect(primaryRows.map(event => event.type === "data" && [event.offset, event.bytes.byteLength])).toEqual([[0, 2000], [2000, 2000], [4000, 2000]])
+
+    // 2 rows of 12 bytes, followed by the heap
+    const tableRows = events.filter(event => event.type === "data" && event.index === 1)
+    expect(tableRows.map(event => event.type === "data" && event.offset)).toEqual([0, 12, 24])
+    expect(concat(events, 1)).toEqual(new Uint8Array(file.hdus[1]!.data.toBuffer()))
+  })
+
+  it("stops at trailing bytes and cancels the stream", async () => {
+    const trailing = new Uint8Array(buffer.byteLength + 2880 * 2)
+    trailing.set(new Uint8Array(buffer))
+    let cancelled = false
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(trailing)
+      },
+      cancel() {
+        cancelled = true
+      },
+    })
+
+    const events = await collect(FITSFile.parseStream(stream))
+    expect(events.filter(event => event.type === "header")).toHaveLength(2)
+    expect(cancelled).toBe(true)
+  })
+
+  it("rejects truncated files", async () => {
+    await expect(collect(FITSFile.parseStream(toStream(buffer.slice(0, 4000), 512)))).rejects.toThrow("Unexpected end of file")
+    await expect(collect(FITSFile.parseStream(toStream(buffer.slice(0, 2000), 512)))).rejects.toThrow("Unexpected end of file")
+  })
+})
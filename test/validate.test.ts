@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest"
+
+import { FITS, FITSFile } from "../src"
+
+// Builds an HDU from the text of its header records (END is added) and its data, padded as given
+function buildHDU(records: string[], data: number[] = [], headerFill: string = " ", dataFill: number = 0): Uint8Array {
+  const text = [...records, "END"].map(record => record.padEnd(80, " ")).join("")
+  const headerLength = Math.ceil(text.length / 2880) * 2880
+  const output = new Uint8Array(headerLength + Math.ceil(data.length / 2880) * 2880).fill(dataFill, headerLength)
+  output.set(Array.from(text.padEnd(headerLength, headerFill), character => character.charCodeAt(0)))
+  output.set(data, headerLength)
+  return output
+}
+
+function concat(...hdus: Uint8Array[]): ArrayBuffer {
+  const output = new Uint8Array(hdus.reduce((accum, hdu) => accum + hdu.length, 0))
+  let offset = 0
+  for (const hdu of hdus) {
+    output.set(hdu, offset)
+    offset += hdu.length
+  }
+  return output.buffer
+}
+
+const PRIMARY = [
+  "SIMPLE  =                    T",
+  "BITPIX  =                    8",
+  "NAXIS   =                    0",
+]
+
+describe("validation", () => {
+  it("accepts files written by the library", () => {
+    const primary = FITS.fromDataArray([1, 2, 3], 16, [3])
+    primary.header.set("OBJECT", "M31")
+    const buffer = FITSFile.fromHDUs(primary, [FITS.fromDataArray([1.5, 2.5], -32, [2])]).toBuffer({ checksum: true })
+
+    expect(FITSFile.validate(buffer)).toEqual([])
+  })
+
+  it("reports every problem of the header records", () => {
+    const buffer = concat(buildHDU([
+      "SIMPLE  =                    T",
+      "NAXIS   =                    1",
+      "BITPIX  =                    8",
+      "NAXIS1  = 3",
+      "bad_key =                    1",
+      "OBJECT  = 'M31'",
+      "OBJECT  = 'M32'",
+      "BSCALE  = 'one'",
+      "NAXIS   =                    1",
+      "EXTEND  =                    1",
+      "DATE    = 2024",
+      "COMMENT café",
+    ]))
+
+    expect(FITSFile.validate(buffer)).toEqual([
+      { severity: "error", hdu: 0, card: 3, message: "The value of NAXIS1 is not in fixed format" },
+      { severity: "error", hdu: 0, card: 4, message: "Illegal keyword \"bad_key\"" },
+      { severity: "error", hdu: 0, card: 6, message: "Duplicate OBJECT keyword" },
+      { severity: "error", hdu: 0, card: 7, message: "Expected BSCALE to be a real number, but got 'one'" },
+      { severity: "error", hdu: 0, card: 8, message: "Duplicate NAXIS keyword" },
+      { severity: "error", hdu: 0, card: 9, message: "Expected EXTEND to be a logical value, but got 1" },
+      { severity: "error", hdu: 0, card: 10, message: "Expected DATE to be a string, but got 2024" },
+      { severity: "error", hdu: 0, card: 11, message: "Illegal character 0xE9 in column 12" },
+      { severity: "error", hdu: 0, card: 2, message: "BITPIX must be keyword number 2 of the header" },
+      { severity: "error", hdu: 0, card: 1, message: "NAXIS must be keyword number 3 of the header" },
+    ])
+  })
+
+  it("checks the mandatory keywords of extensions", () => {
+    const buffer = concat(
+      buildHDU([...PRIMARY, "EXTEND  =                    T"]),
+      buildHDU([
+        "XTENSION= 'IMAGE   '",
+        "BITPIX  =                   12",
+        "NAXIS   =                    1",
+        "NAXIS1  =                    2",
+        "PCOUNT  =                    4",
+      ], [1, 2]),
+    )
+
+    expect(FITSFile.validate(buffer)).toEqual([
+      { severity: "error", hdu: 1, card: null, message: "Missing GCOUNT keyword" },
+      { severity: "error", hdu: 1, card: 1, message: "Unexpected BITPIX value: 12" },
+      { severity: "error", hdu: 1, card: 4, message: "Unexpected PCOUNT value: 4" },
+    ])
+  })
+
+  it("warns about registered extension types and trailing bytes", () => {
+    const buffer = concat(
+      buildHDU(PRIMARY),
+      buildHDU(["XTENSION= 'IUEIMAGE'", "BITPIX  =                    8", "NAXIS   =                    0", "PCOUNT  =                    0", "GCOUNT  =                    1"]),
+      new Uint8Array(2880).fill(0x41),
+    )
+
+    expect(FITSFile.validate(buffer)).toEqual([
+      { severity: "warning", hdu: 1, card: 0, message: "Unexpected XTENSION value: IUEIMAGE" },
+      { severity: "warning", hdu: 2, card: null, message: "Ignoring 2880 bytes after the last HDU" },
+    ])
+  })
+
+  it("checks the END card and the padding of the header and data", () => {
+    const hdu = buildHDU([...PRIMARY.slice(0, 2), "NAXIS   =                    1", "NAXIS1  =                    3"], [1, 2, 3], "x", 7)
+    const end = buildHDU(PRIMARY)
+    end[3 * 80 + 20] = 0x41
+
+    expect(FITSFile.validate(concat(hdu))).toEqual([
+      { severity: "error", hdu: 0, card: 4, message: "The header must be padded with spaces after END" },
+      { severity: "error", hdu: 0, card: null, message: "The data unit must be padded with zeros" },
+    ])
+    expect(FITSFile.validate(concat(end))).toEqual([
+      { severity: "error", hdu: 0, card: 3, message: "END must be followed by spaces" },
+    ])
+  })
+
+  it("stops at a missing END card or a truncated data unit", () => {
+    const header = buildHDU(PRIMARY).subarray(0, 240)
+    const truncated = buildHDU(["SIMPLE  =                    T", "BITPIX  =                   16", "NAXIS   =                    1", "NAXIS1  =                 2000"], [1, 2])
+
+    expect(FITSFile.validate(concat(header))).toEqual([
+      { severity: "error", hdu: 0, card: null, message: "The size of the file (240 bytes) is not a multiple of 2880" },
+      { severity: "error", hdu: 0, card: null, message: "Missing END card" },
+    ])
+    expect(FITSFile.validate(concat(truncated))).toEqual([
+      { severity: "error", hdu: 0, card: null, message: "Expected 4000 bytes of data, but got 2880" },
+    ])
+  })
+})
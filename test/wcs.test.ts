@@ -0,0 +1,249 @@
+import { describe, expect, it } from "vitest"
+
+import { FITS, FITSWCS } from "../src"
+
+// The expected coordinates were computed with astropy (wcslib)
+describe("linear WCS", () => {
+  it("transforms coordinates with CDi_j", () => {
+    const fits = FITS.fromDataArray(Array.from({ length: 80 }, (_, i) => i), 16, [10, 8])
+    fits.header.set("CRPIX1", 5.5)
+    fits.header.set("CRPIX2", 4)
+    fits.header.set("CRVAL1", 100)
+    fits.header.set("CRVAL2", -20)
+    fits.header.set("CD1_1", 0.5)
+    fits.header.set("CD1_2", 0.1)
+    fits.header.set("CD2_1", -0.2)
+    fits.header.set("CD2_2", 0.25)
+    const wcs = fits.getWCS()
+
+    expect(wcs.CD).toEqual([[0.5, 0.1], [-0.2, 0.25]])
+    const world = wcs.pixelToWorld([2, 7])
+    expect(world[0]).toBeCloseTo(98.55, 12)
+    expect(world[1]).toBeCloseTo(-18.55, 12)
+    expect(wcs.worldToPixel(world).map(p => Number(p.toFixed(12)))).toEqual([2, 7])
+    expect(wcs.pixelToWorld([5.5, 4])).toEqual([100, -20])
+  })
+
+  it("transforms coordinates with PCi_j and CDELTi along any number of axes", () => {
+    const cube = FITS.fromDataArray(Array.from({ length: 24 }, (_, i) => i), 16, [4, 3, 2])
+    cube.header.addAxis(1, { crpix: 2, crval: 10, cdelt: 2 })
+    cube.header.addAxis(2, { crpix: 1, crval: 20, cdelt: 3 })
+    cube.header.addAxis(3, { ctype: "FREQ", cunit: "Hz", crpix: 1, crval: 1.4e9, cdelt: 1e6 })
+    cube.header.set("PC1_1", 0.8)
+    cube.header.set("PC1_2", -0.6)
+    cube.header.set("PC2_1", 0.6)
+    cube.header.set("PC2_2", 0.8)
+    const wcs = FITSWCS.fromHeader(cube.header)
+
+    expect(wcs.NAXIS).toBe(3)
+    expect(wcs.CTYPE).toEqual(["", "", "FREQ"])
+    expect(wcs.CUNIT).toEqual(["", "", "Hz"])
+    const world = wcs.pixelToWorld([3, 2, 2])
+    expect(world[0]).toBeCloseTo(10.4, 12)
+    expect(world[1]).toBeCloseTo(24.2, 12)
+    expect(world[2]).toBe(1.401e9)
+    expect(wcs.worldToPixel(world).map(p => Number(p.toFixed(9)))).toEqual([3, 2, 2])
+  })
+
+  it("rotates the first two axes with the legacy CROTA2", () => {
+    const fits = FITS.fromDataArray(Array.from({ length: 80 }, (_, i) => i), 16, [10, 8])
+    fits.header.addAxis(1, { crpix: 3, crval: 1, cdelt: -0.5 })
+    fits.header.addAxis(2, { crpix: 4, crval: 2, cdelt: 0.25, crota: 30 })
+    const wcs = fits.getWCS()
+
+    const world = wcs.pixelToWorld([7, 1])
+    expect(world[0]).toBeCloseTo(1 - 1.3570508075688774, 12)
+    expect(world[1]).toBeCloseTo(2 - 1.649519052838329, 12)
+    expect(wcs.worldToPixel(world).map(p => Number(p.toFixed(12)))).toEqual([7, 1])
+
+    // PCi_j takes precedence over CROTA2
+    fits.header.set("PC1_1", 1)
+    expect(fits.getWCS().pixelToWorld([7, 1])).toEqual([-1, 1.25])
+  })
+
+  it("reads alternative WCS and WCSAXES", () => {
+    const fits = FITS.fromDataArray([1, 2, 3], 16, [3])
+    fits.header.set("WCSAXES", 2)
+    fits.header.set("CRVAL1", 10)
+    fits.header.set("CTYPE2", "TIME")
+    fits.header.set("CRVAL2", 5)
+    fits.header.set("CRVAL1A", 100)
+    fits.header.set("CDELT1A", 10)
+    fits.header.set("CUNIT1A", "nm")
+
+    expect(fits.getWCS().pixelToWorld([2, 1])).toEqual([12, 6])
+    const alternative = fits.getWCS("A")
+    expect(alternative.NAXIS).toBe(1)
+    expect(alternative.CUNIT).toEqual(["nm"])
+    expect(alternative.pixelToWorld([3])).toEqual([130])
+    expect(() => fits.getWCS("a")).toThrow(RangeError)
+  })
+
+  it("validates the coordinates", () => {
+    const fits = FITS.fromDataArray([1, 2, 3, 4], 16, [2, 2])
+    fits.header.set("CD1_1", 1)
+    const wcs = fits.getWCS()
+
+    expect(() => wcs.pixelToWorld([1])).toThrow("Expected 2 pixel coordinates, but got 1")
+    expect(() => wcs.worldToPixel([1, 2, 3])).toThrow("Expected 2 world coordinates, but got 3")
+    expect(() => wcs.worldToPixel([1, 2])).toThrow("The linear transformation of the WCS is singular")
+  })
+
+  it("reads data points by world coordinates", () => {
+    const fits = FITS.fromDataArray([11, 12, 13, 21, 22, 23], 16, [3, 2])
+    fits.header.addAxis(1, { crpix: 1, crval: 500, cdelt: -10 })
+    fits.header.addAxis(2, { crpix: 1, crval: 0, cdelt: 0.5 })
+
+    expect(fits.getWorldCoordinates(3, 2)).toEqual([480, 0.5])
+    expect(fits.getPointAtWorld(480, 0.5)).toBe(23)
+    expect(fits.getPointAtWorld(496, 0.2)).toBe(11)
+    expect(fits.getPointAtWorld(494, 0.3)).toBe(22)
+    expect(() => fits.getPointAtWorld(520, 0)).toThrow(RangeError)
+  })
+})
+
+// Builds a 2D image with celestial axes, with the reference point and scale shared by the tests below
+function celestialImage(lng: string, lat: string, crval1: number, crval2: number): FITS {
+  const fits = FITS.fromDataArray(Array.from({ length: 100 * 100 }, () => 0), 16, [100, 100])
+  fits.header.addAxis(1, { ctype: lng, crpix: 50.5, crval: crval1, cdelt: -0.5 })
+  fits.header.addAxis(2, { ctype: lat, crpix: 40, crval: crval2, cdelt: 0.5 })
+  return fits
+}
+
+// Checks two pixels against astropy (wcslib), the reference point, and the round trip
+function expectWorld(wcs: FITSWCS, expected: [number, number][], reference: [number, number]): void {
+  const pixels = [[10, 20], [80, 90]]
+  for (const [i, pixel] of pixels.entries()) {
+    const world = wcs.pixelToWorld(pixel)
+    expect(world[0]).toBeCloseTo(expected[i]![0], 9)
+    expect(world[1]).toBeCloseTo(expected[i]![1], 9)
+
+    const roundTrip = wcs.worldToPixel(world)
+    expect(roundTrip[0]).toBeCloseTo(pixel[0]!, 8)
+    expect(roundTrip[1]).toBeCloseTo(pixel[1]!, 8)
+  }
+
+  const world = wcs.pixelToWorld([50.5, 40])
+  expect(world[0]).toBeCloseTo(reference[0], 12)
+  expect(world[1]).toBeCloseTo(reference[1], 12)
+}
+
+// The expected coordinates were computed with astropy (wcslib)
+describe("celestial WCS", () => {
+  it("projects zenithal projections", () => {
+    const expected: Record<string, [number, number][]> = {
+      TAN: [[170.34206180635573, 18.938128480840355], [128.32889908928874, 51.546393129156485]],
+      SIN: [[171.81032279200366, 17.960891387484587], [124.02882529983805, 53.99453569615506]],
+      STG: [[171.02213401727485, 18.488277839205683], [126.50808285335954, 52.63586173030371]],
+      ARC: [[171.26862594414774, 18.324037533306626], [125.78680425149824, 53.04545896017081]],
+      ZEA: [[171.39680280552915, 18.23838288505753], [125.3955090917088, 53.26265632960907]],
+    }
+    for (const [code, coordinates] of Object.entries(expected)) {
+      const wcs = celestialImage(`RA---${code}`, `DEC--${code}`, 150, 30).getWCS()
+      expect(wcs.celestial).toEqual({ lng: 0, lat: 1, projection: code, LONPOLE: 180, LATPOLE: 30 })
+      expectWorld(wcs, coordinates, [150, 30])
+    }
+  })
+
+  it("reads the parameters of the projections", () => {
+    const azp = celestialImage("RA---AZP", "DEC--AZP", 150, 30)
+    azp.header.set("PV2_1", 2)
+    azp.header.set("PV2_2", 30)
+    expectWorld(azp.getWCS(), [[172.06571949825812, 19.266841092180936], [129.3456167642012, 48.69531887321112]], [150, 30])
+
+    const sin = celestialImage("RA---SIN", "DEC--SIN", 150, 30)
+    sin.header.set("PV2_1", 0.1)
+    sin.header.set("PV2_2", -0.2)
+    expectWorld(sin.getWCS(), [[171.44715097241524, 18.918204872162434], [121.01184908914688, 55.65498445639886]], [150, 30])
+  })
+
+  it("projects cylindrical and pseudo-cylindrical projections", () => {
+    const expected: Record<string, [number, number][]> = {
+      CAR: [[-10.069636367989688, -0.6056221705887943], [-46.28742126684972, 34.6380434797719]],
+      CEA: [[-10.072730729027057, -0.6570074914949425], [-46.344854544362136, 35.5068743196763]],
+      MER: [[-10.066607707926664, -0.5553269419794011], [-46.238393269220154, 33.88164045571907]],
+      CYP: [[-10.06811744736433, -0.5803984349359773], [-46.2623480630549, 34.252916620400036]],
+      SFL: [[-9.762540161890911, -0.6242499264317494], [-47.96363465662864, 34.56007587568407]],
+      PAR: [[-9.793683944736927, -0.1757359954615726], [-47.570209555389454, 33.52797250568216]],
+      MOL: [[-7.629856937031491, 0.2236391494413206], [-48.83843811052145, 32.24980945908674]],
+      AIT: [[-9.811548430731364, -0.5940778329618154], [-47.58171138965656, 34.72274737252057]],
+    }
+    for (const [code, coordinates] of Object.entries(expected)) {
+      expectWorld(celestialImage(`GLON-${code}`, `GLAT-${code}`, -30, 10).getWCS(), coordinates, [-30, 10])
+    }
+  })
+
+  it("projects conic projections", () => {
+    const expected: Record<string, [number, number][]> = {
+      COP: [[173.97662071804962, 32.00842112623649], [114.44130635146844, 66.0450566166348]],
+      COE: [[174.04702173524905, 32.10384388897602], [114.75641822804312, 67.16481457474592]],
+      COD: [[174.00085330345016, 31.994365748663768], [114.54457004085941, 66.737607861659]],
+      COO: [[173.95265681195033, 31.885012379122102], [114.33319670876557, 66.4550493393224]],
+    }
+    for (const [code, coordinates] of Object.entries(expected)) {
+      const fits = celestialImage(`RA---${code}`, `DEC--${code}`, 150, 45)
+      expect(() => fits.getWCS()).toThrow(TypeError)
+      fits.header.set("PV2_1", 45)
+      fits.header.set("PV2_2", 10)
+      expectWorld(fits.getWCS(), coordinates, [150, 45])
+    }
+  })
+
+  it("places the native pole with LONPOLE and LATPOLE", () => {
+    const fits = celestialImage("RA---CAR", "DEC--CAR", 150, 30)
+    fits.header.set("LONPOLE", 30)
+    fits.header.set("LATPOLE", -30)
+    const wcs = fits.getWCS()
+
+    expect(wcs.celestial?.LONPOLE).toBe(30)
+    expect(wcs.celestial?.LATPOLE).toBeCloseTo(-54.73561031724535, 12)
+    expectWorld(wcs, [[128.28168767157234, 44.599725590566614], [154.39921204689722, 1.5209882549638423]], [150, 30])
+
+    // The celestial pole can't be placed at a native longitude of 150°
+    fits.header.set("LONPOLE", 150)
+    expect(() => fits.getWCS()).toThrow(RangeError)
+  })
+
+  it("converts angular units and rotates the celestial axes with CROTAi", () => {
+    const fits = FITS.fromDataArray(Array.from({ length: 100 * 100 }, () => 0), 16, [100, 100])
+    fits.header.addAxis(1, { ctype: "RA---TAN", cunit: "arcmin", crpix: 50.5, crval: 9000, cdelt: -30 })
+    fits.header.addAxis(2, { ctype: "DEC--TAN", cunit: "arcmin", crpix: 40, crval: 1800, cdelt: 30, crota: 30 })
+    const wcs = fits.getWCS()
+
+    expect(wcs.CUNIT).toEqual(["deg", "deg"])
+    expect(wcs.CRVAL).toEqual([150, 30])
+    expectWorld(wcs, [[174.7497040386668, 29.062543286320548], [119.25012980386849, 39.68088657512294]], [150, 30])
+  })
+
+  it("handles other axes, hidden points and invalid axes", () => {
+    const cube = FITS.fromDataArray(Array.from({ length: 8 }, () => 0), 16, [2, 2, 2])
+    cube.header.addAxis(1, { ctype: "FREQ", crpix: 1, crval: 1e9, cdelt: 1e6 })
+    cube.header.addAxis(2, { ctype: "DEC--TAN", crpix: 1, crval: 30, cdelt: 1 })
+    cube.header.addAxis(3, { ctype: "RA---TAN", crpix: 1, crval: 150, cdelt: -1 })
+    const wcs = cube.getWCS()
+
+    expect(wcs.celestial).toMatchObject({ lng: 2, lat: 1, projection: "TAN" })
+    const world = wcs.pixelToWorld([2, 1, 1])
+    expect(world[0]).toBe(1.001e9)
+    expect(world[1]).toBeCloseTo(30, 12)
+    expect(world[2]).toBeCloseTo(150, 12)
+    expect(wcs.worldToPixel([1e9, -30, 330])).toEqual([Number.NaN, Number.NaN, Number.NaN])
+
+    cube.header.set("CTYPE1", "GLON-TAN")
+    expect(() => cube.getWCS()).toThrow("Duplicate celestial axis: RA---TAN")
+    cube.header.set("CTYPE1", "FREQ")
+    cube.header.set("CTYPE2", "GLAT-TAN")
+    expect(() => cube.getWCS()).toThrow("Mismatched celestial axes: RA---TAN and GLAT-TAN")
+    cube.header.set("CTYPE2", "DEC--XYZ")
+    expect(() => cube.getWCS()).toThrow("Mismatched celestial axes: RA---TAN and DEC--XYZ")
+    cube.header.set("CTYPE3", "RA---XYZ")
+    expect(() => cube.getWCS()).toThrow("Unsupported projection: XYZ")
+    cube.header.set("CTYPE3", "VELO")
+    expect(() => cube.getWCS()).toThrow("Unmatched celestial axis: DEC--XYZ")
+
+    // Distortions would give wrong sky coordinates
+    cube.header.set("CTYPE2", "DEC--TAN-SIP")
+    cube.header.set("CTYPE3", "RA---TAN-SIP")
+    expect(() => cube.getWCS()).toThrow("Unsupported distortion SIP in DEC--TAN-SIP")
+  })
+})
@@ -124,13 +124,68 @@ describe("typed array constructors", () => {
     expect(Array.from(float64Fits.data.getData(), ({ value }) => value)).toEqual([1.25, -2.5, 3.75])
     expect(Array.from(float32Fits.data.getData(), ({ value }) => value)).toEqual([1.5, -2.25, 3.5])
     expect(Array.from(int32Fits.data.getData(), ({ value }) => value)).toEqual([1, -2, 3])
-    expect(Array.from(uint16Fits.data.getData(), ({ value }) => value)).toEqual([0, 1, 32767])
+    expect(uint16Fits.data.toTypedArray()).toEqual(new Uint16Array([0, 1, 32767]))
   })
 
   it("validates typed array length against axes", () => {
     expect(() => FITS.fromTypedArray(new Float32Array([1, 2]), -32, [3])).toThrow(RangeError)
   })
 
+  it("applies the signed-byte and unsigned integer conventions", () => {
+    const int8Fits = FITS.fromTypedArray(new Int8Array([-128, 0, 127]), 8, [3])
+    expect(int8Fits.header.getValue("BZERO")).toBe(-128)
+    expect(Array.from(int8Fits.data.getData(), ({ value }) => value)).toEqual([0, 128, 255])
+
+    const uint32Fits = FITS.fromTypedArray(new Uint32Array([0, 2147483648, 4294967295]), 32, [3])
+    expect(uint32Fits.header.getValue("BZERO")).toBe(2147483648)
+
+    const parsedInt8 = FITS.fromBuffer(int8Fits.toBuffer(), null)
+    const parsedUint32 = FITS.fromBuffer(uint32Fits.toBuffer(), null)
+    expect(parsedInt8.data.toTypedArray()).toEqual(new Int8Array([-128, 0, 127]))
+    expect(parsedUint32.data.toTypedArray()).toEqual(new Uint32Array([0, 2147483648, 4294967295]))
+
+    // Other combinations are written as is
+    const widened = FITS.fromTypedArray(new Uint16Array([65535]), 32, [1])
+    expect(widened.header.getValue("BZERO")).toBeUndefined()
+    expect(widened.data.toTypedArray()).toEqual(new Int32Array([65535]))
+  })
+
+  it("removes the scaling cards of a copied header for unscaled data", () => {
+    const { header } = FITS.fromTypedArray(new Uint16Array([1, 2, 3]), 16, [3])
+
+    const signed = FITS.fromTypedArray(new Int16Array([1, 2, 3]), 16, [3], header)
+    expect(signed.header.getValue("BSCALE")).toBeUndefined()
+    expect(signed.header.getValue("BZERO")).toBeUndefined()
+    expect(FITS.fromBuffer(signed.toBuffer(), null).data.toTypedArray({ physical: true })).toEqual(new Float64Array([1, 2, 3]))
+
+    const floats = FITS.fromTypedArray(new Float32Array([1.5, 2.5]), -32, [2], header)
+    expect(floats.header.getValue("BZERO")).toBeUndefined()
+    expect(FITS.fromBuffer(floats.toBuffer(), null).data.toTypedArray({ physical: true })).toEqual(new Float64Array([1.5, 2.5]))
+  })
+
+  it("reads and writes 64-bit integers as bigints", () => {
+    const values = new BigInt64Array([-(2n ** 63n), -1n, 2n ** 53n + 1n, 2n ** 63n - 1n])
+    const int64Fits = FITS.fromTypedArray(values, 64, [2, 2])
+    expect(int64Fits.header.getValue("BZERO")).toBeUndefined()
+
+    const parsed = FITS.fromBuffer(int64Fits.toBuffer(), null)
+    expect(parsed.header.getValue("BITPIX")).toBe(64)
+    expect(parsed.data.getPoint(1, 2)).toBe(2n ** 53n + 1n)
+    expect(parsed.data.toTypedArray()).toEqual(values)
+    expect(parsed.data.toJSON()).toEqual(["-9223372036854775808", "-1", "9007199254740993", "9223372036854775807"])
+  })
+
+  it("applies the unsigned 64-bit integer convention", () => {
+    const values = new BigUint64Array([0n, 2n ** 63n, 2n ** 64n - 1n])
+    const uint64Fits = FITS.fromTypedArray(values, 64, [3])
+    expect(new TextDecoder().decode(uint64Fits.header.toBuffer())).toContain("BZERO   =  9223372036854775808")
+
+    const parsed = FITS.fromBuffer(uint64Fits.toBuffer(), null)
+    expect(parsed.data.BZERO).toBe(2 ** 63)
+    expect(parsed.data.getPoint(1)).toBe(-(2n ** 63n))
+    expect(parsed.data.toTypedArray()).toEqual(values)
+  })
+
   it("writes unsigned 16-bit images using BZERO and BSCALE", () => {
     const fits = FITS.fromUint16Array(new Uint16Array([0, 32768, 65535]), [3])
 
@@ -145,3 +200,155 @@ describe("typed array constructors", () => {
     expect(Array.from(parsed.data.getData(), ({ value }) => value)).toEqual([-32768, 0, 32767])
   })
 })
+
+describe("physical values", () => {
+  it("applies BSCALE and BZERO when reading", () => {
+    const fits = FITS.fromPhysicalArray([10, 10.5, 11, 11.5, 12, 12.5], 16, [3, 2], { BSCALE: 0.5, BZERO: 10 })
+
+    const parsed = FITS.fromBuffer(fits.toBuffer(), null)
+    expect(parsed.data.BSCALE).toBe(0.5)
+    expect(parsed.data.BZERO).toBe(10)
+    expect(parsed.data.getPoint(3, 1)).toBe(2)
+    expect(parsed.data.getPhysicalPoint(1, 2)).toBe(11.5)
+    expect(Array.from(parsed.data.getPhysicalData(), ({ value }) => value)).toEqual([10, 10.5, 11, 11.5, 12, 12.5])
+    expect(() => parsed.data.getPoint(4, 1)).toThrow(RangeError)
+  })
+
+  it("returns native-endian typed arrays of stored or physical values", () => {
+    const fits = FITS.fromPhysicalArray([10, 10.5, 11, 11.5, 12, 12.5], 16, [3, 2], { BSCALE: 0.5, BZERO: 10 })
+    const parsed = FITS.fromBuffer(fits.toBuffer(), null)
+
+    expect(parsed.data.toTypedArray()).toEqual(new Int16Array([0, 1, 2, 3, 4, 5]))
+    expect(parsed.data.toTypedArray({ physical: true })).toEqual(new Float64Array([10, 10.5, 11, 11.5, 12, 12.5]))
+
+    const floats = FITS.fromBuffer(FITS.fromTypedArray(new Float32Array([1.5, -2.25, 1e30]), -32, [3]).toBuffer(), null)
+    expect(floats.data.toTypedArray()).toEqual(new Float32Array([1.5, -2.25, 1e30]))
+
+    const unsigned = FITS.fromTypedArray(new Uint16Array([0, 40000, 65535]), 16, [3])
+    expect(unsigned.data.toTypedArray({ physical: true })).toEqual(new Float64Array([0, 40000, 65535]))
+  })
+
+  it("chooses the scaling from the physical values", () => {
+    const shifted = FITS.fromPhysicalArray([0, 40000, 65535], 16, [3])
+    expect(shifted.header.getValue("BSCALE")).toBe(1)
+    expect(shifted.header.getValue("BZERO")).toBe(32768)
+    expect(Array.from(shifted.data.getData(), ({ value }) => value)).toEqual([-32768, 7232, 32767])
+
+    const spread = FITS.fromPhysicalArray([-1, 0.25, 1], 8, [3])
+    expect(spread.data.BSCALE).toBeCloseTo(2 / 255)
+    expect(Array.from(spread.data.getData(), ({ value }) => value)).toEqual([0, 159, 255])
+    expect(Array.from(spread.data.getPhysicalData(), ({ value }) => value)[1]).toBeCloseTo(0.25, 2)
+
+    const plain = FITS.fromPhysicalArray([1, 2, 3], 16, [3], undefined, shifted.header)
+    expect(plain.header.getValue("BSCALE")).toBeUndefined()
+    expect(plain.header.getValue("BZERO")).toBeUndefined()
+  })
+
+  it("rejects values that can't be stored", () => {
+    expect(() => FITS.fromPhysicalArray([1, 70000], 16, [2], { BSCALE: 1, BZERO: 0 })).toThrow(RangeError)
+    expect(() => FITS.fromPhysicalArray([1, Number.NaN], 16, [2], { BSCALE: 1, BZERO: 0 })).toThrow(TypeError)
+  })
+})
+
+describe("undefined values", () => {
+  it("writes BLANK for null integer values and reads them as NaN", () => {
+    const fits = FITS.fromDataArray([1, null, 3, -5], 16, [2, 2])
+    expect(fits.header.getValue("BLANK")).toBe(-32768)
+    expect(fits.data.getPoint(2, 1)).toBe(-32768)
+
+    const parsed = FITS.fromBuffer(fits.toBuffer(), null)
+    expect(parsed.data.BLANK).toBe(-32768)
+    expect(parsed.data.isBlank(2, 1)).toBe(true)
+    expect(parsed.data.isBlank(1, 1)).toBe(false)
+    expect(parsed.data.getPhysicalPoint(2, 1)).toBeNaN()
+    expect(parsed.data.getBlankMask()).toEqual([false, true, false, false])
+    expect(parsed.data.toTypedArray({ physical: true })).toEqual(new Float64Array([1, Number.NaN, 3, -5]))
+    expect(Array.from(parsed.data.getPhysicalData(), ({ value }) => value)).toEqual([1, Number.NaN, 3, -5])
+  })
+
+  it("keeps the BLANK value out of the chosen scaling", () => {
+    const fits = FITS.fromPhysicalArray([-32768, null, 32766], 16, [3])
+    expect(fits.data.BZERO).toBe(-1)
+    expect(fits.header.getValue("BLANK")).toBe(-32768)
+    expect(fits.data.toTypedArray({ physical: true })).toEqual(new Float64Array([-32768, Number.NaN, 32766]))
+
+    const unsigned = FITS.fromPhysicalArray([0, null, 65534], 16, [3])
+    expect(unsigned.data.toTypedArray({ physical: true })).toEqual(new Float64Array([0, Number.NaN, 65534]))
+
+    expect(() => FITS.fromDataArray([0, null], 8, [2])).toThrow("Value 0 at index 0 is the same as BLANK = 0")
+    expect(FITS.fromPhysicalArray([1, 2], 16, [2], undefined, fits.header).header.getValue("BLANK")).toBeUndefined()
+  })
+
+  it("removes the BLANK card of a copied header for data without undefined points", () => {
+    const { header } = FITS.fromDataArray([1, null, 3], 16, [3])
+
+    const fits = FITS.fromDataArray([1, 2, -32768], 16, [3], header)
+    expect(fits.header.getValue("BLANK")).toBeUndefined()
+
+    const parsed = FITS.fromBuffer(fits.toBuffer(), null)
+    expect(parsed.data.BLANK).toBeNull()
+    expect(parsed.data.toTypedArray({ physical: true })).toEqual(new Float64Array([1, 2, -32768]))
+  })
+
+  it("treats NaN as undefined in floating-point data", () => {
+    const fits = FITS.fromDataArray([1.5, null, Number.NaN], -32, [3])
+    expect(fits.header.getValue("BLANK")).toBeUndefined()
+
+    const parsed = FITS.fromBuffer(fits.toBuffer(), null)
+    expect(parsed.data.getBlankMask()).toEqual([false, true, true])
+    expect(parsed.data.getPhysicalPoint(2)).toBeNaN()
+  })
+
+  it("ignores BLANK in floating-point headers and supports 64-bit integers", () => {
+    const floats = FITS.fromDataArray([1, 2], -64, [2])
+    floats.header.set("BLANK", 1)
+    expect(FITS.fromBuffer(floats.toBuffer(), null).data.BLANK).toBeNull()
+
+    const int64 = FITS.fromBuffer(FITS.fromDataArray([7, null], 64, [2]).toBuffer(), null)
+    expect(int64.data.BLANK).toBe(-(2n ** 63n))
+    expect(int64.data.getBlankMask()).toEqual([false, true])
+  })
+})
+
+describe("in-place updates", () => {
+  it("sets single points with 1-based coordinates", () => {
+    const fits = FITS.fromDataArray([1, 2, 3, 4, 5, 6], 16, [3, 2])
+    fits.data.setPoint(-7, 2, 2)
+    expect(fits.data.getPoint(2, 2)).toBe(-7)
+
+    const parsed = FITS.fromBuffer(fits.toBuffer(), null)
+    expect(parsed.data.toTypedArray()).toEqual(new Int16Array([1, 2, 3, 4, -7, 6]))
+
+    expect(() => fits.data.setPoint(1, 4, 1)).toThrow(RangeError)
+    expect(() => fits.data.setPoint(40000, 1, 1)).toThrow("Value 40000 out of range for BITPIX = 16")
+    expect(() => fits.data.setPoint(1.5, 1, 1)).toThrow(TypeError)
+    expect(() => fits.data.setPoint(null, 1, 1)).toThrow("Cannot store undefined values without BLANK")
+  })
+
+  it("fills regions and marks undefined points", () => {
+    const fits = FITS.fromDataArray([0, 0, 0, 0, 0, 0, 0, 0, 0], -32, [3, 3])
+    fits.data.fill(1)
+    fits.data.fill(5, [{ start: 2, end: 3 }, { step: 2 }])
+    fits.data.setPoint(null, 1, 2)
+    expect(fits.data.toTypedArray()).toEqual(new Float32Array([1, 5, 5, Number.NaN, 1, 1, 1, 5, 5]))
+
+    const blank = FITS.fromDataArray([1, null, 3], 32, [3])
+    blank.data.fill(null, [{ start: 3 }])
+    expect(blank.data.getBlankMask()).toEqual([false, true, true])
+  })
+
+  it("maps stored values over regions", () => {
+    const image = FITS.fromDataArray([10, 20, 30, 40], -64, [2, 2])
+    const flat = FITS.fromDataArray([1, 2, 0.5, 4], -64, [2, 2])
+    image.data.map((value, coordinates) => Number(value) / flat.data.getPhysicalPoint(...coordinates))
+    expect(image.data.toTypedArray()).toEqual(new Float64Array([10, 10, 60, 10]))
+
+    image.data.map(value => Number(value) > 50 ? null : value, [{}, { start: 2 }])
+    expect(image.data.getBlankMask()).toEqual([false, false, true, false])
+
+    const int64 = FITS.fromTypedArray(new BigInt64Array([1n, 2n]), 64, [2])
+    int64.data.map(value => BigInt(value) * 2n ** 40n)
+    expect(int64.data.toTypedArray()).toEqual(new BigInt64Array([2n ** 40n, 2n ** 41n]))
+    expect(() => int64.data.map(() => 2n ** 63n)).toThrow(RangeError)
+  })
+})